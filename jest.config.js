@@ -5,6 +5,8 @@ export default {
     '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
     '\\.(jpg|jpeg|png|gif|svg)$': '<rootDir>/src/__mocks__/fileMock.js',
     '^framer-motion$': '<rootDir>/src/__mocks__/framer-motion.ts',
+    // jsdom resolves jspdf to its ES module build, which Jest cannot load
+    '^jspdf$': '<rootDir>/node_modules/jspdf/dist/jspdf.umd.min.js',
     '^../utils/pdfGenerator$': '<rootDir>/src/__mocks__/pdfGenerator.ts',
     '^../../utils/pdfGenerator$': '<rootDir>/src/__mocks__/pdfGenerator.ts',
   },
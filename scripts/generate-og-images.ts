@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+import * as path from 'path';
+import { resumeData } from '../src/data/resumeData';
+import { getOGImageCards } from '../src/utils/ogImage';
+import { generateOGImages } from '../src/utils/ogImageGenerator';
+
+/**
+ * Script to draw the Open Graph share cards (og-image.jpg and one
+ * og-image-<variant>.jpg per resume variant) into the public directory
+ */
+async function main() {
+  console.log('🎨 Starting Open Graph image generation...');
+
+  try {
+    const written = await generateOGImages(
+      path.resolve('src/assets/profile-photo.jpg'),
+      getOGImageCards(resumeData),
+      path.resolve('public')
+    );
+    console.log('✅ Open Graph image generation completed successfully!');
+    written.forEach((file) => console.log('📁 Generated:', file));
+  } catch (error) {
+    console.error('❌ Error generating Open Graph images:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
@@ -0,0 +1,27 @@
+#!/usr/bin/env tsx
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { createResumeDocx } from '../src/utils/resumeDocx';
+
+/**
+ * Generates an editable Word version of the resume in the public directory,
+ * for recruiters and agencies that ask for .docx rather than PDF
+ */
+function generateResumeDocx() {
+  try {
+    console.log('🎯 Generating resume DOCX...');
+
+    const outputPath = join(process.cwd(), 'public', 'Robert_Samalonis_Resume.docx');
+    writeFileSync(outputPath, createResumeDocx());
+
+    console.log('✅ Resume DOCX generated successfully!');
+    console.log(`📁 File saved to: ${outputPath}`);
+  } catch (error) {
+    console.error('❌ Error generating resume DOCX:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+generateResumeDocx();
@@ -3,35 +3,128 @@
 import { writeFileSync } from 'fs';
 import { join } from 'path';
 import { createResumeHTML } from '../src/utils/createStaticResumePDF';
+import { getResumePDFFileName } from '../src/utils/pdfGenerator';
+import { PDF_PAPER_SIZES, PDFPaperSize } from '../src/utils/pdfPaper';
+import { findPDFTemplate, PDF_TEMPLATES, PDFTemplate } from '../src/utils/pdfTemplates';
+import { createResumeDocument, getResumeFileName } from '../src/utils/resumeDocument';
+import { renderResumeMarkdown } from '../src/utils/resumeMarkdown';
+import { renderResumeText } from '../src/utils/resumeText';
+import { renderStaticResumePDF } from '../src/utils/staticResumePDF';
 
 /**
- * Generates a static HTML file that can be converted to PDF
- * This script creates an HTML version of the resume that can be:
- * 1. Opened in a browser and printed to PDF
- * 2. Converted to PDF using headless browser tools
- * 3. Used as a fallback when dynamic PDF generation fails
+ * Reads a `--name value` or `--name=value` argument
+ */
+function getArgument(args: string[], name: string): string | undefined {
+  const index = args.findIndex((arg) => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  return args[index].includes('=') ? args[index].split('=')[1] : args[index + 1];
+}
+
+/**
+ * Reads the --template argument (`--template modern` or `--template=modern`);
+ * `all` selects every template, and no argument only the classic template,
+ * whose PDF is the one committed and linked from the site
+ */
+function getRequestedTemplates(args: string[]): PDFTemplate[] {
+  const value = getArgument(args, 'template');
+  if (value === undefined) {
+    return [findPDFTemplate()];
+  }
+  if (value === 'all') {
+    return PDF_TEMPLATES;
+  }
+
+  const template = PDF_TEMPLATES.find((candidate) => candidate.id === value);
+  if (!template) {
+    throw new Error(`Unknown template '${value}'. Use one of: ${PDF_TEMPLATES.map(({ id }) => id).join(', ')}, all`);
+  }
+  return [template];
+}
+
+/**
+ * Reads --paper (a4, letter or legal; A4 by default) and --margin (mm; the
+ * template's own margin by default)
+ */
+function getRequestedPage(args: string[]): { paper?: PDFPaperSize; margin?: number } {
+  const paper = getArgument(args, 'paper');
+  const paperSize = PDF_PAPER_SIZES.find((candidate) => candidate.id === paper);
+  if (paper !== undefined && !paperSize) {
+    throw new Error(`Unknown paper size '${paper}'. Use one of: ${PDF_PAPER_SIZES.map(({ id }) => id).join(', ')}`);
+  }
+
+  const margin = getArgument(args, 'margin');
+  if (margin !== undefined && !(Number(margin) >= 0)) {
+    throw new Error(`--margin must be a number of millimetres, got '${margin}'`);
+  }
+
+  return { paper: paperSize?.id, margin: margin === undefined ? undefined : Number(margin) };
+}
+
+/**
+ * Reads the build date from SOURCE_DATE_EPOCH (seconds since 1970), the
+ * reproducible-builds convention; without it the PDF gets a fixed date
+ */
+function getSourceDate(): Date | undefined {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (!epoch) {
+    return undefined;
+  }
+
+  const seconds = Number(epoch);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error(`SOURCE_DATE_EPOCH must be a whole number of seconds, got '${epoch}'`);
+  }
+  return new Date(seconds * 1000);
+}
+
+/**
+ * Generates the static resume files in the public directory:
+ * 1. An HTML version that can be opened in a browser and printed to PDF
+ * 2. Plain-text and Markdown versions for applicant tracking systems
+ * 3. The classic PDF, or one per template asked for with
+ *    `--template <id|all>`, drawn with the same renderer as the in-page
+ *    download button on A4 unless
+ *    `--paper <a4|letter|legal>` or `--margin <mm>` say otherwise. No browser
+ *    is needed, and the same data always gives byte-identical files.
  */
 async function generateStaticResume() {
   try {
+    const templates = getRequestedTemplates(process.argv.slice(2));
+    const page = getRequestedPage(process.argv.slice(2));
+    const createdAt = getSourceDate();
+
     console.log('🎯 Generating static resume HTML...');
-    
+
     // Generate HTML content
     const htmlContent = createResumeHTML();
-    
+
     // Write to public directory
     const outputPath = join(process.cwd(), 'public', 'Robert_Samalonis_Resume.html');
     writeFileSync(outputPath, htmlContent, 'utf8');
-    
+
     console.log('✅ Static resume HTML generated successfully!');
     console.log(`📁 File saved to: ${outputPath}`);
-    console.log('');
-    console.log('📋 To convert to PDF:');
-    console.log('1. Open the HTML file in a browser');
-    console.log('2. Print to PDF (Ctrl/Cmd + P)');
-    console.log('3. Save as Robert_Samalonis_Resume.pdf in the public directory');
-    console.log('');
-    console.log('🔗 Or use a headless browser tool like Puppeteer for automated conversion');
-    
+
+    console.log('🎯 Generating plain-text and Markdown resumes...');
+    const resume = createResumeDocument();
+    const textPath = join(process.cwd(), 'public', getResumeFileName(resume, 'txt'));
+    writeFileSync(textPath, renderResumeText(resume), 'utf8');
+    console.log(`📁 Plain text saved to: ${textPath}`);
+    const markdownPath = join(process.cwd(), 'public', getResumeFileName(resume, 'md'));
+    writeFileSync(markdownPath, renderResumeMarkdown(resume), 'utf8');
+    console.log(`📁 Markdown saved to: ${markdownPath}`);
+
+    console.log(`🎯 Generating resume PDF (${templates.map(({ id }) => id).join(', ')})...`);
+    templates.forEach((template) => {
+      const pdfPath = join(process.cwd(), 'public', getResumePDFFileName(resume.header.name, template));
+      writeFileSync(pdfPath, renderStaticResumePDF(resume, template, { ...page, createdAt }));
+      console.log(`📁 ${template.label} template saved to: ${pdfPath}`);
+    });
+
+    console.log('✅ Resume PDF generated successfully!');
+
   } catch (error) {
     console.error('❌ Error generating static resume:', error);
     process.exit(1);
@@ -39,4 +132,4 @@ async function generateStaticResume() {
 }
 
 // Run the script
-generateStaticResume();
\ No newline at end of file
+generateStaticResume();
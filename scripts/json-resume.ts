@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import prettier from 'prettier';
+import { resumeData } from '../src/data/resumeData';
+import { fromJSONResume, toJSONResume } from '../src/utils/jsonResume';
+import { JSONResume } from '../src/types/jsonResume';
+
+/**
+ * Converts between resume.json (JSON Resume schema) and the site's data module
+ *
+ *   tsx scripts/json-resume.ts export [path]  writes resume.json from resumeData.ts
+ *   tsx scripts/json-resume.ts import [path]  regenerates resumeData.ts from resume.json
+ */
+const DATA_MODULE_PATH = join(process.cwd(), 'src', 'data', 'resumeData.ts');
+
+async function exportResume(outputPath: string) {
+  console.log('🎯 Exporting resume data to JSON Resume...');
+
+  const json = JSON.stringify(toJSONResume(resumeData), null, 2);
+  writeFileSync(outputPath, `${json}\n`, 'utf8');
+
+  console.log('✅ JSON Resume exported successfully!');
+  console.log(`📁 File saved to: ${outputPath}`);
+}
+
+async function importResume(inputPath: string) {
+  console.log(`🎯 Importing JSON Resume from ${inputPath}...`);
+
+  const json = JSON.parse(readFileSync(inputPath, 'utf8')) as JSONResume;
+  if (!json.basics?.name) {
+    throw new Error('resume.json is missing basics.name');
+  }
+
+  // Documents without meta.lastModified keep the current updated day
+  const data = fromJSONResume(json, { updated: resumeData.updated });
+  const source = [
+    "import { ResumeData } from '../types';",
+    '',
+    '// Generated from resume.json by `npm run import:resume`',
+    `export const resumeData: ResumeData = ${JSON.stringify(data, null, 2)};`,
+    '',
+  ].join('\n');
+
+  const prettierConfig = await prettier.resolveConfig(DATA_MODULE_PATH);
+  const formatted = await prettier.format(source, {
+    ...prettierConfig,
+    parser: 'typescript',
+  });
+  writeFileSync(DATA_MODULE_PATH, formatted, 'utf8');
+
+  console.log('✅ Resume data module regenerated successfully!');
+  console.log(`📁 File saved to: ${DATA_MODULE_PATH}`);
+}
+
+async function main() {
+  const [command, pathArg] = process.argv.slice(2);
+  const filePath = resolve(pathArg ?? 'resume.json');
+
+  try {
+    switch (command) {
+      case 'export':
+        await exportResume(filePath);
+        break;
+      case 'import':
+        await importResume(filePath);
+        break;
+      default:
+        console.error(
+          'Usage: tsx scripts/json-resume.ts <import|export> [path]'
+        );
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Error converting JSON Resume:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+main();
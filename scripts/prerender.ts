@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { pathToFileURL } from 'url';
+
+const CLIENT_DIR = join(process.cwd(), 'dist');
+const SERVER_ENTRY = join(process.cwd(), 'dist-ssr', 'entry-server.js');
+
+/**
+ * Replaces a placeholder comment in index.html, failing loudly when it is
+ * missing so a template edit can't silently ship an empty page
+ */
+function fillPlaceholder(template: string, placeholder: string, content: string): string {
+  if (!template.includes(placeholder)) {
+    throw new Error(`dist/index.html has no ${placeholder} placeholder`);
+  }
+  return template.replace(placeholder, () => content);
+}
+
+/**
+ * Prerenders the page into dist/index.html after `vite build` and the server
+ * build of src/entry-server.tsx:
+ * 1. Every lazy section is rendered to HTML inside #root, which the client
+ *    hydrates instead of rendering from scratch
+ * 2. The meta tags and JSON-LD from src/utils/seo.ts are written into <head>
+ * 3. Each resume variant gets a copy at dist/<variant>/index.html whose
+ *    canonical URL, og:image and twitter:image point at the variant
+ * Crawlers, link unfurlers and visitors without JavaScript get the whole page.
+ */
+async function prerender() {
+  try {
+    console.log('🎯 Prerendering index.html...');
+
+    const { render, renderHead, getVariantIds } = await import(pathToFileURL(SERVER_ENTRY).href);
+    const templatePath = join(CLIENT_DIR, 'index.html');
+    const template = fillPlaceholder(readFileSync(templatePath, 'utf8'), '<!--app-html-->', await render());
+
+    const pages: { path: string; variantId?: string }[] = [
+      { path: templatePath },
+      ...getVariantIds().map((variantId: string) => ({
+        path: join(CLIENT_DIR, variantId, 'index.html'),
+        variantId,
+      })),
+    ];
+
+    for (const page of pages) {
+      mkdirSync(dirname(page.path), { recursive: true });
+      writeFileSync(page.path, fillPlaceholder(template, '<!--app-head-->', renderHead(page.variantId)), 'utf8');
+    }
+
+    console.log('✅ Page prerendered successfully!');
+    pages.forEach((page) => console.log(`📁 File saved to: ${page.path}`));
+  } catch (error) {
+    console.error('❌ Error prerendering page:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+prerender();
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+import { resumeData } from '../src/data/resumeData';
+import { validateResumeData } from '../src/utils/resumeValidator';
+import { getSkillAnalytics } from '../src/utils/skillAnalytics';
+
+/**
+ * Validates the resume data before it is built into the site or the resume
+ * documents. Exits non-zero and lists every problem when the data is invalid.
+ */
+function validateResume() {
+  console.log('🔍 Validating resume data...');
+
+  const issues = validateResumeData(resumeData);
+
+  if (issues.length > 0) {
+    console.error(`❌ Found ${issues.length} problem(s) in resume data:`);
+    issues.forEach((issue) => {
+      console.error(`   ${issue.path}: ${issue.message}`);
+    });
+    process.exit(1);
+  }
+
+  // Technologies without a matching skill still build, but they get no
+  // usage badge — usually a missing skill or alias
+  const { unmatched } = getSkillAnalytics(resumeData);
+  if (unmatched.length > 0) {
+    console.warn(
+      `⚠️  ${unmatched.length} technolog${unmatched.length === 1 ? 'y has' : 'ies have'} no matching skill:`
+    );
+    unmatched.forEach(({ path, technology }) => {
+      console.warn(`   ${path}: '${technology}'`);
+    });
+  }
+
+  console.log('✅ Resume data is valid!');
+}
+
+// Run the script
+validateResume();
@@ -0,0 +1,48 @@
+import { existsSync, readdirSync } from 'fs';
+import type { Plugin } from 'vite';
+import { SiteHost } from '../src/config/site';
+import { resumeData } from '../src/data/resumeData';
+import { getSitemapEntries, renderRobotsTxt, renderSitemap } from '../src/utils/siteFiles';
+
+/**
+ * Builds the site for one host: the app's canonical URLs, Open Graph tags,
+ * structured data and resume links point at it, and the client build gets
+ * a sitemap.xml and robots.txt for it
+ */
+export function sitePlugin(host: SiteHost): Plugin {
+  let isServerBuild = false;
+  let publicDir = '';
+
+  return {
+    name: 'site-files',
+    config: () => ({
+      define: {
+        __SITE_URL__: JSON.stringify(host.url),
+      },
+    }),
+    configResolved(config) {
+      isServerBuild = Boolean(config.build.ssr);
+      publicDir = config.publicDir;
+    },
+    generateBundle() {
+      // The prerender bundle is never deployed
+      if (isServerBuild) {
+        return;
+      }
+
+      // The static HTML resume written by `npm run generate:resume`
+      const resumeFileName = existsSync(publicDir)
+        ? readdirSync(publicDir).find((file) => file.endsWith('_Resume.html'))
+        : undefined;
+      const entries = getSitemapEntries(
+        host.url,
+        resumeFileName,
+        new Date(resumeData.updated),
+        (resumeData.variants ?? []).map((variant) => variant.id)
+      );
+
+      this.emitFile({ type: 'asset', fileName: 'sitemap.xml', source: renderSitemap(entries) });
+      this.emitFile({ type: 'asset', fileName: 'robots.txt', source: renderRobotsTxt(host.url) });
+    },
+  };
+}
@@ -1,7 +1,7 @@
 import { ThemeProvider } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { Box } from '@mui/material';
-import { useEffect, Suspense, lazy } from 'react';
+import { useEffect, useMemo, Suspense, lazy } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { theme } from './styles';
 import {
@@ -10,20 +10,36 @@ import {
   PerformanceOptimizer,
   BackToTop,
 } from './components/common';
+import { modernNavigationItems } from './config/navigation';
+import { SITE_URL } from './config/site';
+import { resumeData } from './data/resumeData';
 import { useSEO } from './hooks/useSEO';
+import { useSectionHistory } from './hooks/useSectionHistory';
 import { initializePerformanceOptimizations } from './utils/performance';
+import { getRequestedVariant, getVariantPageURL } from './utils/resumeVariants';
+import { getSectionSEOConfig } from './utils/seo';
 import './App.css';
 import './styles/accessibility.css';
+import './styles/print.css';
 
 // Lazy load components for better performance
 const Hero = lazy(() => import('./components/sections/Hero'));
 const Resume = lazy(() => import('./components/sections/Resume'));
+const Projects = lazy(() => import('./components/sections/Projects'));
 const Contact = lazy(() => import('./components/sections/Contact'));
 const Footer = lazy(() => import('./components/common/Footer'));
 
 function App() {
-  // Initialize SEO with default configuration
-  useSEO();
+  // Keep the address bar, back/forward and deep links in step with the
+  // section in view, and title the page after it
+  const activeSection = useSectionHistory(modernNavigationItems);
+  const sectionSEO = useMemo(() => {
+    if (!activeSection) return undefined;
+    // A tailored resume's sections stay on the variant's page
+    const variant = getRequestedVariant(resumeData);
+    return getSectionSEOConfig(activeSection, getVariantPageURL(SITE_URL, variant?.id));
+  }, [activeSection]);
+  useSEO(sectionSEO);
 
   // Initialize performance optimizations
   useEffect(() => {
@@ -81,6 +97,13 @@ function App() {
                   >
                     <Resume />
                   </Suspense>
+                  <Suspense
+                    fallback={
+                      <LoadingSpinner message="Loading Projects section..." />
+                    }
+                  >
+                    <Projects />
+                  </Suspense>
                   <Suspense
                     fallback={
                       <LoadingSpinner message="Loading Contact section..." />
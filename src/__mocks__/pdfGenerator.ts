@@ -3,4 +3,5 @@
  */
 export const generateResumePDF = jest.fn().mockResolvedValue(undefined);
 
-export const generateResumePDFFromHTML = jest.fn().mockRejectedValue(new Error('HTML to PDF conversion not implemented yet'));
\ No newline at end of file
+export const generateResumePDFFromHTML = jest.fn().mockRejectedValue(new Error('HTML to PDF conversion not implemented yet'));
+export const generateCoverLetterPDF = jest.fn().mockResolvedValue(undefined);
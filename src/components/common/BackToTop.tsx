@@ -84,6 +84,7 @@ const BackToTop: React.FC = () => {
     <Zoom in={show}>
       <Box
         component={motion.button}
+        className="print-hidden"
         whileHover={{ scale: 1.05, y: -5 }}
         whileTap={{ scale: 0.95 }}
         onClick={handleClick}
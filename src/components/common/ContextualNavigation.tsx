@@ -319,6 +319,7 @@ const ContextualNavigation: React.FC<ContextualNavigationProps> = ({
     <AnimatePresence>
       {isVisible && (
         <motion.div
+          className="print-hidden"
           variants={containerVariants}
           initial="hidden"
           animate="visible"
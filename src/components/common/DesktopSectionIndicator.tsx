@@ -68,6 +68,7 @@ const DesktopSectionIndicator: React.FC<DesktopSectionIndicatorProps> = ({
     <AnimatePresence mode="wait">
       <motion.div
         key={currentSection}
+        className="print-hidden"
         initial={{ opacity: 0, scale: 0.8, y: 20 }}
         animate={{ opacity: 1, scale: 1, y: 0 }}
         exit={{ opacity: 0, scale: 0.8, y: -20 }}
@@ -14,6 +14,7 @@ const Footer: React.FC = () => {
   return (
     <Box
       component="footer"
+      className="print-hidden"
       role="contentinfo"
       sx={{
         background: `linear-gradient(180deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.black} 100%)`,
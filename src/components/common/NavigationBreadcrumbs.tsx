@@ -60,6 +60,7 @@ const NavigationBreadcrumbs: React.FC<NavigationBreadcrumbsProps> = ({
 
   return (
     <motion.div
+      className="print-hidden"
       variants={containerVariants}
       initial="hidden"
       animate="visible"
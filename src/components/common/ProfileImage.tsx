@@ -181,6 +181,15 @@ const ProfileImage: React.FC<ProfileImageProps> = ({
           height: '108%',
           transform: 'scale(1.08)',
         },
+
+        // Print a plain photo without rings, glow or animation
+        '@media print': {
+          '&::before, &::after': { display: 'none' },
+          boxShadow: 'none',
+          filter: 'none',
+          background: 'none',
+          transition: 'none',
+        },
       }}
     >
       {/* Fallback icon - only shown if image fails to load */}
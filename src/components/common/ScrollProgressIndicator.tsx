@@ -170,6 +170,7 @@ const ScrollProgressIndicator: React.FC<ScrollProgressIndicatorProps> = ({
     <AnimatePresence>
       {scrollProgress.isVisible && (
         <motion.div
+          className="print-hidden"
           variants={progressVariants}
           initial="hidden"
           animate="visible"
@@ -0,0 +1,386 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Collapse,
+  FormControlLabel,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  ContentCopy as ContentCopyIcon,
+  Download as DownloadIcon,
+  EditNote as EditNoteIcon,
+  TextSnippet as TextSnippetIcon,
+} from '@mui/icons-material';
+import { colorPalette } from '../../styles/theme';
+import { CoverLetterDraft, ResumeData } from '../../types';
+import { ariaLiveRegionManager } from '../../utils/accessibility';
+import {
+  buildCoverLetter,
+  clearCoverLetterDraft,
+  EMPTY_COVER_LETTER_DRAFT,
+  getCoverLetterFileName,
+  getCoverLetterHighlights,
+  loadCoverLetterDraft,
+  renderCoverLetterText,
+  saveCoverLetterDraft,
+} from '../../utils/coverLetter';
+import { copyToClipboard, downloadFile } from '../../utils/download';
+import { generateCoverLetterPDF } from '../../utils/pdfGenerator';
+import { PDFPaperSize } from '../../utils/pdfPaper';
+
+interface CoverLetterPanelProps {
+  resume: ResumeData;
+  locale: string;
+  // Day the letter is dated
+  date: Date;
+  // PDF template and paper chosen for the resume download
+  template: string;
+  paper: PDFPaperSize;
+}
+
+const fieldSx = {
+  '& .MuiInputBase-root': {
+    color: colorPalette.neutral.white,
+    backgroundColor: `${colorPalette.primary.black}40`,
+  },
+  '& .MuiInputLabel-root': {
+    color: colorPalette.neutral.lightGray,
+  },
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: `${colorPalette.accent.lightOrange}60`,
+  },
+};
+
+const actionSx = {
+  borderRadius: 0,
+  color: colorPalette.accent.lightOrange,
+  borderColor: colorPalette.accent.lightOrange,
+  '&:hover': {
+    borderColor: colorPalette.accent.neonGreen,
+    color: colorPalette.accent.neonGreen,
+  },
+};
+
+/**
+ * "Write a cover letter" tool: fill in the company, role and hiring manager,
+ * tick the responsibilities worth quoting, and download the letter as a PDF
+ * or text. The draft is kept in this browser between visits.
+ */
+const CoverLetterPanel: React.FC<CoverLetterPanelProps> = ({
+  resume,
+  locale,
+  date,
+  template,
+  paper,
+}) => {
+  const [open, setOpen] = useState(false);
+  // Starts empty, as prerendered; the saved draft is restored after mount
+  // and only then kept up to date, so the empty one never replaces it
+  const [draft, setDraft] = useState<CoverLetterDraft>(EMPTY_COVER_LETTER_DRAFT);
+  const [isRestored, setIsRestored] = useState(false);
+
+  useEffect(() => {
+    setDraft(loadCoverLetterDraft());
+    setIsRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (isRestored) {
+      saveCoverLetterDraft(draft);
+    }
+  }, [draft, isRestored]);
+
+  const highlights = useMemo(() => getCoverLetterHighlights(resume), [resume]);
+  const letter = useMemo(
+    () => buildCoverLetter(resume, draft, { locale, date }),
+    [resume, draft, locale, date]
+  );
+  const letterText = renderCoverLetterText(letter);
+  const isComplete = letter.company !== '' && letter.role !== '';
+
+  const updateField =
+    (field: 'company' | 'role' | 'hiringManager') =>
+    (event: React.ChangeEvent<HTMLInputElement>) =>
+      setDraft((prev) => ({ ...prev, [field]: event.target.value }));
+
+  const toggleHighlight = (id: string) =>
+    setDraft((prev) => ({
+      ...prev,
+      highlightIds: prev.highlightIds.includes(id)
+        ? prev.highlightIds.filter((selected) => selected !== id)
+        : [...prev.highlightIds, id],
+    }));
+
+  const handlePDFDownload = async () => {
+    try {
+      await generateCoverLetterPDF(letter, { template, paper });
+    } catch (error) {
+      console.error('Failed to generate cover letter PDF:', error);
+      ariaLiveRegionManager.announceStatus(
+        'Could not create the PDF. Try downloading the text instead.',
+        true
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(letterText);
+      ariaLiveRegionManager.announceStatus('Cover letter copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy cover letter:', error);
+      ariaLiveRegionManager.announceStatus(
+        'Could not copy the cover letter. Try downloading it instead.',
+        true
+      );
+    }
+  };
+
+  const handleClear = () => {
+    clearCoverLetterDraft();
+    setDraft(EMPTY_COVER_LETTER_DRAFT);
+    ariaLiveRegionManager.announceStatus('Cleared cover letter draft');
+  };
+
+  // Responsibilities grouped under the role they belong to
+  const roles = resume.experience.map((exp) => ({
+    exp,
+    items: highlights.filter((highlight) => highlight.experienceId === exp.id),
+  }));
+
+  return (
+    <Card
+      className="print-hidden"
+      sx={{
+        mb: 3,
+        mx: { xs: 2, sm: 0 },
+        background: `linear-gradient(135deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.mediumGray} 100%)`,
+        border: `1px solid ${colorPalette.accent.lightOrange}40`,
+        borderRadius: 2,
+        boxShadow: `0 8px 25px ${colorPalette.primary.black}50`,
+      }}
+    >
+      <CardContent sx={{ p: 3, '&:last-child': { pb: 3 } }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 2,
+          }}
+        >
+          <Box>
+            <Typography
+              variant="h6"
+              component="h3"
+              id="cover-letter-heading"
+              sx={{ color: colorPalette.neutral.white, fontWeight: 600 }}
+            >
+              Write a cover letter
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{ color: colorPalette.neutral.lightGray }}
+            >
+              Draft a letter from this resume for a specific role. Your draft is
+              saved in this browser only.
+            </Typography>
+          </Box>
+          <Button
+            variant="outlined"
+            startIcon={<EditNoteIcon />}
+            onClick={() => setOpen((prev) => !prev)}
+            aria-expanded={open}
+            aria-controls="cover-letter-form"
+            sx={{
+              ...actionSx,
+              flexShrink: 0,
+              '&:focus-visible': {
+                outline: `3px solid ${colorPalette.accent.neonGreen}`,
+                outlineOffset: '2px',
+              },
+            }}
+          >
+            {open ? 'Hide' : 'Cover letter'}
+          </Button>
+        </Box>
+
+        <Collapse in={open} timeout={300} unmountOnExit>
+          <Box
+            component="form"
+            id="cover-letter-form"
+            aria-labelledby="cover-letter-heading"
+            onSubmit={(event: React.FormEvent) => event.preventDefault()}
+            sx={{ mt: 2 }}
+          >
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+                gap: 2,
+              }}
+            >
+              <TextField
+                label="Company"
+                required
+                value={draft.company}
+                onChange={updateField('company')}
+                sx={fieldSx}
+              />
+              <TextField
+                label="Role"
+                required
+                value={draft.role}
+                onChange={updateField('role')}
+                sx={fieldSx}
+              />
+              <TextField
+                label="Hiring manager"
+                helperText="Optional"
+                value={draft.hiringManager}
+                onChange={updateField('hiringManager')}
+                sx={fieldSx}
+                FormHelperTextProps={{
+                  sx: { color: colorPalette.neutral.lightGray },
+                }}
+              />
+            </Box>
+
+            <Box
+              component="fieldset"
+              sx={{
+                mt: 2,
+                p: 2,
+                border: `1px solid ${colorPalette.accent.lightOrange}40`,
+                maxHeight: 320,
+                overflowY: 'auto',
+              }}
+            >
+              <Typography
+                component="legend"
+                variant="subtitle2"
+                sx={{ px: 1, color: colorPalette.accent.lightOrange }}
+              >
+                Highlights ({draft.highlightIds.length} selected)
+              </Typography>
+              {roles.map(({ exp, items }) => (
+                <Box key={exp.id} sx={{ mb: 1 }}>
+                  <Typography
+                    variant="body2"
+                    component="h4"
+                    sx={{ color: colorPalette.neutral.white, fontWeight: 600 }}
+                  >
+                    {exp.position}, {exp.company}
+                  </Typography>
+                  {items.map((highlight) => (
+                    <FormControlLabel
+                      key={highlight.id}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={draft.highlightIds.includes(highlight.id)}
+                          onChange={() => toggleHighlight(highlight.id)}
+                          sx={{
+                            color: colorPalette.neutral.lightGray,
+                            '&.Mui-checked': {
+                              color: colorPalette.accent.lightOrange,
+                            },
+                          }}
+                        />
+                      }
+                      label={highlight.text}
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'flex-start',
+                        '& .MuiFormControlLabel-label': {
+                          pt: 1,
+                          fontSize: '0.875rem',
+                          color: colorPalette.neutral.lightGray,
+                        },
+                      }}
+                    />
+                  ))}
+                </Box>
+              ))}
+            </Box>
+
+            <Box
+              component="pre"
+              aria-label="Cover letter preview"
+              tabIndex={0}
+              sx={{
+                mt: 2,
+                p: 2,
+                maxHeight: 360,
+                overflowY: 'auto',
+                whiteSpace: 'pre-wrap',
+                fontFamily: 'inherit',
+                fontSize: '0.875rem',
+                color: colorPalette.neutral.white,
+                backgroundColor: `${colorPalette.primary.black}40`,
+              }}
+            >
+              {letterText}
+            </Box>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+              <Button
+                variant="contained"
+                startIcon={<DownloadIcon />}
+                disabled={!isComplete}
+                onClick={handlePDFDownload}
+                sx={{
+                  borderRadius: 0,
+                  color: colorPalette.primary.black,
+                  backgroundColor: colorPalette.accent.lightOrange,
+                  '&:hover': {
+                    backgroundColor: colorPalette.accent.neonGreen,
+                  },
+                }}
+              >
+                Download PDF
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<TextSnippetIcon />}
+                disabled={!isComplete}
+                onClick={() =>
+                  downloadFile(
+                    letterText,
+                    getCoverLetterFileName(letter, 'txt'),
+                    'text/plain;charset=utf-8'
+                  )
+                }
+                sx={actionSx}
+              >
+                Download text
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<ContentCopyIcon />}
+                disabled={!isComplete}
+                onClick={handleCopy}
+                sx={actionSx}
+              >
+                Copy text
+              </Button>
+              <Button
+                onClick={handleClear}
+                sx={{ color: colorPalette.neutral.lightGray }}
+              >
+                Clear draft
+              </Button>
+            </Box>
+          </Box>
+        </Collapse>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CoverLetterPanel;
@@ -109,12 +109,21 @@ const Hero: React.FC = () => {
         // Ensure the section starts at the very top
         marginTop: 0,
         paddingTop: 0,
+        // Printed as the resume header: no full-screen layout
+        '@media print': {
+          minHeight: 'auto',
+          width: 'auto',
+          marginLeft: 0,
+          overflow: 'visible',
+          contain: 'none',
+        },
       }}
     >
       {/* Retro-Futuristic Neon Grid Tunnel Background */}
 
       {/* Deep Space Gradient Base */}
       <Box
+        className="print-hidden"
         sx={{
           position: 'absolute',
           inset: 0,
@@ -128,6 +137,7 @@ const Hero: React.FC = () => {
 
       {/* Animated Neon Grid Tunnel - Main Layer */}
       <Box
+        className="print-hidden"
         sx={{
           position: 'absolute',
           left: '-100vw',
@@ -268,6 +278,7 @@ const Hero: React.FC = () => {
 
       {/* Retro Scan Lines */}
       <Box
+        className="print-hidden"
         sx={{
           position: 'absolute',
           inset: 0,
@@ -293,6 +304,7 @@ const Hero: React.FC = () => {
 
       {/* Retro Starfield Enhancement */}
       <Box
+        className="print-hidden"
         sx={{
           position: 'absolute',
           inset: 0,
@@ -342,6 +354,7 @@ const Hero: React.FC = () => {
 
       {/* Neon Glow Overlay */}
       <Box
+        className="print-hidden"
         sx={{
           position: 'absolute',
           inset: 0,
@@ -451,6 +464,10 @@ const Hero: React.FC = () => {
                   '50%': { transform: 'scale3d(1.05, 1.05, 1)', opacity: 0.5 },
                   '100%': { transform: 'scale3d(1, 1, 1)', opacity: 1 },
                 },
+                '@media print': {
+                  transform: 'none',
+                  '&::before, &::after': { display: 'none' },
+                },
               }}
             >
               <EntranceAnimation preset="scaleIn" delay={0.2}>
@@ -615,6 +632,7 @@ const Hero: React.FC = () => {
 
             {/* Retro-styled buttons */}
             <Stack
+              className="print-hidden"
               direction={{ xs: 'column', sm: 'row' }}
               spacing={{ xs: 2, sm: 3 }}
               sx={{
@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  LinearProgress,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { ManageSearch as ManageSearchIcon } from '@mui/icons-material';
+import { colorPalette } from '../../styles/theme';
+import { ResumeData } from '../../types';
+import { ariaLiveRegionManager } from '../../utils/accessibility';
+import { analyzeJobMatch, JobKeyword, JobMatch } from '../../utils/jobMatch';
+
+interface JobMatchPanelProps {
+  resume: Pick<ResumeData, 'experience' | 'skills'>;
+  match: JobMatch | null;
+  onMatchChange: (match: JobMatch | null) => void;
+}
+
+/**
+ * "Match a job" tool: paste a job description to see how much of it the
+ * resume covers. The analysis runs in the browser; the description is never
+ * sent anywhere.
+ */
+const JobMatchPanel: React.FC<JobMatchPanelProps> = ({
+  resume,
+  match,
+  onMatchChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [description, setDescription] = useState('');
+
+  const handleAnalyze = () => {
+    const result = analyzeJobMatch(description, resume);
+    onMatchChange(result);
+    ariaLiveRegionManager.announceStatus(
+      result.keywords.length > 0
+        ? `Resume covers ${result.matched.length} of ${result.keywords.length} keywords (${result.score}%). Matches are highlighted below.`
+        : 'No keywords found in the job description.'
+    );
+  };
+
+  const handleClear = () => {
+    setDescription('');
+    onMatchChange(null);
+    ariaLiveRegionManager.announceStatus('Cleared job match');
+  };
+
+  const renderKeywords = (
+    title: string,
+    keywords: JobKeyword[],
+    color: string
+  ) => (
+    <Box sx={{ mt: 2 }}>
+      <Typography
+        variant="subtitle2"
+        component="h4"
+        sx={{ color, fontWeight: 600, mb: 1 }}
+      >
+        {title} ({keywords.length})
+      </Typography>
+      <Box
+        component="ul"
+        aria-label={title}
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          gap: 1,
+          m: 0,
+          p: 0,
+          listStyle: 'none',
+        }}
+      >
+        {keywords.map((keyword) => (
+          <li key={keyword.term}>
+            <Chip
+              label={
+                keyword.count > 1
+                  ? `${keyword.term} ×${keyword.count}`
+                  : keyword.term
+              }
+              size="small"
+              sx={{
+                backgroundColor: `${color}20`,
+                color,
+                border: `1px solid ${color}50`,
+                fontWeight: 500,
+              }}
+            />
+          </li>
+        ))}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Card
+      className="print-hidden"
+      sx={{
+        mb: 3,
+        mx: { xs: 2, sm: 0 },
+        background: `linear-gradient(135deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.mediumGray} 100%)`,
+        border: `1px solid ${colorPalette.accent.vibrantPurple}40`,
+        borderRadius: 2,
+        boxShadow: `0 8px 25px ${colorPalette.primary.black}50`,
+      }}
+    >
+      <CardContent sx={{ p: 3, '&:last-child': { pb: 3 } }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 2,
+          }}
+        >
+          <Box>
+            <Typography
+              variant="h6"
+              component="h3"
+              id="job-match-heading"
+              sx={{ color: colorPalette.neutral.white, fontWeight: 600 }}
+            >
+              Match a job
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{ color: colorPalette.neutral.lightGray }}
+            >
+              Paste a job description to see which of its keywords this resume
+              covers. Nothing leaves your browser.
+            </Typography>
+          </Box>
+          <Button
+            variant="outlined"
+            startIcon={<ManageSearchIcon />}
+            onClick={() => setOpen((prev) => !prev)}
+            aria-expanded={open}
+            aria-controls="job-match-form"
+            sx={{
+              flexShrink: 0,
+              color: colorPalette.accent.vibrantPurple,
+              borderColor: colorPalette.accent.vibrantPurple,
+              borderRadius: 0,
+              '&:hover': {
+                borderColor: colorPalette.accent.neonGreen,
+                color: colorPalette.accent.neonGreen,
+              },
+              '&:focus-visible': {
+                outline: `3px solid ${colorPalette.accent.neonGreen}`,
+                outlineOffset: '2px',
+              },
+            }}
+          >
+            {open ? 'Hide' : 'Match a job'}
+          </Button>
+        </Box>
+
+        <Collapse in={open} timeout={300}>
+          <Box
+            component="form"
+            id="job-match-form"
+            aria-labelledby="job-match-heading"
+            onSubmit={(event: React.FormEvent) => {
+              event.preventDefault();
+              handleAnalyze();
+            }}
+            sx={{ mt: 2 }}
+          >
+            <TextField
+              label="Job description"
+              multiline
+              minRows={4}
+              maxRows={12}
+              fullWidth
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              sx={{
+                '& .MuiInputBase-root': {
+                  color: colorPalette.neutral.white,
+                  backgroundColor: `${colorPalette.primary.black}40`,
+                },
+                '& .MuiInputLabel-root': {
+                  color: colorPalette.neutral.lightGray,
+                },
+                '& .MuiOutlinedInput-notchedOutline': {
+                  borderColor: `${colorPalette.accent.vibrantPurple}60`,
+                },
+              }}
+            />
+            <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={description.trim() === ''}
+                sx={{
+                  borderRadius: 0,
+                  color: colorPalette.primary.black,
+                  backgroundColor: colorPalette.accent.vibrantPurple,
+                  '&:hover': {
+                    backgroundColor: colorPalette.accent.neonGreen,
+                  },
+                }}
+              >
+                Analyze
+              </Button>
+              {(match || description) && (
+                <Button
+                  onClick={handleClear}
+                  sx={{ color: colorPalette.neutral.lightGray }}
+                >
+                  Clear
+                </Button>
+              )}
+            </Box>
+          </Box>
+
+          {match && (
+            <Box sx={{ mt: 3 }} data-testid="job-match-results">
+              <Typography
+                variant="body1"
+                id="job-match-score"
+                sx={{ color: colorPalette.neutral.white, fontWeight: 600 }}
+              >
+                Keyword coverage: {match.score}%
+                <Box
+                  component="span"
+                  sx={{
+                    ml: 1,
+                    fontWeight: 400,
+                    color: colorPalette.neutral.lightGray,
+                  }}
+                >
+                  ({match.matched.length} of {match.keywords.length} keywords)
+                </Box>
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={match.score}
+                aria-labelledby="job-match-score"
+                sx={{
+                  mt: 1,
+                  height: 8,
+                  backgroundColor: `${colorPalette.neutral.white}20`,
+                  '& .MuiLinearProgress-bar': {
+                    backgroundColor: colorPalette.accent.neonGreen,
+                  },
+                }}
+              />
+              {match.matched.length > 0 &&
+                renderKeywords(
+                  'Matched keywords',
+                  match.matched,
+                  colorPalette.accent.neonGreen
+                )}
+              {match.missing.length > 0 &&
+                renderKeywords(
+                  'Missing keywords',
+                  match.missing,
+                  colorPalette.accent.hotPink
+                )}
+            </Box>
+          )}
+        </Collapse>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JobMatchPanel;
@@ -0,0 +1,384 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Container,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Button,
+  Collapse,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { motion } from 'framer-motion';
+import {
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+  OpenInNew as OpenInNewIcon,
+} from '@mui/icons-material';
+import AnimatedSection from '../common/AnimatedSection';
+import { usePrintMode } from '../../hooks/usePrintMode';
+import { colorPalette } from '../../styles/theme';
+import { resumeData } from '../../data';
+import { Project } from '../../types';
+import { animationConfigs } from '../../utils/animationPresets';
+import { formatDateRange } from '../../utils/resumeDates';
+
+const ALL_TECHNOLOGIES = 'all';
+
+/**
+ * Projects section component showcasing portfolio work
+ * Cards can be filtered by technology and expanded to reveal project details
+ */
+const Projects: React.FC = () => {
+  const { projects } = resumeData;
+  const [activeTechnology, setActiveTechnology] =
+    useState<string>(ALL_TECHNOLOGIES);
+  const [expandedProjectId, setExpandedProjectId] = useState<string | null>(
+    null
+  );
+  // Printouts list every project with its details, like the PDF
+  const isPrinting = usePrintMode();
+
+  // Every technology used across projects, in first-seen order
+  const technologies = useMemo(
+    () => Array.from(new Set(projects.flatMap((p) => p.technologies))),
+    [projects]
+  );
+
+  const visibleProjects =
+    isPrinting || activeTechnology === ALL_TECHNOLOGIES
+      ? projects
+      : projects.filter((project) =>
+          project.technologies.includes(activeTechnology)
+        );
+
+  const toggleProjectDetails = (id: string) => {
+    setExpandedProjectId((current) => (current === id ? null : id));
+  };
+
+  const renderFilterChip = (value: string, label: string) => {
+    const isActive = activeTechnology === value;
+
+    return (
+      <Chip
+        key={value}
+        label={label}
+        clickable
+        onClick={() => setActiveTechnology(value)}
+        aria-pressed={isActive}
+        sx={{
+          backgroundColor: isActive
+            ? colorPalette.accent.neonGreen
+            : `${colorPalette.neutral.white}15`,
+          color: isActive
+            ? colorPalette.primary.black
+            : colorPalette.neutral.white,
+          border: `1px solid ${isActive ? colorPalette.accent.neonGreen : `${colorPalette.neutral.white}40`}`,
+          fontWeight: 600,
+          '&:hover': {
+            backgroundColor: isActive
+              ? colorPalette.accent.neonGreen
+              : `${colorPalette.accent.neonGreen}30`,
+          },
+          '&:focus-visible': {
+            outline: `3px solid ${colorPalette.accent.neonGreen}`,
+            outlineOffset: '2px',
+          },
+        }}
+      />
+    );
+  };
+
+  const renderProjectCard = (project: Project, index: number) => {
+    const isExpanded = isPrinting || expandedProjectId === project.id;
+    const titleId = `project-${project.id}-title`;
+    const detailsId = `project-${project.id}-details`;
+    const hasDates = Boolean(project.startDate || project.endDate);
+
+    return (
+      <Grid item xs={12} md={6} key={project.id}>
+        <Card
+          component={motion.div}
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: index * 0.2 }}
+          sx={{
+            height: '100%',
+            mx: { xs: 2, sm: 0 },
+            background: `linear-gradient(135deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.mediumGray} 100%)`,
+            border: `1px solid ${colorPalette.accent.vibrantPurple}30`,
+            borderRadius: 2,
+            boxShadow: `0 8px 25px ${colorPalette.primary.black}50`,
+            '&:hover': {
+              boxShadow: `0 12px 35px ${colorPalette.accent.vibrantPurple}20`,
+            },
+            transition: 'all 0.3s ease-in-out',
+          }}
+        >
+          <CardContent sx={{ p: 3, '&:last-child': { pb: 3 } }}>
+            <Typography
+              variant="h5"
+              component="h3"
+              id={titleId}
+              sx={{
+                color: colorPalette.neutral.white,
+                fontWeight: 600,
+                fontSize: { xs: '1.125rem', sm: '1.5rem' },
+                lineHeight: 1.3,
+                mb: 0.5,
+              }}
+            >
+              {project.title}
+            </Typography>
+            <Typography
+              variant="subtitle1"
+              component="p"
+              sx={{
+                color: colorPalette.accent.vibrantPurple,
+                fontWeight: 500,
+              }}
+            >
+              {project.role}
+            </Typography>
+            {hasDates && (
+              <Typography
+                variant="body2"
+                sx={{ color: colorPalette.neutral.lightGray, mt: 0.5 }}
+              >
+                {formatDateRange(
+                  project.startDate,
+                  project.endDate ?? 'present'
+                )}
+              </Typography>
+            )}
+
+            <Typography
+              variant="body1"
+              sx={{
+                color: colorPalette.neutral.lightGray,
+                mt: 2,
+                mb: 2,
+                lineHeight: 1.6,
+              }}
+            >
+              {project.summary}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {project.technologies.map((tech) => (
+                <Chip
+                  key={tech}
+                  label={tech}
+                  size="small"
+                  sx={{
+                    backgroundColor: `${colorPalette.neutral.white}20`,
+                    color: colorPalette.neutral.white,
+                    border: `1px solid ${colorPalette.neutral.white}50`,
+                    fontWeight: 500,
+                  }}
+                />
+              ))}
+            </Box>
+
+            <Button
+              className="print-hidden"
+              onClick={() => toggleProjectDetails(project.id)}
+              aria-expanded={isExpanded}
+              aria-controls={detailsId}
+              endIcon={isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+              sx={{
+                color: colorPalette.accent.vibrantPurple,
+                fontWeight: 600,
+                px: 0,
+                '&:focus-visible': {
+                  outline: `3px solid ${colorPalette.accent.vibrantPurple}`,
+                  outlineOffset: '2px',
+                },
+              }}
+            >
+              {isExpanded ? 'Hide details' : 'View details'}
+              <Box component="span" className="sr-only">
+                {` for ${project.title}`}
+              </Box>
+            </Button>
+
+            <Collapse in={isExpanded} timeout={300}>
+              <Box
+                id={detailsId}
+                role="region"
+                aria-labelledby={titleId}
+                sx={{ mt: 2 }}
+              >
+                {project.highlights.length > 0 && (
+                  <List sx={{ p: 0, mb: 2 }}>
+                    {project.highlights.map((highlight, idx) => (
+                      <ListItem key={idx} sx={{ py: 0.5, px: 0 }}>
+                        <ListItemText
+                          primary={highlight}
+                          sx={{
+                            m: 0,
+                            '& .MuiListItemText-primary': {
+                              color: colorPalette.neutral.lightGray,
+                              fontSize: '0.95rem',
+                              lineHeight: 1.5,
+                            },
+                          }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+
+                {project.images.length > 0 && (
+                  <Box
+                    sx={{
+                      display: 'grid',
+                      gridTemplateColumns: {
+                        xs: '1fr',
+                        sm: 'repeat(2, 1fr)',
+                      },
+                      gap: 2,
+                      mb: 2,
+                    }}
+                  >
+                    {project.images.map((image) => (
+                      <Box
+                        key={image.src}
+                        component="img"
+                        src={image.src}
+                        alt={image.alt}
+                        loading="lazy"
+                        sx={{
+                          width: '100%',
+                          borderRadius: 1,
+                          border: `1px solid ${colorPalette.neutral.white}20`,
+                        }}
+                      />
+                    ))}
+                  </Box>
+                )}
+
+                {project.links.length > 0 && (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                    {project.links.map((link) => (
+                      <Link
+                        key={link.url}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        aria-label={`${link.label} for ${project.title} (opens in a new tab)`}
+                        sx={{
+                          display: 'inline-flex',
+                          alignItems: 'center',
+                          gap: 0.5,
+                          color: colorPalette.accent.electricBlue,
+                          fontWeight: 600,
+                        }}
+                      >
+                        {link.label}
+                        <OpenInNewIcon fontSize="small" aria-hidden="true" />
+                      </Link>
+                    ))}
+                  </Box>
+                )}
+              </Box>
+            </Collapse>
+          </CardContent>
+        </Card>
+      </Grid>
+    );
+  };
+
+  return (
+    <Box
+      component="section"
+      id="projects"
+      aria-labelledby="projects-heading"
+      sx={{
+        py: 8,
+        background: `linear-gradient(180deg, ${colorPalette.primary.black} 0%, ${colorPalette.primary.darkGray} 50%, ${colorPalette.primary.black} 100%)`,
+        position: 'relative',
+        '&::before': {
+          content: '""',
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          background: `radial-gradient(circle at 30% 30%, ${colorPalette.accent.vibrantPurple}10 0%, transparent 50%),
+                       radial-gradient(circle at 70% 70%, ${colorPalette.accent.neonGreen}10 0%, transparent 50%)`,
+          pointerEvents: 'none',
+        },
+      }}
+    >
+      <Container
+        maxWidth="lg"
+        sx={{
+          position: 'relative',
+          zIndex: 1,
+          px: { xs: 0, sm: 2, md: 3 },
+        }}
+      >
+        <Typography
+          variant="h2"
+          component="h2"
+          id="projects-heading"
+          sx={{
+            color: colorPalette.neutral.white,
+            fontWeight: 700,
+            fontSize: { xs: '1.75rem', sm: '2.5rem', md: '3rem' },
+            fontFamily: '"Orbitron", "Roboto", sans-serif',
+            background: `linear-gradient(45deg, ${colorPalette.accent.vibrantPurple}, ${colorPalette.accent.electricBlue})`,
+            backgroundClip: 'text',
+            WebkitBackgroundClip: 'text',
+            WebkitTextFillColor: 'transparent',
+            textShadow: `0 0 30px ${colorPalette.accent.vibrantPurple}60`,
+            mb: 3,
+            px: { xs: 2, sm: 0 },
+          }}
+        >
+          Projects
+        </Typography>
+
+        <AnimatedSection animation={animationConfigs.scrollReveal}>
+          {technologies.length > 1 && (
+            <Box
+              className="print-hidden"
+              role="group"
+              aria-label="Filter projects by technology"
+              sx={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: 1,
+                mb: 4,
+                px: { xs: 2, sm: 0 },
+              }}
+            >
+              {renderFilterChip(ALL_TECHNOLOGIES, 'All')}
+              {technologies.map((tech) => renderFilterChip(tech, tech))}
+            </Box>
+          )}
+
+          <Typography role="status" className="sr-only">
+            {activeTechnology === ALL_TECHNOLOGIES
+              ? `Showing all ${projects.length} projects`
+              : `Showing ${visibleProjects.length} of ${projects.length} projects using ${activeTechnology}`}
+          </Typography>
+
+          <Grid container spacing={{ xs: 2, md: 4 }}>
+            {visibleProjects.map((project, index) =>
+              renderProjectCard(project, index)
+            )}
+          </Grid>
+        </AnimatedSection>
+      </Container>
+    </Box>
+  );
+};
+
+export default Projects;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
   Typography,
@@ -13,6 +13,12 @@ import {
   ListItemText,
   IconButton,
   Collapse,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  Link,
+  ToggleButton,
+  ToggleButtonGroup,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
@@ -23,13 +29,99 @@ import {
   School as SchoolIcon,
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
+  WorkspacePremium as WorkspacePremiumIcon,
+  MenuBook as MenuBookIcon,
+  EmojiEvents as EmojiEventsIcon,
+  OpenInNew as OpenInNewIcon,
+  Description as DescriptionIcon,
+  MoreVert as MoreVertIcon,
+  ContentCopy as ContentCopyIcon,
+  TextSnippet as TextSnippetIcon,
 } from '@mui/icons-material';
 import AnimatedSection from '../common/AnimatedSection';
+import { usePrintMode } from '../../hooks/usePrintMode';
+import { useHydrated } from '../../hooks/useHydrated';
+import { BUILD_DATE } from '../../config/build';
+import JobMatchPanel from './JobMatchPanel';
+import CoverLetterPanel from './CoverLetterPanel';
 import { colorPalette } from '../../styles/theme';
 import { resumeData } from '../../data';
 import { Experience, Education, Skill } from '../../types';
 import { animationConfigs } from '../../utils/animationPresets';
 import { generateResumePDF } from '../../utils/pdfGenerator';
+import { findPDFTemplate, PDF_TEMPLATES } from '../../utils/pdfTemplates';
+import {
+  getDefaultPaperSize,
+  PDF_PAPER_SIZES,
+  PDFPaperSize,
+} from '../../utils/pdfPaper';
+import { generateResumeDocx } from '../../utils/resumeDocx';
+import {
+  createResumeDocument,
+  getResumeFileName,
+} from '../../utils/resumeDocument';
+import { renderResumeText } from '../../utils/resumeText';
+import { renderResumeMarkdown } from '../../utils/resumeMarkdown';
+import { copyToClipboard, downloadFile } from '../../utils/download';
+import {
+  DEFAULT_RESUME_LOCALE,
+  formatCredentialDate,
+  formatDateRange,
+  formatResumeDate,
+  formatTenure,
+  getTenure,
+  getTotalYearsOfExperience,
+  getVisitorLocale,
+} from '../../utils/resumeDates';
+import {
+  formatSkillUsage,
+  getSkillAnalytics,
+  matchTechnologyToSkill,
+} from '../../utils/skillAnalytics';
+import { ariaLiveRegionManager } from '../../utils/accessibility';
+import { JobMatch, splitByKeywords } from '../../utils/jobMatch';
+import {
+  applyResumeVariant,
+  getRequestedVariant,
+  getResponsibilityText,
+} from '../../utils/resumeVariants';
+
+interface AchievementEntry {
+  id: string;
+  title: string;
+  subtitle: string;
+  date: string;
+  summary?: string;
+  link?: { label: string; url: string };
+}
+
+interface AchievementSection {
+  id: 'certifications' | 'publications' | 'awards';
+  title: string;
+  icon: typeof SchoolIcon;
+  color: string;
+  entries: AchievementEntry[];
+}
+
+// ATS-friendly exports offered from the "more formats" menu
+const TEXT_EXPORTS = [
+  {
+    id: 'text',
+    label: 'plain text',
+    extension: 'txt',
+    type: 'text/plain;charset=utf-8',
+    render: renderResumeText,
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    type: 'text/markdown;charset=utf-8',
+    render: renderResumeMarkdown,
+  },
+] as const;
+
+type TextExport = (typeof TEXT_EXPORTS)[number];
 
 /**
  * Resume section component displaying professional experience, education, and skills
@@ -37,16 +129,50 @@ import { generateResumePDF } from '../../utils/pdfGenerator';
  * Mobile-optimized with collapsible cards for better readability
  */
 const Resume: React.FC = () => {
-  const { experience, education, skills } = resumeData;
+  // The prerendered page shows the full resume in the default locale as of
+  // the build; the visitor's variant, locale and clock apply once hydrated
+  const isHydrated = useHydrated();
+  // ?variant=<id> (or a variant's share page, /<id>/) tailors the section;
+  // without it the full resume is shown
+  const variantId = isHydrated
+    ? (getRequestedVariant(resumeData)?.id ?? null)
+    : null;
+  const now = useMemo(() => (isHydrated ? new Date() : BUILD_DATE), [isHydrated]);
+  const tailoredResume = useMemo(
+    () => applyResumeVariant(resumeData, variantId),
+    [variantId]
+  );
+  const { experience, education, skills } = tailoredResume;
+  const totalYearsOfExperience = getTotalYearsOfExperience(experience, now);
+  // Years used and most recent use per skill, derived from experience
+  const skillUsage = getSkillAnalytics(resumeData, now).usage;
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [expandedCards, setExpandedCards] = useState<Record<string, boolean>>(
     {}
   );
+  // Printouts follow the PDF: every card expanded, nothing dimmed
+  const isPrinting = usePrintMode();
+
+  // Layout used for the downloaded PDF
+  const [pdfTemplate, setPDFTemplate] = useState(findPDFTemplate().id);
+  // The PDF is formatted for the visitor's locale, on the paper used there
+  const locale = isHydrated ? getVisitorLocale() : DEFAULT_RESUME_LOCALE;
+  const [paperSize, setPaperSize] = useState<PDFPaperSize>(() =>
+    getDefaultPaperSize(DEFAULT_RESUME_LOCALE)
+  );
+  useEffect(() => {
+    setPaperSize(getDefaultPaperSize(locale));
+  }, [locale]);
 
   const handlePDFDownload = async () => {
     try {
-      await generateResumePDF();
+      await generateResumePDF({
+        variant: variantId,
+        template: pdfTemplate,
+        paper: paperSize,
+        locale,
+      });
     } catch (error) {
       console.error('Failed to generate PDF:', error);
 
@@ -68,6 +194,52 @@ const Resume: React.FC = () => {
     }
   };
 
+  const handleDocxDownload = async () => {
+    try {
+      await generateResumeDocx({ variant: variantId });
+    } catch (error) {
+      console.error('Failed to generate DOCX:', error);
+      alert(
+        'Sorry, there was an error generating the Word document. Please try the PDF or contact me directly.'
+      );
+    }
+  };
+
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(
+    null
+  );
+
+  const handleTextExport = async (
+    format: TextExport,
+    action: 'download' | 'copy'
+  ) => {
+    setExportMenuAnchor(null);
+    const resume = createResumeDocument({ variant: variantId });
+    const content = format.render(resume);
+
+    if (action === 'download') {
+      downloadFile(
+        content,
+        getResumeFileName(resume, format.extension),
+        format.type
+      );
+      return;
+    }
+
+    try {
+      await copyToClipboard(content);
+      ariaLiveRegionManager.announceStatus(
+        `Resume copied to clipboard as ${format.label}`
+      );
+    } catch (error) {
+      console.error('Failed to copy resume:', error);
+      ariaLiveRegionManager.announceStatus(
+        'Could not copy the resume. Try downloading it instead.',
+        true
+      );
+    }
+  };
+
   const toggleCardExpansion = (id: string) => {
     setExpandedCards((prev) => ({
       ...prev,
@@ -75,6 +247,97 @@ const Resume: React.FC = () => {
     }));
   };
 
+  // Result of the "Match a job" tool; matched roles, skills, technologies
+  // and responsibility wording are highlighted
+  const [jobMatch, setJobMatch] = useState<JobMatch | null>(null);
+
+  // Skill chosen in the skills grid; experience cards that used it are
+  // highlighted and expanded, the rest are dimmed. It takes precedence over
+  // the job match while selected.
+  const [activeSkill, setActiveSkill] = useState<Skill | null>(null);
+  const highlightedExperienceIds = activeSkill
+    ? (skillUsage[activeSkill.id]?.experienceIds ?? [])
+    : (jobMatch?.experienceIds ?? []);
+
+  const activateSkill = (skill: Skill) => {
+    if (activeSkill?.id === skill.id) return;
+
+    setActiveSkill(skill);
+    const count = (skillUsage[skill.id]?.experienceIds ?? []).filter((id) =>
+      experience.some((exp) => exp.id === id)
+    ).length;
+    ariaLiveRegionManager.announceStatus(
+      count > 0
+        ? `Highlighting ${count} ${count === 1 ? 'role' : 'roles'} using ${skill.name}. Press Escape to clear.`
+        : `No roles list ${skill.name}. Press Escape to clear.`
+    );
+  };
+
+  // Escape clears the highlight from the skills or experience lists (or with
+  // nothing focused); menus and form fields keep Escape to themselves
+  const experienceAreaRef = useRef<HTMLDivElement>(null);
+  const skillsAreaRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!activeSkill) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' || event.defaultPrevented) return;
+
+      const { target } = event;
+      const fromHighlightArea =
+        !(target instanceof Element) ||
+        target === document.body ||
+        [experienceAreaRef, skillsAreaRef].some((area) =>
+          area.current?.contains(target)
+        );
+      if (fromHighlightArea) {
+        setActiveSkill(null);
+        ariaLiveRegionManager.announceStatus('Cleared skill highlight');
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [activeSkill]);
+
+  const isActiveTechnology = (tech: string) =>
+    activeSkill !== null &&
+    matchTechnologyToSkill(tech, resumeData.skills)?.id === activeSkill.id;
+
+  const isJobMatchTechnology = (tech: string) =>
+    activeSkill === null && (jobMatch?.technologies.includes(tech) ?? false);
+
+  const getTechnologyChipHighlight = (tech: string) =>
+    isActiveTechnology(tech) || isJobMatchTechnology(tech)
+      ? {
+          backgroundColor: `${colorPalette.accent.neonGreen}30`,
+          color: colorPalette.accent.neonGreen,
+          border: `1px solid ${colorPalette.accent.neonGreen}`,
+        }
+      : {};
+
+  const renderResponsibility = (text: string) =>
+    jobMatch && activeSkill === null
+      ? splitByKeywords(text, jobMatch.keywords).map((segment, idx) =>
+          segment.matched ? (
+            <Box
+              component="mark"
+              key={idx}
+              sx={{
+                backgroundColor: `${colorPalette.accent.neonGreen}30`,
+                color: colorPalette.neutral.white,
+                px: 0.25,
+              }}
+            >
+              {segment.text}
+            </Box>
+          ) : (
+            <React.Fragment key={idx}>{segment.text}</React.Fragment>
+          )
+        )
+      : text;
+
   const getCategoryColor = (category: Skill['category']) => {
     switch (category) {
       case 'frontend':
@@ -93,14 +356,23 @@ const Resume: React.FC = () => {
   };
 
   const renderExperienceCard = (exp: Experience, index: number) => {
-    const isExpanded = expandedCards[exp.id] ?? false;
+    const isHighlighted = highlightedExperienceIds.includes(exp.id);
+    const isDimmed = !isPrinting && activeSkill !== null && !isHighlighted;
+    const isExpanded =
+      isPrinting || (expandedCards[exp.id] ?? false) || isHighlighted;
+    const dateRange = formatDateRange(exp.startDate, exp.endDate);
+    const tenure = formatTenure(getTenure(exp.startDate, exp.endDate, now));
 
     return (
       <Card
+        key={exp.id}
         component={motion.div}
         initial={{ opacity: 0, y: 50 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.6, delay: index * 0.2 }}
+        data-highlight={
+          isHighlighted ? 'match' : isDimmed ? 'dimmed' : undefined
+        }
         onClick={isMobile ? () => toggleCardExpansion(exp.id) : undefined}
         role={isMobile ? 'button' : undefined}
         tabIndex={isMobile ? 0 : undefined}
@@ -124,9 +396,14 @@ const Resume: React.FC = () => {
           mb: 3,
           mx: isMobile ? 2 : 0, // Add horizontal margin on mobile
           background: `linear-gradient(135deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.mediumGray} 100%)`,
-          border: `1px solid ${colorPalette.accent.electricBlue}30`,
+          border: isHighlighted
+            ? `1px solid ${colorPalette.accent.neonGreen}`
+            : `1px solid ${colorPalette.accent.electricBlue}30`,
           borderRadius: 2,
-          boxShadow: `0 8px 25px ${colorPalette.primary.black}50`,
+          boxShadow: isHighlighted
+            ? `0 0 25px ${colorPalette.accent.neonGreen}40`
+            : `0 8px 25px ${colorPalette.primary.black}50`,
+          opacity: isDimmed ? 0.45 : 1,
           cursor: isMobile ? 'pointer' : 'default',
           '&:hover': {
             boxShadow: `0 12px 35px ${colorPalette.accent.electricBlue}20`,
@@ -194,17 +471,28 @@ const Resume: React.FC = () => {
                 {exp.company}
               </Typography>
               {isMobile && (
-                <Typography
-                  variant="body2"
-                  sx={{
-                    color: colorPalette.neutral.lightGray,
-                    fontWeight: 400,
-                    fontSize: '0.8125rem',
-                    mt: 0.5,
-                  }}
-                >
-                  {exp.startDate} - {exp.endDate}
-                </Typography>
+                <>
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      color: colorPalette.neutral.lightGray,
+                      fontWeight: 400,
+                      fontSize: '0.8125rem',
+                      mt: 0.5,
+                    }}
+                  >
+                    {dateRange}
+                  </Typography>
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      color: colorPalette.neutral.lightGray,
+                      fontSize: '0.75rem',
+                    }}
+                  >
+                    {tenure}
+                  </Typography>
+                </>
               )}
             </Box>
 
@@ -230,13 +518,25 @@ const Resume: React.FC = () => {
                     whiteSpace: 'nowrap',
                   }}
                 >
-                  {exp.startDate} - {exp.endDate}
+                  {dateRange}
+                </Typography>
+                <Typography
+                  variant="caption"
+                  component="p"
+                  sx={{
+                    color: colorPalette.neutral.lightGray,
+                    fontSize: '0.8125rem',
+                    textAlign: 'right',
+                  }}
+                >
+                  {tenure}
                 </Typography>
               </Box>
             )}
 
             {isMobile && (
               <IconButton
+                className="print-hidden"
                 aria-label={isExpanded ? 'Collapse details' : 'Expand details'}
                 aria-expanded={isExpanded}
                 sx={{
@@ -287,7 +587,9 @@ const Resume: React.FC = () => {
                         ●
                       </Box>
                       <ListItemText
-                        primary={responsibility}
+                        primary={renderResponsibility(
+                          getResponsibilityText(responsibility)
+                        )}
                         sx={{
                           m: 0,
                           '& .MuiListItemText-primary': {
@@ -314,6 +616,7 @@ const Resume: React.FC = () => {
                         fontWeight: 500,
                         fontSize: '0.75rem',
                         height: '24px',
+                        ...getTechnologyChipHighlight(tech),
                       }}
                     />
                   ))}
@@ -327,7 +630,9 @@ const Resume: React.FC = () => {
                 {exp.responsibilities.map((responsibility, idx) => (
                   <ListItem key={idx} sx={{ py: 0.5, px: 0 }}>
                     <ListItemText
-                      primary={responsibility}
+                      primary={renderResponsibility(
+                        getResponsibilityText(responsibility)
+                      )}
                       sx={{
                         '& .MuiListItemText-primary': {
                           color: colorPalette.neutral.lightGray,
@@ -351,6 +656,7 @@ const Resume: React.FC = () => {
                       color: colorPalette.neutral.white,
                       border: `1px solid ${colorPalette.neutral.white}50`,
                       fontWeight: 500,
+                      ...getTechnologyChipHighlight(tech),
                     }}
                   />
                 ))}
@@ -446,7 +752,7 @@ const Resume: React.FC = () => {
                       mt: 0.5,
                     }}
                   >
-                    {edu.graduationDate}
+                    {formatDateRange(edu.startDate, edu.graduationDate)}
                   </Typography>
                 )}
               </Box>
@@ -473,7 +779,7 @@ const Resume: React.FC = () => {
                       whiteSpace: 'nowrap',
                     }}
                   >
-                    {edu.graduationDate}
+                    {formatDateRange(edu.startDate, edu.graduationDate)}
                   </Typography>
                 </Box>
               )}
@@ -484,6 +790,169 @@ const Resume: React.FC = () => {
     );
   };
 
+  // Optional collections; a section is only rendered when it has entries
+  const achievementSections: AchievementSection[] = [
+    {
+      id: 'certifications' as const,
+      title: 'Certifications',
+      icon: WorkspacePremiumIcon,
+      color: colorPalette.accent.neonGreen,
+      entries: (resumeData.certifications ?? []).map((cert) => ({
+        id: cert.id,
+        title: cert.name,
+        subtitle: cert.issuer,
+        date: formatCredentialDate(cert.date, cert.expiryDate),
+        link: cert.credentialUrl
+          ? { label: 'View credential', url: cert.credentialUrl }
+          : undefined,
+      })),
+    },
+    {
+      id: 'publications' as const,
+      title: 'Publications',
+      icon: MenuBookIcon,
+      color: colorPalette.accent.electricBlue,
+      entries: (resumeData.publications ?? []).map((publication) => ({
+        id: publication.id,
+        title: publication.title,
+        subtitle: publication.publisher,
+        date: formatResumeDate(publication.date),
+        summary: publication.summary,
+        link: publication.url
+          ? { label: 'Read publication', url: publication.url }
+          : undefined,
+      })),
+    },
+    {
+      id: 'awards' as const,
+      title: 'Awards',
+      icon: EmojiEventsIcon,
+      color: colorPalette.accent.lightOrange,
+      entries: (resumeData.awards ?? []).map((award) => ({
+        id: award.id,
+        title: award.title,
+        subtitle: award.awarder,
+        date: formatResumeDate(award.date),
+        summary: award.summary,
+      })),
+    },
+  ].filter((section) => section.entries.length > 0);
+
+  const renderAchievementCard = (
+    section: AchievementSection,
+    entry: AchievementEntry
+  ) => {
+    const Icon = section.icon;
+
+    return (
+      <Card
+        key={entry.id}
+        sx={{
+          mb: 3,
+          mx: isMobile ? 2 : 0, // Add horizontal margin on mobile
+          background: `linear-gradient(135deg, ${colorPalette.primary.darkGray} 0%, ${colorPalette.primary.mediumGray} 100%)`,
+          border: `1px solid ${section.color}30`,
+          borderRadius: 2,
+          boxShadow: `0 8px 25px ${colorPalette.primary.black}50`,
+        }}
+      >
+        <CardContent sx={{ p: 3, '&:last-child': { pb: 3 } }}>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start' }}>
+            <Icon
+              aria-hidden="true"
+              sx={{
+                color: section.color,
+                mr: 2,
+                mt: 0.5,
+                fontSize: isMobile ? '1.5rem' : '1.75rem',
+                flexShrink: 0,
+              }}
+            />
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <Typography
+                variant="h6"
+                component="h4"
+                sx={{
+                  color: colorPalette.neutral.white,
+                  fontWeight: 600,
+                  fontSize: isMobile ? '1rem' : '1.125rem',
+                  lineHeight: 1.3,
+                }}
+              >
+                {entry.title}
+              </Typography>
+              <Typography
+                variant="body1"
+                sx={{ color: section.color, fontWeight: 500 }}
+              >
+                {entry.subtitle}
+              </Typography>
+              <Typography
+                variant="body2"
+                sx={{ color: colorPalette.neutral.lightGray, mt: 0.5 }}
+              >
+                {entry.date}
+              </Typography>
+              {entry.summary && (
+                <Typography
+                  variant="body2"
+                  sx={{
+                    color: colorPalette.neutral.lightGray,
+                    mt: 1,
+                    lineHeight: 1.6,
+                  }}
+                >
+                  {entry.summary}
+                </Typography>
+              )}
+              {entry.link && (
+                <Link
+                  href={entry.link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label={`${entry.link.label}: ${entry.title} (opens in a new tab)`}
+                  sx={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 0.5,
+                    mt: 1,
+                    color: section.color,
+                    fontWeight: 600,
+                  }}
+                >
+                  {entry.link.label}
+                  <OpenInNewIcon fontSize="small" aria-hidden="true" />
+                </Link>
+              )}
+            </Box>
+          </Box>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Shared look of the PDF option toggles (template, paper size)
+  const toggleGroupSx = {
+    '& .MuiToggleButton-root': {
+      color: colorPalette.neutral.lightGray,
+      borderColor: `${colorPalette.accent.electricBlue}60`,
+      fontFamily: '"Orbitron", "Roboto", sans-serif',
+      textTransform: 'none',
+      px: 1.5,
+      '&.Mui-selected': {
+        color: colorPalette.primary.black,
+        backgroundColor: colorPalette.accent.electricBlue,
+      },
+      '&.Mui-selected:hover': {
+        backgroundColor: colorPalette.accent.neonGreen,
+      },
+      '&:focus-visible': {
+        outline: `2px solid ${colorPalette.accent.neonGreen}`,
+        outlineOffset: '2px',
+      },
+    },
+  };
+
   const skillsByCategory = skills.reduce(
     (acc, skill) => {
       if (!acc[skill.category]) {
@@ -558,81 +1027,245 @@ const Resume: React.FC = () => {
             Resume
           </Typography>
 
-          <Button
-            component={motion.button}
-            whileHover={{ scale: 1.05, y: -2 }}
-            whileTap={{ scale: 0.95 }}
-            variant="contained"
-            size="large"
-            startIcon={<DownloadIcon />}
-            onClick={handlePDFDownload}
-            aria-label="Download PDF version of resume"
+          <Box
+            className="print-hidden"
             sx={{
-              px: { xs: 2, sm: 4 },
-              py: { xs: 1, sm: 1.5 },
-              fontSize: { xs: '0.75rem', sm: '1rem' },
-              fontWeight: 700,
-              fontFamily: '"Orbitron", "Roboto", sans-serif',
-              textTransform: 'uppercase',
-              letterSpacing: '0.1em',
-              width: { xs: 'auto', sm: 'auto' },
-              minHeight: { xs: '40px', sm: '56px' },
-              background: `linear-gradient(45deg, ${colorPalette.accent.neonGreen}, ${colorPalette.accent.electricBlue})`,
-              border: `2px solid ${colorPalette.accent.neonGreen}`,
-              borderRadius: 0,
-              clipPath:
-                'polygon(0 0, calc(100% - 12px) 0, 100% 12px, 100% 100%, 12px 100%, 0 calc(100% - 12px))',
-              color: colorPalette.primary.black,
-              boxShadow: `0 0 20px ${colorPalette.accent.neonGreen}60, inset 0 0 20px ${colorPalette.accent.electricBlue}40`,
-              position: 'relative',
-              overflow: 'hidden',
-              '&::before': {
-                content: '""',
-                position: 'absolute',
-                top: 0,
-                left: '-100%',
-                width: '100%',
-                height: '100%',
-                background: `linear-gradient(90deg, transparent, ${colorPalette.neutral.white}40, transparent)`,
-                transition: 'left 0.5s',
-              },
-              '&:hover::before': {
-                left: '100%',
-              },
-              '&:hover': {
-                background: `linear-gradient(45deg, ${colorPalette.accent.electricBlue}, ${colorPalette.accent.neonGreen})`,
-                boxShadow: `0 0 30px ${colorPalette.accent.electricBlue}80, inset 0 0 30px ${colorPalette.accent.neonGreen}60`,
-                transform: 'scale(1.05) translateY(-2px)',
-              },
-              '&:focus-visible': {
-                outline: `3px solid ${colorPalette.accent.neonGreen}`,
-                outlineOffset: '2px',
-              },
-              transition: 'all 0.3s ease',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'flex-end',
+              gap: 1,
             }}
           >
-            <Box
-              component="span"
-              sx={{
-                display: { xs: 'inline', sm: 'none' },
-              }}
-            >
-              Download
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                component={motion.button}
+                whileHover={{ scale: 1.05, y: -2 }}
+                whileTap={{ scale: 0.95 }}
+                variant="contained"
+                size="large"
+                startIcon={<DownloadIcon />}
+                onClick={handlePDFDownload}
+                aria-label="Download PDF version of resume"
+                sx={{
+                  px: { xs: 2, sm: 4 },
+                  py: { xs: 1, sm: 1.5 },
+                  fontSize: { xs: '0.75rem', sm: '1rem' },
+                  fontWeight: 700,
+                  fontFamily: '"Orbitron", "Roboto", sans-serif',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.1em',
+                  width: { xs: 'auto', sm: 'auto' },
+                  minHeight: { xs: '40px', sm: '56px' },
+                  background: `linear-gradient(45deg, ${colorPalette.accent.neonGreen}, ${colorPalette.accent.electricBlue})`,
+                  border: `2px solid ${colorPalette.accent.neonGreen}`,
+                  borderRadius: 0,
+                  clipPath:
+                    'polygon(0 0, calc(100% - 12px) 0, 100% 12px, 100% 100%, 12px 100%, 0 calc(100% - 12px))',
+                  color: colorPalette.primary.black,
+                  boxShadow: `0 0 20px ${colorPalette.accent.neonGreen}60, inset 0 0 20px ${colorPalette.accent.electricBlue}40`,
+                  position: 'relative',
+                  overflow: 'hidden',
+                  '&::before': {
+                    content: '""',
+                    position: 'absolute',
+                    top: 0,
+                    left: '-100%',
+                    width: '100%',
+                    height: '100%',
+                    background: `linear-gradient(90deg, transparent, ${colorPalette.neutral.white}40, transparent)`,
+                    transition: 'left 0.5s',
+                  },
+                  '&:hover::before': {
+                    left: '100%',
+                  },
+                  '&:hover': {
+                    background: `linear-gradient(45deg, ${colorPalette.accent.electricBlue}, ${colorPalette.accent.neonGreen})`,
+                    boxShadow: `0 0 30px ${colorPalette.accent.electricBlue}80, inset 0 0 30px ${colorPalette.accent.neonGreen}60`,
+                    transform: 'scale(1.05) translateY(-2px)',
+                  },
+                  '&:focus-visible': {
+                    outline: `3px solid ${colorPalette.accent.neonGreen}`,
+                    outlineOffset: '2px',
+                  },
+                  transition: 'all 0.3s ease',
+                }}
+              >
+                <Box
+                  component="span"
+                  sx={{
+                    display: { xs: 'inline', sm: 'none' },
+                  }}
+                >
+                  Download
+                </Box>
+                <Box
+                  component="span"
+                  sx={{
+                    display: { xs: 'none', sm: 'inline' },
+                  }}
+                >
+                  Download PDF
+                </Box>
+              </Button>
+
+              <Button
+                variant="outlined"
+                size="large"
+                startIcon={<DescriptionIcon />}
+                onClick={handleDocxDownload}
+                aria-label="Download Word version of resume"
+                sx={{
+                  px: { xs: 2, sm: 3 },
+                  py: { xs: 1, sm: 1.5 },
+                  fontSize: { xs: '0.75rem', sm: '1rem' },
+                  fontWeight: 700,
+                  fontFamily: '"Orbitron", "Roboto", sans-serif',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.1em',
+                  minHeight: { xs: '40px', sm: '56px' },
+                  color: colorPalette.accent.electricBlue,
+                  border: `2px solid ${colorPalette.accent.electricBlue}`,
+                  borderRadius: 0,
+                  clipPath:
+                    'polygon(0 0, calc(100% - 12px) 0, 100% 12px, 100% 100%, 12px 100%, 0 calc(100% - 12px))',
+                  '&:hover': {
+                    border: `2px solid ${colorPalette.accent.neonGreen}`,
+                    color: colorPalette.accent.neonGreen,
+                    backgroundColor: `${colorPalette.accent.neonGreen}15`,
+                  },
+                  '&:focus-visible': {
+                    outline: `3px solid ${colorPalette.accent.neonGreen}`,
+                    outlineOffset: '2px',
+                  },
+                  transition: 'all 0.3s ease',
+                }}
+              >
+                DOCX
+              </Button>
+
+              <IconButton
+                onClick={(event) => setExportMenuAnchor(event.currentTarget)}
+                aria-label="More resume formats"
+                aria-haspopup="menu"
+                aria-controls={
+                  exportMenuAnchor ? 'resume-export-menu' : undefined
+                }
+                aria-expanded={exportMenuAnchor ? 'true' : undefined}
+                sx={{
+                  color: colorPalette.accent.electricBlue,
+                  border: `2px solid ${colorPalette.accent.electricBlue}60`,
+                  borderRadius: 0,
+                  minWidth: { xs: '40px', sm: '56px' },
+                  '&:hover': {
+                    color: colorPalette.accent.neonGreen,
+                    borderColor: colorPalette.accent.neonGreen,
+                  },
+                  '&:focus-visible': {
+                    outline: `3px solid ${colorPalette.accent.neonGreen}`,
+                    outlineOffset: '2px',
+                  },
+                }}
+              >
+                <MoreVertIcon />
+              </IconButton>
+              <Menu
+                id="resume-export-menu"
+                anchorEl={exportMenuAnchor}
+                open={Boolean(exportMenuAnchor)}
+                onClose={() => setExportMenuAnchor(null)}
+                anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+                PaperProps={{
+                  sx: {
+                    backgroundColor: colorPalette.primary.darkGray,
+                    color: colorPalette.neutral.white,
+                    border: `1px solid ${colorPalette.accent.electricBlue}60`,
+                    borderRadius: 0,
+                  },
+                }}
+              >
+                {TEXT_EXPORTS.flatMap((format) => [
+                  <MenuItem
+                    key={`${format.id}-download`}
+                    onClick={() => handleTextExport(format, 'download')}
+                  >
+                    <ListItemIcon sx={{ color: colorPalette.accent.neonGreen }}>
+                      <TextSnippetIcon fontSize="small" />
+                    </ListItemIcon>
+                    Download {format.label} (.{format.extension})
+                  </MenuItem>,
+                  <MenuItem
+                    key={`${format.id}-copy`}
+                    onClick={() => handleTextExport(format, 'copy')}
+                  >
+                    <ListItemIcon sx={{ color: colorPalette.accent.neonGreen }}>
+                      <ContentCopyIcon fontSize="small" />
+                    </ListItemIcon>
+                    Copy as {format.label}
+                  </MenuItem>,
+                ])}
+              </Menu>
             </Box>
-            <Box
-              component="span"
-              sx={{
-                display: { xs: 'none', sm: 'inline' },
-              }}
+
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={pdfTemplate}
+              onChange={(_, template) => template && setPDFTemplate(template)}
+              aria-label="PDF template"
+              sx={toggleGroupSx}
             >
-              Download PDF
-            </Box>
-          </Button>
+              {PDF_TEMPLATES.map((template) => (
+                <ToggleButton
+                  key={template.id}
+                  value={template.id}
+                  title={template.description}
+                >
+                  {template.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={paperSize}
+              onChange={(_, paper) => paper && setPaperSize(paper)}
+              aria-label="Paper size"
+              sx={toggleGroupSx}
+            >
+              {PDF_PAPER_SIZES.map((paper) => (
+                <ToggleButton
+                  key={paper.id}
+                  value={paper.id}
+                  title={`${paper.width} × ${paper.height} mm`}
+                >
+                  {paper.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
         </Box>
 
+        <JobMatchPanel
+          resume={tailoredResume}
+          match={jobMatch}
+          onMatchChange={setJobMatch}
+        />
+
+        {/* Highlights are picked from the full resume so a saved draft keeps
+            pointing at the same responsibilities whichever variant is shown */}
+        <CoverLetterPanel
+          resume={resumeData}
+          locale={locale}
+          date={now}
+          template={pdfTemplate}
+          paper={paperSize}
+        />
+
         <Grid container spacing={{ xs: 2, md: 4 }}>
           {/* Experience Section */}
-          <Grid item xs={12} lg={8}>
+          <Grid item xs={12} lg={8} ref={experienceAreaRef}>
             <AnimatedSection animation={animationConfigs.scrollReveal}>
               <Typography
                 variant="h4"
@@ -650,6 +1283,16 @@ const Resume: React.FC = () => {
                 id="experience-heading"
               >
                 Professional Experience
+                <Box
+                  component="span"
+                  sx={{
+                    color: colorPalette.neutral.lightGray,
+                    fontSize: '1rem',
+                    fontWeight: 400,
+                  }}
+                >
+                  {totalYearsOfExperience}+ years
+                </Box>
               </Typography>
               <Box
                 component="div"
@@ -689,10 +1332,45 @@ const Resume: React.FC = () => {
                 {education.map((edu, index) => renderEducationCard(edu, index))}
               </Box>
             </AnimatedSection>
+
+            {achievementSections.map((section) => (
+              <AnimatedSection
+                key={section.id}
+                animation={animationConfigs.scrollReveal}
+              >
+                <Typography
+                  variant="h4"
+                  component="h3"
+                  sx={{
+                    color: colorPalette.neutral.white,
+                    fontWeight: 600,
+                    mb: 3,
+                    mt: 4,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 2,
+                    fontSize: { xs: '1.5rem', sm: '1.75rem' },
+                    px: { xs: 2, sm: 0 },
+                  }}
+                  id={`${section.id}-heading`}
+                >
+                  {section.title}
+                </Typography>
+                <Box
+                  component="div"
+                  role="region"
+                  aria-labelledby={`${section.id}-heading`}
+                >
+                  {section.entries.map((entry) =>
+                    renderAchievementCard(section, entry)
+                  )}
+                </Box>
+              </AnimatedSection>
+            ))}
           </Grid>
 
           {/* Skills Section */}
-          <Grid item xs={12} lg={4}>
+          <Grid item xs={12} lg={4} ref={skillsAreaRef}>
             <AnimatedSection animation={animationConfigs.scrollReveal}>
               <Typography
                 variant="h4"
@@ -711,11 +1389,26 @@ const Resume: React.FC = () => {
               >
                 Technical Skills
               </Typography>
+              <Typography
+                variant="body2"
+                id="skills-hint"
+                className="print-hidden"
+                sx={{
+                  color: colorPalette.neutral.lightGray,
+                  mt: -2,
+                  mb: 3,
+                  px: { xs: 2, sm: 0 },
+                }}
+              >
+                Select a skill to highlight the roles that used it. Press Escape
+                to clear.
+              </Typography>
 
               <Box
                 component="div"
                 role="region"
                 aria-labelledby="skills-heading"
+                aria-describedby="skills-hint"
               >
                 {Object.entries(skillsByCategory).map(
                   ([category, categorySkills]) => {
@@ -750,20 +1443,58 @@ const Resume: React.FC = () => {
                           <Box
                             sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}
                           >
-                            {categorySkills.map((skill) => (
-                              <Chip
-                                key={skill.id}
-                                label={skill.name}
-                                size="small"
-                                sx={{
-                                  backgroundColor: `${categoryColor}20`,
-                                  color: categoryColor,
-                                  border: `1px solid ${categoryColor}50`,
-                                  fontWeight: 500,
-                                  mb: 0.5,
-                                }}
-                              />
-                            ))}
+                            {categorySkills.map((skill) => {
+                              const usage = skillUsage[skill.id];
+                              const isJobMatch =
+                                jobMatch?.skillIds.includes(skill.id) ?? false;
+                              return (
+                                <Chip
+                                  key={skill.id}
+                                  label={
+                                    usage ? (
+                                      <>
+                                        <span>{skill.name}</span>
+                                        <Box
+                                          component="span"
+                                          sx={{
+                                            ml: 0.75,
+                                            fontWeight: 400,
+                                            opacity: 0.85,
+                                          }}
+                                        >
+                                          {formatSkillUsage(usage)}
+                                        </Box>
+                                      </>
+                                    ) : (
+                                      skill.name
+                                    )
+                                  }
+                                  size="small"
+                                  clickable
+                                  onClick={() => activateSkill(skill)}
+                                  onFocus={() => activateSkill(skill)}
+                                  aria-pressed={activeSkill?.id === skill.id}
+                                  data-job-match={isJobMatch || undefined}
+                                  sx={{
+                                    backgroundColor:
+                                      activeSkill?.id === skill.id
+                                        ? `${categoryColor}45`
+                                        : `${categoryColor}20`,
+                                    color: categoryColor,
+                                    border: `1px solid ${activeSkill?.id === skill.id ? categoryColor : `${categoryColor}50`}`,
+                                    boxShadow: isJobMatch
+                                      ? `0 0 0 2px ${colorPalette.accent.neonGreen}`
+                                      : 'none',
+                                    fontWeight: 500,
+                                    mb: 0.5,
+                                    '&:focus-visible': {
+                                      outline: `3px solid ${categoryColor}`,
+                                      outlineOffset: '2px',
+                                    },
+                                  }}
+                                />
+                              );
+                            })}
                           </Box>
                         </CardContent>
                       </Card>
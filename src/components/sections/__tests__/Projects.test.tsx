@@ -0,0 +1,139 @@
+import React from 'react';
+import { render, screen, fireEvent, within, act } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import Projects from '../Projects';
+import { theme } from '../../../styles/theme';
+
+// Mock AnimatedSection component
+jest.mock('../../common/AnimatedSection', () => ({
+  __esModule: true,
+  default: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="animated-section">{children}</div>
+  ),
+}));
+
+jest.mock('../../../data', () => ({
+  resumeData: {
+    projects: [
+      {
+        id: 'design-system',
+        title: 'Design System',
+        summary: 'Shared component library.',
+        role: 'Lead Developer',
+        highlights: ['Published 40 components'],
+        technologies: ['React', 'TypeScript'],
+        links: [{ label: 'Source Code', url: 'https://example.com/ds' }],
+        images: [{ src: '/ds.png', alt: 'Design system docs site' }],
+        startDate: { year: 2021, month: 3 },
+        endDate: { year: 2022, month: 1 },
+      },
+      {
+        id: 'data-pipeline',
+        title: 'Data Pipeline',
+        summary: 'Nightly ingestion jobs.',
+        role: 'Contributor',
+        highlights: ['Cut run time in half'],
+        technologies: ['Python'],
+        links: [],
+        images: [],
+      },
+    ],
+  },
+}));
+
+describe('Projects Component', () => {
+  const renderProjects = () =>
+    render(
+      <ThemeProvider theme={theme}>
+        <Projects />
+      </ThemeProvider>
+    );
+
+  test('renders a card for every project', () => {
+    renderProjects();
+
+    expect(
+      screen.getByRole('heading', { level: 2, name: 'Projects' })
+    ).toBeInTheDocument();
+    expect(screen.getByText('Design System')).toBeInTheDocument();
+    expect(screen.getByText('Data Pipeline')).toBeInTheDocument();
+    expect(screen.getByText('March 2021 - January 2022')).toBeInTheDocument();
+  });
+
+  test('filters projects by technology', () => {
+    renderProjects();
+
+    const filters = screen.getByRole('group', {
+      name: 'Filter projects by technology',
+    });
+    const pythonFilter = within(filters).getByText('Python');
+    fireEvent.click(pythonFilter);
+
+    expect(screen.queryByText('Design System')).not.toBeInTheDocument();
+    expect(screen.getByText('Data Pipeline')).toBeInTheDocument();
+    expect(pythonFilter.closest('[aria-pressed]')).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Showing 1 of 2 projects using Python'
+    );
+
+    fireEvent.click(within(filters).getByText('All'));
+    expect(screen.getByText('Design System')).toBeInTheDocument();
+  });
+
+  test('toggles an accessible details region', () => {
+    renderProjects();
+
+    const toggle = screen.getByRole('button', {
+      name: /view details for design system/i,
+    });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    const details = screen.getByRole('region', { name: 'Design System' });
+    expect(toggle).toHaveAttribute('aria-controls', details.id);
+    expect(
+      within(details).getByText('Published 40 components')
+    ).toBeInTheDocument();
+    expect(
+      within(details).getByAltText('Design system docs site')
+    ).toBeInTheDocument();
+
+    const link = within(details).getByRole('link', {
+      name: /source code for design system/i,
+    });
+    expect(link).toHaveAttribute('href', 'https://example.com/ds');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  test('prints every project with its details, ignoring the filter', () => {
+    renderProjects();
+
+    fireEvent.click(
+      within(
+        screen.getByRole('group', { name: 'Filter projects by technology' })
+      ).getByText('Python')
+    );
+    act(() => {
+      window.dispatchEvent(new Event('beforeprint'));
+    });
+
+    expect(screen.getByText('Design System')).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: /hide details for design system/i })
+    ).toHaveAttribute('aria-expanded', 'true');
+    expect(
+      screen.getByRole('button', { name: /hide details for data pipeline/i })
+    ).toHaveAttribute('aria-expanded', 'true');
+
+    act(() => {
+      window.dispatchEvent(new Event('afterprint'));
+    });
+
+    expect(screen.queryByText('Design System')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import { ThemeProvider } from '@mui/material/styles';
+import Resume from '../Resume';
+import { theme } from '../../../styles/theme';
+
+// Mock AnimatedSection component
+jest.mock('../../common/AnimatedSection', () => ({
+  __esModule: true,
+  default: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="animated-section">{children}</div>
+  ),
+}));
+
+jest.mock('../../../data', () => {
+  const { resumeData } = jest.requireActual('../../../data');
+  return {
+    resumeData: {
+      ...resumeData,
+      certifications: [
+        {
+          id: 'cpacc',
+          name: 'Certified Professional in Accessibility Core Competencies',
+          issuer: 'IAAP',
+          date: { year: 2023, month: 5 },
+          expiryDate: { year: 2026, month: 5 },
+          credentialUrl: 'https://example.com/credentials/cpacc',
+        },
+      ],
+      publications: [],
+      awards: [
+        {
+          id: 'hackathon-2021',
+          title: 'Hackathon Winner',
+          awarder: 'eMoney Advisor',
+          date: { year: 2021 },
+          summary: 'Built an accessible reporting prototype.',
+        },
+      ],
+    },
+  };
+});
+
+describe('Resume certifications, publications and awards', () => {
+  const renderResume = () =>
+    render(
+      <ThemeProvider theme={theme}>
+        <Resume />
+      </ThemeProvider>
+    );
+
+  test('renders certifications with issuer, expiry and credential link', () => {
+    renderResume();
+
+    const region = screen.getByRole('region', { name: 'Certifications' });
+    expect(
+      within(region).getByText(
+        'Certified Professional in Accessibility Core Competencies'
+      )
+    ).toBeInTheDocument();
+    expect(within(region).getByText('IAAP')).toBeInTheDocument();
+    expect(
+      within(region).getByText('May 2023 (expires May 2026)')
+    ).toBeInTheDocument();
+    expect(
+      within(region).getByRole('link', { name: /view credential/i })
+    ).toHaveAttribute('href', 'https://example.com/credentials/cpacc');
+  });
+
+  test('renders awards with their summary', () => {
+    renderResume();
+
+    const region = screen.getByRole('region', { name: 'Awards' });
+    expect(within(region).getByText('Hackathon Winner')).toBeInTheDocument();
+    expect(within(region).getByText('2021')).toBeInTheDocument();
+    expect(
+      within(region).getByText('Built an accessible reporting prototype.')
+    ).toBeInTheDocument();
+  });
+
+  test('hides a section whose collection is empty', () => {
+    renderResume();
+
+    expect(
+      screen.queryByRole('heading', { level: 3, name: 'Publications' })
+    ).not.toBeInTheDocument();
+  });
+});
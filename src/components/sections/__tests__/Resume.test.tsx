@@ -1,9 +1,23 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  within,
+  act,
+} from '@testing-library/react';
 import { ThemeProvider } from '@mui/material/styles';
 import Resume from '../Resume';
 import { theme } from '../../../styles/theme';
 import { resumeData } from '../../../data';
+import { formatDateRange } from '../../../utils/resumeDates';
+import { getResponsibilityText } from '../../../utils/resumeVariants';
+import {
+  generateCoverLetterPDF as mockGenerateCoverLetterPDF,
+  generateResumePDF as mockGenerateResumePDF,
+} from '../../../__mocks__/pdfGenerator';
+import { generateResumeDocx } from '../../../utils/resumeDocx';
 
 // Mock framer-motion to avoid animation complexities in unit tests
 jest.mock('framer-motion', () => ({
@@ -49,6 +63,11 @@ jest.mock('../../common/AnimatedSection', () => {
 // Mock PDF generator
 jest.mock('../../utils/pdfGenerator', () => ({
   generateResumePDF: jest.fn().mockResolvedValue(undefined),
+  generateCoverLetterPDF: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../../utils/resumeDocx', () => ({
+  generateResumeDocx: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Mock console.log for PDF download testing
@@ -131,12 +150,16 @@ describe('Resume Component', () => {
         expect(position).toBeInTheDocument();
 
         // Test date range
-        const dateRange = screen.getByText(`${exp.startDate} - ${exp.endDate}`);
+        const dateRange = screen.getByText(
+          formatDateRange(exp.startDate, exp.endDate)
+        );
         expect(dateRange).toBeInTheDocument();
 
         // Test responsibilities
         exp.responsibilities.forEach((responsibility) => {
-          const responsibilityText = screen.getByText(responsibility);
+          const responsibilityText = screen.getByText(
+            getResponsibilityText(responsibility)
+          );
           expect(responsibilityText).toBeInTheDocument();
         });
 
@@ -218,11 +241,23 @@ describe('Resume Component', () => {
         expect(degreeField).toBeInTheDocument();
 
         // Test graduation date
-        const graduationDate = screen.getByText(edu.graduationDate);
+        const graduationDate = screen.getByText(
+          formatDateRange(edu.startDate, edu.graduationDate)
+        );
         expect(graduationDate).toBeInTheDocument();
       });
     });
 
+    test('hides certification, publication and award sections without entries', () => {
+      renderWithTheme(<Resume />);
+
+      ['Certifications', 'Publications', 'Awards'].forEach((title) => {
+        expect(
+          screen.queryByRole('heading', { level: 3, name: title })
+        ).not.toBeInTheDocument();
+      });
+    });
+
     test('renders technical skills section heading', () => {
       renderWithTheme(<Resume />);
 
@@ -263,6 +298,24 @@ describe('Resume Component', () => {
       });
     });
 
+    test('renders usage badges derived from experience', () => {
+      renderWithTheme(<Resume />);
+
+      const skillsRegion = screen.getByRole('region', {
+        name: /technical skills/i,
+      });
+      const reactChip = within(skillsRegion)
+        .getByText('React')
+        .closest('.MuiChip-root');
+      expect(reactChip).toHaveTextContent(/\d+\+ yrs · current/);
+
+      // Skills never listed on a role get no badge
+      const figmaChip = within(skillsRegion)
+        .getByText('Figma')
+        .closest('.MuiChip-root');
+      expect(figmaChip).toHaveTextContent(/^Figma$/);
+    });
+
     test('renders React, TypeScript, and accessibility skills as required', () => {
       renderWithTheme(<Resume />);
 
@@ -337,6 +390,93 @@ describe('Resume Component', () => {
       // Button should be activatable with click (keyboard events are complex in JSDOM)
       fireEvent.click(downloadButton);
     });
+
+    test('offers a Word download next to the PDF button', async () => {
+      window.history.replaceState({}, '', '/?variant=frontend');
+      renderWithTheme(<Resume />);
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /download word version of resume/i })
+      );
+
+      await waitFor(() => {
+        expect(generateResumeDocx).toHaveBeenCalledWith({
+          variant: 'frontend',
+        });
+      });
+      window.history.replaceState({}, '', '/');
+    });
+
+    test('copies the plain-text resume from the formats menu', async () => {
+      const writeText = jest.fn().mockResolvedValue(undefined);
+      Object.assign(navigator, { clipboard: { writeText } });
+      renderWithTheme(<Resume />);
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /more resume formats/i })
+      );
+      expect(
+        screen.getByRole('menuitem', { name: /download markdown \(\.md\)/i })
+      ).toBeInTheDocument();
+      fireEvent.click(
+        screen.getByRole('menuitem', { name: /copy as plain text/i })
+      );
+
+      await waitFor(() => {
+        expect(writeText).toHaveBeenCalledWith(
+          expect.stringContaining(resumeData.personalInfo.name.toUpperCase())
+        );
+      });
+    });
+
+    test('defaults the paper size to the visitor locale and lets it change', async () => {
+      const languages = jest
+        .spyOn(navigator, 'languages', 'get')
+        .mockReturnValue(['en-GB']);
+      renderWithTheme(<Resume />);
+
+      const papers = screen.getByRole('group', { name: /paper size/i });
+      expect(
+        within(papers).getByRole('button', { name: 'A4' })
+      ).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(within(papers).getByRole('button', { name: 'Legal' }));
+      fireEvent.click(
+        screen.getByRole('button', { name: /download pdf version of resume/i })
+      );
+
+      await waitFor(() => {
+        expect(mockGenerateResumePDF).toHaveBeenCalledWith(
+          expect.objectContaining({ paper: 'legal', locale: 'en-GB' })
+        );
+      });
+      languages.mockRestore();
+    });
+
+    test('downloads the PDF in the selected template', async () => {
+      renderWithTheme(<Resume />);
+
+      const templates = screen.getByRole('group', { name: /pdf template/i });
+      const classic = within(templates).getByRole('button', {
+        name: 'Classic',
+      });
+      const modern = within(templates).getByRole('button', { name: 'Modern' });
+      expect(classic).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(modern);
+      expect(modern).toHaveAttribute('aria-pressed', 'true');
+      expect(classic).toHaveAttribute('aria-pressed', 'false');
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /download pdf version of resume/i })
+      );
+
+      await waitFor(() => {
+        expect(mockGenerateResumePDF).toHaveBeenCalledWith(
+          expect.objectContaining({ template: 'modern' })
+        );
+      });
+    });
   });
 
   describe('Component Structure and Layout', () => {
@@ -422,4 +562,267 @@ describe('Resume Component', () => {
       expect(currentRole).toBeInTheDocument();
     });
   });
+
+  describe('Skill Highlighting', () => {
+    const getExperienceCard = (company: string) =>
+      screen
+        .getByRole('heading', { level: 4, name: company })
+        .closest('.MuiCard-root') as HTMLElement;
+
+    const getSkillChip = (name: string) =>
+      within(screen.getByRole('region', { name: /technical skills/i }))
+        .getByText(name)
+        .closest('.MuiChip-root') as HTMLElement;
+
+    test('highlights roles that used a clicked skill and dims the others', () => {
+      renderWithTheme(<Resume />);
+
+      fireEvent.click(getSkillChip('Node.js'));
+
+      expect(getSkillChip('Node.js')).toHaveAttribute('aria-pressed', 'true');
+      expect(getExperienceCard('Elsevier')).toHaveAttribute(
+        'data-highlight',
+        'match'
+      );
+      expect(getExperienceCard('eMoney Advisor')).toHaveAttribute(
+        'data-highlight',
+        'dimmed'
+      );
+    });
+
+    test('announces the highlight and clears it with Escape', () => {
+      renderWithTheme(<Resume />);
+
+      fireEvent.focus(getSkillChip('TypeScript'));
+
+      expect(
+        screen.getByText(
+          'Highlighting 2 roles using TypeScript. Press Escape to clear.'
+        )
+      ).toBeInTheDocument();
+      expect(getExperienceCard('eMoney Advisor')).toHaveAttribute(
+        'data-highlight',
+        'match'
+      );
+
+      fireEvent.keyDown(document, { key: 'Escape' });
+
+      expect(getSkillChip('TypeScript')).toHaveAttribute(
+        'aria-pressed',
+        'false'
+      );
+      expect(getExperienceCard('eMoney Advisor')).not.toHaveAttribute(
+        'data-highlight'
+      );
+      expect(screen.getByText('Cleared skill highlight')).toBeInTheDocument();
+    });
+
+    test('leaves the highlight when Escape belongs to a form field or menu', () => {
+      renderWithTheme(<Resume />);
+
+      fireEvent.focus(getSkillChip('TypeScript'));
+      fireEvent.click(screen.getByRole('button', { name: 'Match a job' }));
+      fireEvent.keyDown(screen.getByLabelText('Job description'), {
+        key: 'Escape',
+      });
+
+      const handled = new KeyboardEvent('keydown', {
+        key: 'Escape',
+        cancelable: true,
+      });
+      handled.preventDefault();
+      document.dispatchEvent(handled);
+
+      expect(getSkillChip('TypeScript')).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+      expect(
+        screen.queryByText('Cleared skill highlight')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Job Match', () => {
+    test('scores a pasted job description and highlights matches', () => {
+      renderWithTheme(<Resume />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Match a job' }));
+      fireEvent.change(screen.getByLabelText('Job description'), {
+        target: {
+          value:
+            'We need Node.js experience, plus Kubernetes and GraphQL. Node.js daily.',
+        },
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Analyze' }));
+
+      const results = screen.getByTestId('job-match-results');
+      expect(results).toHaveTextContent(/Keyword coverage: 33%/);
+      expect(
+        within(
+          screen.getByRole('list', { name: 'Matched keywords' })
+        ).getByText('Node.js ×2')
+      ).toBeInTheDocument();
+      expect(
+        within(
+          screen.getByRole('list', { name: 'Missing keywords' })
+        ).getByText('Kubernetes')
+      ).toBeInTheDocument();
+
+      const card = screen
+        .getByRole('heading', { level: 4, name: 'Elsevier' })
+        .closest('.MuiCard-root') as HTMLElement;
+      expect(card).toHaveAttribute('data-highlight', 'match');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clear' }));
+      expect(screen.queryByTestId('job-match-results')).not.toBeInTheDocument();
+      expect(card).not.toHaveAttribute('data-highlight');
+    });
+  });
+
+  describe('Cover Letter', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    test('drafts a letter from picked highlights and keeps the draft', async () => {
+      const highlight = getResponsibilityText(
+        resumeData.experience[0].responsibilities[0]
+      );
+      const { unmount } = renderWithTheme(<Resume />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cover letter' }));
+      const download = screen.getByRole('button', { name: 'Download PDF' });
+      expect(download).toBeDisabled();
+
+      fireEvent.change(screen.getByLabelText(/^Company/), {
+        target: { value: 'Acme Corp' },
+      });
+      fireEvent.change(screen.getByLabelText(/^Role/), {
+        target: { value: 'Staff Engineer' },
+      });
+      fireEvent.click(
+        within(
+          screen.getByRole('group', { name: /Highlights/ })
+        ).getAllByLabelText(highlight)[0]
+      );
+
+      const preview = screen.getByLabelText('Cover letter preview');
+      expect(preview).toHaveTextContent(
+        'the Staff Engineer position at Acme Corp'
+      );
+      expect(preview).toHaveTextContent(`- ${highlight}`);
+
+      fireEvent.click(download);
+      await waitFor(() => {
+        expect(mockGenerateCoverLetterPDF).toHaveBeenCalledWith(
+          expect.objectContaining({
+            company: 'Acme Corp',
+            role: 'Staff Engineer',
+            highlights: [`${highlight} (${resumeData.experience[0].company})`],
+          }),
+          expect.objectContaining({ template: 'classic' })
+        );
+      });
+
+      unmount();
+      renderWithTheme(<Resume />);
+      fireEvent.click(screen.getByRole('button', { name: 'Cover letter' }));
+      expect(screen.getByLabelText(/^Company/)).toHaveValue('Acme Corp');
+    });
+  });
+
+  describe('Print Mode', () => {
+    const originalMatchMedia = window.matchMedia;
+
+    afterEach(() => {
+      window.matchMedia = originalMatchMedia;
+    });
+
+    test('expands every experience card while printing', () => {
+      // Experience cards only collapse on small screens
+      window.matchMedia = jest.fn().mockImplementation((query: string) => ({
+        matches: query.includes('max-width'),
+        media: query,
+        addListener: jest.fn(),
+        removeListener: jest.fn(),
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn(),
+      }));
+      renderWithTheme(<Resume />);
+
+      expect(
+        screen.getAllByRole('button', { name: 'Expand details' })
+      ).toHaveLength(resumeData.experience.length);
+
+      act(() => {
+        window.dispatchEvent(new Event('beforeprint'));
+      });
+
+      expect(
+        screen.queryAllByRole('button', { name: 'Expand details' })
+      ).toHaveLength(0);
+      expect(
+        screen.getAllByRole('button', { name: 'Collapse details' })
+      ).toHaveLength(resumeData.experience.length);
+
+      act(() => {
+        window.dispatchEvent(new Event('afterprint'));
+      });
+
+      expect(
+        screen.getAllByRole('button', { name: 'Expand details' })
+      ).toHaveLength(resumeData.experience.length);
+    });
+  });
+
+  describe('Resume Variants', () => {
+    afterEach(() => {
+      window.history.replaceState({}, '', '/');
+    });
+
+    test('filters responsibilities and skills for ?variant=frontend', () => {
+      window.history.replaceState({}, '', '/?variant=frontend');
+      renderWithTheme(<Resume />);
+
+      expect(
+        screen.getByText(
+          'Implemented responsive, cross-browser compatible interfaces serving millions of users'
+        )
+      ).toBeInTheDocument();
+      expect(
+        screen.queryByText(
+          'Architected and maintained scalable web applications for global scientific publishing platform'
+        )
+      ).not.toBeInTheDocument();
+      expect(screen.queryByText('Node.js')).toBeInTheDocument(); // technology chip
+      expect(screen.queryByText('CI/CD Pipelines')).not.toBeInTheDocument();
+    });
+
+    test('passes the variant to the PDF generator', async () => {
+      window.history.replaceState({}, '', '/?variant=fullstack');
+      renderWithTheme(<Resume />);
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /download pdf version of resume/i })
+      );
+
+      await waitFor(() => {
+        expect(mockGenerateResumePDF).toHaveBeenCalledWith({
+          variant: 'fullstack',
+          template: 'classic',
+          paper: 'letter',
+          locale: 'en-US',
+        });
+      });
+    });
+
+    test('shows the full resume for unknown variants', () => {
+      window.history.replaceState({}, '', '/?variant=backend');
+      renderWithTheme(<Resume />);
+
+      expect(screen.getByText('CI/CD Pipelines')).toBeInTheDocument();
+      expect(screen.getByText('Material-UI')).toBeInTheDocument();
+    });
+  });
 });
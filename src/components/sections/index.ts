@@ -1,3 +1,4 @@
 export { default as Hero } from './Hero';
 export { default as Resume } from './Resume';
+export { default as Projects } from './Projects';
 export { default as Contact } from './Contact';
\ No newline at end of file
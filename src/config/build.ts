@@ -0,0 +1,12 @@
+// Replaced by Vite with the day the site was built, as YYYY-MM-DD
+declare const __BUILD_DATE__: string | undefined;
+
+// Day the site was built, at local midnight so every time zone reads the
+// same month. The prerendered page counts tenure and years of experience up
+// to it, and so does the first client render, so the two match; the
+// visitor's clock takes over once the app has hydrated. Scripts and tests
+// outside Vite use the current time.
+export const BUILD_DATE =
+  typeof __BUILD_DATE__ === 'undefined'
+    ? new Date()
+    : new Date(`${__BUILD_DATE__}T00:00:00`);
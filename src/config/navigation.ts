@@ -1,4 +1,4 @@
-import { Home, Briefcase, MessageCircle } from 'lucide-react';
+import { Home, Briefcase, FolderGit2, MessageCircle } from 'lucide-react';
 import { NavigationItem, NavigationConfig, FaviconConfig } from '../types/navigation';
 
 // Modern navigation items with icons and descriptions
@@ -17,6 +17,13 @@ export const modernNavigationItems: NavigationItem[] = [
     href: '#resume',
     description: 'Professional Background'
   },
+  {
+    id: 'projects',
+    label: 'Projects',
+    icon: FolderGit2,
+    href: '#projects',
+    description: 'Portfolio Work'
+  },
   {
     id: 'contact',
     label: 'Connect',
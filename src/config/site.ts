@@ -0,0 +1,37 @@
+export interface SiteHost {
+  // Value of SITE_HOST that selects this host at build time
+  id: string;
+  // Public address of the site on this host, with a trailing slash
+  url: string;
+}
+
+// Every host the site is deployed to; the first one is the default
+export const SITE_HOSTS: SiteHost[] = [
+  { id: 'github', url: 'https://robertsamalonis.github.io/' },
+  { id: 'surge', url: 'https://robertsamalonis.surge.sh/' },
+];
+
+/**
+ * Finds the host a build is for (`SITE_HOST=surge npm run build`); no id
+ * selects the default host
+ */
+export const getSiteHost = (id?: string): SiteHost => {
+  if (!id) {
+    return SITE_HOSTS[0];
+  }
+
+  const host = SITE_HOSTS.find((candidate) => candidate.id === id);
+  if (!host) {
+    throw new Error(`Unknown site host '${id}'. Use one of: ${SITE_HOSTS.map((candidate) => candidate.id).join(', ')}`);
+  }
+  return host;
+};
+
+// Replaced by Vite with the address of the host being built for
+declare const __SITE_URL__: string | undefined;
+
+// Public address of the portfolio; canonical URLs, structured data and
+// printed resumes link back to it. Scripts and tests outside Vite get the
+// default host.
+export const SITE_URL =
+  typeof __SITE_URL__ === 'undefined' ? getSiteHost().url : __SITE_URL__;
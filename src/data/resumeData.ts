@@ -1,6 +1,7 @@
 import { ResumeData } from '../types';
 
 export const resumeData: ResumeData = {
+  updated: '2026-10-19',
   personalInfo: {
     name: 'Robert Samalonis',
     title: 'Senior Software Engineer',
@@ -13,14 +14,23 @@ export const resumeData: ResumeData = {
       id: 'emoney-2022',
       company: 'eMoney Advisor',
       position: 'Senior Software Engineer',
-      startDate: 'April 2022',
-      endDate: 'Present',
+      startDate: { year: 2022, month: 4 },
+      endDate: 'present',
       responsibilities: [
-        'Lead frontend development initiatives using React, TypeScript, and modern development workflows',
+        {
+          text: 'Lead frontend development initiatives using React, TypeScript, and modern development workflows',
+          tags: ['frontend']
+        },
         'Pioneer AI-assisted development practices to accelerate feature delivery and code quality',
-        'Implement comprehensive accessibility standards (WCAG 2.1 AA) across enterprise applications',
+        {
+          text: 'Implement comprehensive accessibility standards (WCAG 2.1 AA) across enterprise applications',
+          tags: ['frontend']
+        },
         'Mentor development teams on best practices, code architecture, and emerging technologies',
-        'Drive performance optimization initiatives resulting in measurable UX improvements',
+        {
+          text: 'Drive performance optimization initiatives resulting in measurable UX improvements',
+          tags: ['frontend', 'fullstack']
+        },
         'Collaborate cross-functionally with design and product teams to deliver user-centered solutions'
       ],
       technologies: ['React', 'RTK Query', 'TypeScript', 'JavaScript', 'HTML5', 'CSS3', 'Bootstrap 5', 'Web Accessibility', 'AI-Assisted Development', 'Jest', 'Testing Library', 'Performance Optimization']
@@ -29,14 +39,26 @@ export const resumeData: ResumeData = {
       id: 'elsevier-prev',
       company: 'Elsevier',
       position: 'Software Engineer',
-      startDate: 'June 2017',
-      endDate: 'April 2022',
+      startDate: { year: 2017, month: 6 },
+      endDate: { year: 2022, month: 4 },
       responsibilities: [
-        'Architected and maintained scalable web applications for global scientific publishing platform',
-        'Implemented responsive, cross-browser compatible interfaces serving millions of users',
+        {
+          text: 'Architected and maintained scalable web applications for global scientific publishing platform',
+          tags: ['fullstack']
+        },
+        {
+          text: 'Implemented responsive, cross-browser compatible interfaces serving millions of users',
+          tags: ['frontend']
+        },
         'Collaborated with distributed international teams on complex, multi-year projects',
-        'Contributed to frontend architecture decisions and established development standards',
-        'Delivered features through agile methodologies with continuous integration practices'
+        {
+          text: 'Contributed to frontend architecture decisions and established development standards',
+          tags: ['frontend']
+        },
+        {
+          text: 'Delivered features through agile methodologies with continuous integration practices',
+          tags: ['fullstack']
+        }
       ],
       technologies: ['React', 'TypeScript', 'JavaScript', 'HTML5', 'CSS3', 'Node.js', 'Git', 'Agile Methodologies', 'CI/CD']
     }
@@ -47,7 +69,8 @@ export const resumeData: ResumeData = {
       institution: 'Temple University',
       degree: `Bachelor's Degree`,
       field: 'Computer Science',
-      graduationDate: '2013 - 2017'
+      startDate: { year: 2013 },
+      graduationDate: { year: 2017 }
     }
   ],
   skills: [
@@ -56,67 +79,79 @@ export const resumeData: ResumeData = {
       id: 'react',
       name: 'React',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'rtk-query',
       name: 'RTK Query',
       category: 'frontend',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'typescript',
       name: 'TypeScript',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'javascript',
       name: 'JavaScript',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'html5',
       name: 'HTML5',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'css3',
       name: 'CSS3',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend', 'fullstack']
     },
     {
       id: 'accessibility',
       name: 'Web Accessibility (WCAG)',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      aliases: ['Web Accessibility', 'WCAG'],
+      tags: ['frontend']
     },
     {
       id: 'material-ui',
       name: 'Material-UI',
       category: 'frontend',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      tags: ['frontend']
     },
     {
       id: 'bootstrap',
       name: 'Bootstrap 5',
       category: 'frontend',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      tags: ['frontend']
     },
     {
       id: 'framer-motion',
       name: 'Framer Motion',
       category: 'frontend',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      tags: ['frontend']
     },
     {
       id: 'responsive-design',
       name: 'Responsive Design',
       category: 'frontend',
-      proficiency: 'expert'
+      proficiency: 'expert',
+      tags: ['frontend']
     },
     
     // Development Methodologies
@@ -136,7 +171,8 @@ export const resumeData: ResumeData = {
       id: 'agile-development',
       name: 'Agile Development',
       category: 'methodologies',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      aliases: ['Agile Methodologies', 'Agile']
     },
     {
       id: 'code-review',
@@ -156,7 +192,8 @@ export const resumeData: ResumeData = {
       id: 'testing-library',
       name: 'React Testing Library',
       category: 'tools',
-      proficiency: 'advanced'
+      proficiency: 'advanced',
+      aliases: ['Testing Library']
     },
     {
       id: 'git',
@@ -188,13 +225,49 @@ export const resumeData: ResumeData = {
       id: 'nodejs',
       name: 'Node.js',
       category: 'backend',
-      proficiency: 'intermediate'
+      proficiency: 'intermediate',
+      tags: ['fullstack']
     },
     {
       id: 'ci-cd',
       name: 'CI/CD Pipelines',
       category: 'backend',
-      proficiency: 'intermediate'
+      proficiency: 'intermediate',
+      tags: ['fullstack']
+    }
+  ],
+  projects: [
+    {
+      id: 'portfolio-website',
+      title: 'Personal Portfolio Website',
+      summary: 'This site: an interactive resume and portfolio with an emo/scene-inspired dark theme, built accessibility-first and generated from a single typed resume data source.',
+      role: 'Designer & Developer',
+      highlights: [
+        'Generates PDF and HTML resumes in the browser from the same data that renders the site',
+        'Keyboard and screen reader friendly navigation with reduced-motion support',
+        'Lazy-loaded sections, code splitting and a service worker for fast repeat visits',
+        'Property-based tests with fast-check alongside Jest and React Testing Library'
+      ],
+      technologies: ['React', 'TypeScript', 'Material-UI', 'Framer Motion', 'Vite', 'Jest'],
+      links: [
+        { label: 'Live Site', url: 'https://robertsamalonis.github.io/' },
+        { label: 'Source Code', url: 'https://github.com/RobSamalonis/RobSamalonis.github.io' }
+      ],
+      images: []
+    }
+  ],
+  variants: [
+    {
+      id: 'frontend',
+      label: 'Frontend',
+      tags: ['frontend'],
+      title: 'Senior Frontend Engineer'
+    },
+    {
+      id: 'fullstack',
+      label: 'Full-Stack',
+      tags: ['fullstack'],
+      title: 'Senior Full-Stack Engineer'
     }
   ]
-};
\ No newline at end of file
+};
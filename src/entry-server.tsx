@@ -0,0 +1,61 @@
+import React from 'react';
+import { renderToPipeableStream } from 'react-dom/server';
+import { Writable } from 'stream';
+import App from './App';
+import { resumeData } from './data/resumeData';
+import {
+  defaultSEOConfig,
+  generatePersonStructuredData,
+  getVariantSEOConfig,
+  renderHeadTags,
+} from './utils/seo';
+
+/**
+ * Resume variants that get a page of their own, e.g. dist/frontend/index.html
+ */
+export const getVariantIds = (): string[] =>
+  (resumeData.variants ?? []).map((variant) => variant.id);
+
+/**
+ * Meta tags and JSON-LD for the prerendered <head>; the same ones useSEO
+ * sets once the app runs. A variant's page is canonical at its own address
+ * and shares its own card, since link unfurlers don't run the app.
+ */
+export const renderHead = (variantId?: string): string =>
+  renderHeadTags(
+    { ...defaultSEOConfig, ...getVariantSEOConfig(variantId) },
+    generatePersonStructuredData(resumeData)
+  );
+
+/**
+ * Server entry used at build time to prerender the page into index.html.
+ * Waits for every lazy section so the HTML holds the whole page, with
+ * Emotion's styles inlined next to the elements that use them.
+ */
+export const render = (): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let html = '';
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        html += chunk.toString();
+        callback();
+      },
+      final(callback) {
+        resolve(html);
+        callback();
+      },
+    });
+
+    const stream = renderToPipeableStream(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>,
+      {
+        onAllReady() {
+          stream.pipe(output);
+        },
+        onShellError: reject,
+        onError: reject,
+      }
+    );
+  });
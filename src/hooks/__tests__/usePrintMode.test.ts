@@ -0,0 +1,71 @@
+import { renderHook, act } from '@testing-library/react';
+import { usePrintMode } from '../usePrintMode';
+
+describe('usePrintMode', () => {
+  const originalMatchMedia = window.matchMedia;
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it('starts out of print mode', () => {
+    const { result } = renderHook(() => usePrintMode());
+
+    expect(result.current).toBe(false);
+  });
+
+  it('follows beforeprint and afterprint', () => {
+    const { result } = renderHook(() => usePrintMode());
+
+    act(() => {
+      window.dispatchEvent(new Event('beforeprint'));
+    });
+    expect(result.current).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new Event('afterprint'));
+    });
+    expect(result.current).toBe(false);
+  });
+
+  it('follows the print media query', () => {
+    const listeners: Array<(event: MediaQueryListEvent) => void> = [];
+    const printQuery = {
+      matches: false,
+      media: 'print',
+      addEventListener: (
+        _type: string,
+        listener: (event: MediaQueryListEvent) => void
+      ) => listeners.push(listener),
+      removeEventListener: jest.fn(),
+    };
+    const matchMedia = jest.fn().mockReturnValue(printQuery);
+    window.matchMedia = matchMedia;
+
+    const { result } = renderHook(() => usePrintMode());
+    expect(matchMedia).toHaveBeenCalledWith('print');
+    expect(listeners).toHaveLength(1);
+
+    act(() => {
+      listeners[0]({ matches: true } as MediaQueryListEvent);
+    });
+    expect(result.current).toBe(true);
+  });
+
+  it('stops listening on unmount', () => {
+    const removeEventListener = jest.spyOn(window, 'removeEventListener');
+    const { unmount } = renderHook(() => usePrintMode());
+
+    unmount();
+
+    expect(removeEventListener).toHaveBeenCalledWith(
+      'beforeprint',
+      expect.any(Function)
+    );
+    expect(removeEventListener).toHaveBeenCalledWith(
+      'afterprint',
+      expect.any(Function)
+    );
+    removeEventListener.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+import { renderHook, act } from '@testing-library/react';
+import { Home, Briefcase, MessageCircle } from 'lucide-react';
+import { NavigationItem } from '../../types/navigation';
+import { SmartScrolling } from '../../utils/smartScrolling';
+import { useSectionHistory } from '../useSectionHistory';
+
+const sections: NavigationItem[] = [
+  { id: 'hero', label: 'Home', icon: Home, href: '#hero' },
+  { id: 'resume', label: 'About Me', icon: Briefcase, href: '#resume' },
+  { id: 'contact', label: 'Connect', icon: MessageCircle, href: '#contact' },
+];
+
+const flushAnimationFrames = () =>
+  act(async () => {
+    await new Promise((resolve) => requestAnimationFrame(() => resolve(null)));
+    await new Promise((resolve) => requestAnimationFrame(() => resolve(null)));
+  });
+
+describe('useSectionHistory', () => {
+  let scrollToElement: jest.SpyInstance;
+  let transitionToSection: jest.SpyInstance;
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    scrollToElement = jest
+      .spyOn(SmartScrolling, 'scrollToElement')
+      .mockResolvedValue(undefined);
+    transitionToSection = jest
+      .spyOn(SmartScrolling, 'transitionToSection')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('has no active section at the top of the page', () => {
+    const { result } = renderHook(() => useSectionHistory(sections));
+
+    expect(result.current).toBeUndefined();
+  });
+
+  it('scrolls a deep link to its section once the section mounts', async () => {
+    window.history.replaceState(null, '', '/?variant=frontend#contact');
+    const { result } = renderHook(() => useSectionHistory(sections));
+
+    expect(result.current).toBe(sections[2]);
+    await flushAnimationFrames();
+    expect(scrollToElement).not.toHaveBeenCalled();
+
+    const contact = document.createElement('section');
+    contact.id = 'contact';
+    document.body.appendChild(contact);
+    await flushAnimationFrames();
+
+    expect(scrollToElement).toHaveBeenCalledWith('contact');
+  });
+
+  it('moves to the section of the entry on back and forward', () => {
+    const { result } = renderHook(() => useSectionHistory(sections));
+
+    act(() => {
+      window.history.replaceState(null, '', '/#resume');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    expect(result.current).toBe(sections[1]);
+    expect(transitionToSection).toHaveBeenCalledWith('resume', {}, { updateHistory: false });
+
+    act(() => {
+      window.history.replaceState(null, '', '/');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    expect(result.current).toBe(sections[0]);
+    expect(transitionToSection).toHaveBeenLastCalledWith('hero', {}, { updateHistory: false });
+  });
+
+  it('follows the section in view without adding history entries', async () => {
+    jest.spyOn(SmartScrolling, 'getCurrentSection').mockReturnValue('resume');
+    window.history.replaceState(null, '', '/?variant=frontend');
+    const pushState = jest.spyOn(window.history, 'pushState');
+    const { result } = renderHook(() => useSectionHistory(sections));
+
+    act(() => {
+      window.dispatchEvent(new Event('scroll'));
+    });
+    await flushAnimationFrames();
+
+    expect(result.current).toBe(sections[1]);
+    expect(window.location.search).toBe('?variant=frontend');
+    expect(window.location.hash).toBe('#resume');
+    expect(pushState).not.toHaveBeenCalled();
+  });
+
+  it('lets animated scrolls finish before following the section in view', async () => {
+    jest.spyOn(SmartScrolling, 'isCurrentlyScrolling', 'get').mockReturnValue(true);
+    jest.spyOn(SmartScrolling, 'getCurrentSection').mockReturnValue('resume');
+    const { result } = renderHook(() => useSectionHistory(sections));
+
+    act(() => {
+      window.dispatchEvent(new Event('scroll'));
+    });
+    await flushAnimationFrames();
+
+    expect(result.current).toBeUndefined();
+    expect(window.location.hash).toBe('');
+  });
+
+  it('restores scroll restoration on unmount', () => {
+    window.history.scrollRestoration = 'auto';
+    const { unmount } = renderHook(() => useSectionHistory(sections));
+    expect(window.history.scrollRestoration).toBe('manual');
+
+    unmount();
+    expect(window.history.scrollRestoration).toBe('auto');
+  });
+});
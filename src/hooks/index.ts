@@ -2,4 +2,7 @@ export * from './useSEO';
 export * from './useScrollAnimation';
 export * from './useUserPreferences';
 export * from './useMobileSpacing';
-export * from './useSafariNavigation';
\ No newline at end of file
+export * from './useSafariNavigation';
+export * from './usePrintMode';
+export * from './useHydrated';
+export * from './useSectionHistory';
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = () => () => {};
+
+/**
+ * Hook that reports whether the app has taken over the prerendered page
+ * False while prerendering and during hydration, true from the render after;
+ * values that depend on the visitor (query string, locale, clock, storage)
+ * should only be read once it is true, so the first client render matches
+ * the prerendered markup
+ */
+export const useHydrated = (): boolean =>
+  useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false
+  );
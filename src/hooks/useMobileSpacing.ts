@@ -16,7 +16,8 @@ export const useMobileSpacing = (): MobileSpacingState => {
     isMobile: false,
     isBackToTopVisible: false,
     safeBottomPadding: 'var(--spacing-4xl)', // Default 96px
-    viewportHeight: window.innerHeight,
+    // Measured in the effect below when prerendering, where there is no window
+    viewportHeight: typeof window === 'undefined' ? 0 : window.innerHeight,
   });
 
   useEffect(() => {
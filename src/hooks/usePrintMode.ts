@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { flushSync } from 'react-dom';
+
+/**
+ * Hook that reports whether the page is being printed
+ * Listens for beforeprint/afterprint and the print media query, so
+ * components can render their print layout (e.g. expand every card)
+ */
+export const usePrintMode = (): boolean => {
+  const [isPrinting, setIsPrinting] = useState(
+    () =>
+      typeof window !== 'undefined' &&
+      (window.matchMedia?.('print').matches ?? false)
+  );
+
+  useEffect(() => {
+    // The browser lays out the printout as soon as the beforeprint handlers
+    // return, so the print layout has to be committed synchronously
+    const update = (printing: boolean) =>
+      flushSync(() => setIsPrinting(printing));
+    const handleBeforePrint = () => update(true);
+    const handleAfterPrint = () => update(false);
+    // Some browsers only report printing through the media query
+    const mediaQuery = window.matchMedia?.('print');
+    const handleChange = (event: MediaQueryListEvent) => update(event.matches);
+
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    mediaQuery?.addEventListener('change', handleChange);
+
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+      mediaQuery?.removeEventListener('change', handleChange);
+    };
+  }, []);
+
+  return isPrinting;
+};
@@ -1,14 +1,35 @@
 import { useEffect } from 'react';
-import { updateMetaTags, SEOConfig, defaultSEOConfig } from '../utils/seo';
+import { resumeData } from '../data/resumeData';
+import { getRequestedVariant } from '../utils/resumeVariants';
+import {
+  updateMetaTags,
+  SEOConfig,
+  defaultSEOConfig,
+  generatePersonStructuredData,
+  getVariantSEOConfig,
+  injectStructuredData,
+} from '../utils/seo';
 
 /**
- * Custom hook for managing SEO meta tags
+ * Custom hook for managing SEO meta tags and structured data
+ * A tailored resume (?variant=frontend) is canonical at its share page
+ * (/frontend/) and shares its own Open Graph card
  */
 export const useSEO = (config?: Partial<SEOConfig>): void => {
   useEffect(() => {
-    const seoConfig = { ...defaultSEOConfig, ...config };
+    const variant = getRequestedVariant(resumeData);
+    const seoConfig = {
+      ...defaultSEOConfig,
+      ...getVariantSEOConfig(variant?.id),
+      ...config,
+    };
     updateMetaTags(seoConfig);
   }, [config]);
+
+  // Structured data always describes the current resume data
+  useEffect(() => {
+    injectStructuredData(generatePersonStructuredData(resumeData));
+  }, []);
 };
 
 /**
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NavigationItem } from '../types/navigation';
+import { SmartScrolling } from '../utils/smartScrolling';
+
+const getHashSection = (sections: NavigationItem[]): NavigationItem | undefined => {
+  const id = decodeURIComponent(window.location.hash.slice(1));
+  return sections.find((section) => section.id === id);
+};
+
+/**
+ * Resolves once the element exists; the sections are lazy-loaded, so a deep
+ * link can point at one that has not mounted yet
+ */
+const waitForElement = (id: string, signal: AbortSignal): Promise<HTMLElement | null> =>
+  new Promise((resolve) => {
+    const existing = document.getElementById(id);
+    if (existing) {
+      resolve(existing);
+      return;
+    }
+
+    const observer = new MutationObserver(() => {
+      const element = document.getElementById(id);
+      if (element) {
+        observer.disconnect();
+        resolve(element);
+      }
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    signal.addEventListener('abort', () => {
+      observer.disconnect();
+      resolve(null);
+    });
+  });
+
+/**
+ * Hook that ties the page's sections to the address bar
+ * - The hash follows the section in view as the visitor scrolls
+ * - Back and forward scroll to the section the entry points at
+ * - A deep link such as /#contact scrolls to its section once it mounts
+ * Returns the section in view, or undefined until the visitor leaves the
+ * top of the page or arrives through a deep link
+ */
+export const useSectionHistory = (
+  sections: NavigationItem[]
+): NavigationItem | undefined => {
+  const [activeSection, setActiveSection] = useState<NavigationItem | undefined>(
+    () => (typeof window === 'undefined' ? undefined : getHashSection(sections))
+  );
+  const activeSectionRef = useRef(activeSection);
+
+  const activate = useCallback((section: NavigationItem) => {
+    activeSectionRef.current = section;
+    setActiveSection(section);
+  }, []);
+
+  // Deep link: the browser can't jump to a section that isn't rendered yet
+  useEffect(() => {
+    const target = getHashSection(sections);
+    if (!target) return;
+
+    const controller = new AbortController();
+    waitForElement(target.id, controller.signal).then((element) => {
+      if (element) {
+        // Let the sections above it lay out before measuring
+        requestAnimationFrame(() => SmartScrolling.scrollToElement(target.id));
+      }
+    });
+
+    return () => controller.abort();
+  }, [sections]);
+
+  // Back and forward move between sections
+  useEffect(() => {
+    const { scrollRestoration } = window.history;
+    // The browser would otherwise restore the old scroll position first
+    window.history.scrollRestoration = 'manual';
+
+    const handlePopState = () => {
+      const section = getHashSection(sections) ?? sections[0];
+      if (!section) return;
+
+      activate(section);
+      SmartScrolling.transitionToSection(section.id, {}, { updateHistory: false });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.history.scrollRestoration = scrollRestoration;
+    };
+  }, [sections, activate]);
+
+  // The hash follows the section in view, without adding history entries
+  useEffect(() => {
+    let frame: number | null = null;
+
+    const updateActiveSection = () => {
+      frame = null;
+      // Animated scrolls record their own history entry when they finish
+      if (SmartScrolling.isCurrentlyScrolling) return;
+
+      const id = SmartScrolling.getCurrentSection(
+        sections.map((section) => section.id),
+        activeSectionRef.current?.id
+      );
+      const section = sections.find((candidate) => candidate.id === id);
+      if (!section || section === activeSectionRef.current) return;
+
+      const { pathname, search } = window.location;
+      window.history.replaceState(
+        { ...window.history.state, section: section.id },
+        '',
+        `${pathname}${search}#${section.id}`
+      );
+      activate(section);
+    };
+
+    const handleScroll = () => {
+      if (frame === null) {
+        frame = requestAnimationFrame(updateActiveSection);
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [sections, activate]);
+
+  return activeSection;
+};
@@ -0,0 +1,86 @@
+import { act } from 'react-dom/test-utils';
+import { hydrateRoot, Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { screen, waitFor } from '@testing-library/react';
+import App from './App';
+import { COVER_LETTER_STORAGE_KEY } from './utils/coverLetter';
+
+// A responsibility the frontend variant leaves out
+const FULL_STACK_ONLY =
+  'Architected and maintained scalable web applications for global scientific publishing platform';
+
+/**
+ * Renders the page the way scripts/prerender.ts does, once every lazy
+ * section has loaded
+ */
+const prerender = async (): Promise<string> => {
+  // jsdom has a window, so MUI picks useLayoutEffect even on the server and
+  // React warns about it; the real prerender runs without one
+  const consoleError = jest
+    .spyOn(console, 'error')
+    .mockImplementation(() => undefined);
+  try {
+    renderToString(<App />);
+    // Let the lazy sections' imports settle before rendering them in full
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    return renderToString(<App />);
+  } finally {
+    consoleError.mockRestore();
+  }
+};
+
+describe('hydrating the prerendered page', () => {
+  let container: HTMLDivElement;
+  let root: Root | undefined;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = undefined;
+    container.remove();
+    window.history.replaceState(null, '', '/');
+    localStorage.clear();
+  });
+
+  test('matches the first client render for a visitor on a variant link', async () => {
+    // The prerendered page has no query string and knows nothing of the visitor
+    container.innerHTML = await prerender();
+    expect(container.textContent).toContain(FULL_STACK_ONLY);
+
+    window.history.replaceState(null, '', '/?variant=frontend');
+    const savedDraft = JSON.stringify({
+      company: 'Acme',
+      role: 'Frontend Engineer',
+      hiringManager: '',
+      highlightIds: [],
+    });
+    localStorage.setItem(COVER_LETTER_STORAGE_KEY, savedDraft);
+    const recoverableErrors: unknown[] = [];
+    const consoleError = jest.spyOn(console, 'error');
+
+    await act(async () => {
+      root = hydrateRoot(container, <App />, {
+        onRecoverableError: (error) => recoverableErrors.push(error),
+      });
+    });
+
+    // The variant applies once the page has hydrated
+    await waitFor(() =>
+      expect(screen.queryByText(FULL_STACK_ONLY)).not.toBeInTheDocument()
+    );
+    expect(recoverableErrors).toEqual([]);
+    // The saved cover letter draft survives the empty one rendered first
+    expect(localStorage.getItem(COVER_LETTER_STORAGE_KEY)).toBe(savedDraft);
+    expect(
+      consoleError.mock.calls.filter((args) =>
+        /did not match|hydrat/i.test(args.map(String).join(' '))
+      )
+    ).toEqual([]);
+
+    consoleError.mockRestore();
+  }, 30000);
+});
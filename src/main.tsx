@@ -16,8 +16,17 @@ if ('serviceWorker' in navigator && import.meta.env.PROD) {
   });
 }
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!;
+const app = (
   <React.StrictMode>
     <App />
   </React.StrictMode>
 );
+
+// Production builds ship the page prerendered by scripts/prerender.ts;
+// hydrate that markup instead of replacing it
+if (root.firstElementChild) {
+  ReactDOM.hydrateRoot(root, app);
+} else {
+  ReactDOM.createRoot(root).render(app);
+}
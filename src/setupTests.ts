@@ -1,4 +1,8 @@
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom lacks TextEncoder/TextDecoder, which jsPDF needs to build documents
+Object.assign(global, { TextEncoder, TextDecoder });
 
 // Configure React Testing Library to automatically wrap state updates in act()
 (global as any).IS_REACT_ACT_ENVIRONMENT = true;
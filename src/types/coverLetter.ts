@@ -0,0 +1,41 @@
+import { ResumeDocumentHeader } from './resumeDocument';
+
+// Cover letter drafted from the resume: what the visitor fills in, and the
+// structured letter the PDF and plain-text renderers consume.
+
+// A responsibility that can be quoted in the letter
+export interface CoverLetterHighlight {
+  // '<experience id>:<responsibility index>'
+  id: string;
+  experienceId: string;
+  company: string;
+  position: string;
+  text: string;
+}
+
+export interface CoverLetterDraft {
+  company: string;
+  role: string;
+  // The letter is addressed to the hiring team when empty
+  hiringManager: string;
+  highlightIds: string[];
+}
+
+export interface CoverLetterDocument {
+  // BCP 47 language tag the letter is written in, e.g. 'en-US'
+  language: string;
+  // Locale its date is formatted for, e.g. 'en-GB'
+  locale: string;
+  header: ResumeDocumentHeader;
+  company: string;
+  role: string;
+  date: string;
+  recipient: string[];
+  salutation: string;
+  // Paragraphs before the highlights, and the line introducing them
+  opening: string[];
+  highlights: string[];
+  closing: string[];
+  signOff: string;
+  signature: string;
+}
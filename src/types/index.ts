@@ -8,14 +8,29 @@ export interface PersonalInfo {
   summary: string;
 }
 
+// Month is 1-12; omit it for year-only dates such as graduation years
+export interface ResumeDate {
+  year: number;
+  month?: number;
+}
+
+// A responsibility is plain text, or text tagged for resume variants
+export interface TaggedResponsibility {
+  text: string;
+  tags: string[];
+}
+
+export type Responsibility = string | TaggedResponsibility;
+
 export interface Experience {
   id: string;
   company: string;
   position: string;
-  startDate: string;
-  endDate: string | 'present';
-  responsibilities: string[];
+  startDate: ResumeDate;
+  endDate: ResumeDate | 'present';
+  responsibilities: Responsibility[];
   technologies: string[];
+  tags?: string[];
 }
 
 export interface Education {
@@ -23,7 +38,8 @@ export interface Education {
   institution: string;
   degree: string;
   field: string;
-  graduationDate: string;
+  startDate?: ResumeDate;
+  graduationDate: ResumeDate;
 }
 
 export interface Skill {
@@ -31,13 +47,85 @@ export interface Skill {
   name: string;
   category: 'frontend' | 'backend' | 'tools' | 'methodologies' | 'other';
   proficiency: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+  // Other names the skill appears under in Experience.technologies
+  aliases?: string[];
+  tags?: string[];
+}
+
+export interface ProjectLink {
+  label: string;
+  url: string;
+}
+
+export interface ProjectImage {
+  src: string;
+  alt: string;
+}
+
+export interface Project {
+  id: string;
+  title: string;
+  summary: string;
+  role: string;
+  highlights: string[];
+  technologies: string[];
+  links: ProjectLink[];
+  images: ProjectImage[];
+  startDate?: ResumeDate;
+  endDate?: ResumeDate | 'present';
+}
+
+export interface Certification {
+  id: string;
+  name: string;
+  issuer: string;
+  date: ResumeDate;
+  // Omit for credentials that do not expire
+  expiryDate?: ResumeDate;
+  credentialUrl?: string;
+}
+
+export interface Publication {
+  id: string;
+  title: string;
+  publisher: string;
+  date: ResumeDate;
+  url?: string;
+  summary?: string;
+}
+
+export interface Award {
+  id: string;
+  title: string;
+  awarder: string;
+  date: ResumeDate;
+  summary?: string;
+}
+
+// A tailored view of the resume, selected with ?variant=<id>. Tagged entries
+// are kept only when they share a tag with the variant; untagged entries are
+// always kept.
+export interface ResumeVariant {
+  id: string;
+  label: string;
+  tags: string[];
+  // Replaces personalInfo.title / summary for this variant
+  title?: string;
+  summary?: string;
 }
 
 export interface ResumeData {
+  // Day the content last changed, as YYYY-MM-DD; dates the sitemap entries
+  updated: string;
   personalInfo: PersonalInfo;
   experience: Experience[];
   education: Education[];
   skills: Skill[];
+  projects: Project[];
+  certifications?: Certification[];
+  publications?: Publication[];
+  awards?: Award[];
+  variants?: ResumeVariant[];
 }
 
 export interface ContactMethod {
@@ -84,9 +172,18 @@ export interface HeroProps {
 // Export animation types
 export * from './animation';
 
-// Export theme types  
+// Export theme types
 export * from './theme';
 
+// Export JSON Resume interchange types
+export * from './jsonResume';
+
+// Export the renderer-agnostic resume document model
+export * from './resumeDocument';
+
+// Export the cover letter draft and document model
+export * from './coverLetter';
+
 // Export modern navigation types (excluding conflicting types)
 export type {
   ModernNavigationProps,
@@ -100,7 +197,7 @@ export type {
   NavigationConfig,
   FaviconConfig,
   FaviconGeneration,
-  ModernNavigationTheme
+  ModernNavigationTheme,
 } from './navigation';
 
 // Re-export NavigationItem from navigation (it's more complete)
@@ -0,0 +1,128 @@
+// JSON Resume schema types (https://jsonresume.org/schema)
+// Only the sections the portfolio reads or writes are modelled here.
+
+export interface JSONResumeProfile {
+  network: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JSONResumeBasics {
+  name: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  profiles?: JSONResumeProfile[];
+}
+
+export interface JSONResumeWork {
+  // Non-standard: preserves the portfolio's stable ids across round trips
+  id?: string;
+  name: string;
+  position: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+  // Non-standard: technologies used in the role
+  keywords?: string[];
+  // Non-standard: resume variant tags for the role and for each highlight
+  tags?: string[];
+  highlightTags?: string[][];
+}
+
+export interface JSONResumeEducation {
+  id?: string;
+  institution: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface JSONResumeSkill {
+  id?: string;
+  name: string;
+  level?: string;
+  keywords?: string[];
+  // Non-standard: the portfolio's skill category (frontend, backend, ...);
+  // keywords stays free for sub-skills
+  category?: string;
+  // Non-standard: alternative names used when matching work keywords
+  aliases?: string[];
+  // Non-standard: resume variant tags
+  tags?: string[];
+}
+
+export interface JSONResumeProject {
+  id?: string;
+  name: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  roles?: string[];
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  // Non-standard: additional links and screenshots shown on the portfolio
+  links?: { label: string; url: string }[];
+  images?: { src: string; alt: string }[];
+}
+
+export interface JSONResumeCertificate {
+  id?: string;
+  name: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+  // Non-standard: when the credential lapses
+  expiryDate?: string;
+}
+
+export interface JSONResumePublication {
+  id?: string;
+  name: string;
+  publisher?: string;
+  releaseDate?: string;
+  url?: string;
+  summary?: string;
+}
+
+export interface JSONResumeAward {
+  id?: string;
+  title: string;
+  date?: string;
+  awarder?: string;
+  summary?: string;
+}
+
+// JSON Resume reserves meta for tooling; the portfolio keeps its resume
+// variants here, next to the standard lastModified
+export interface JSONResumeMeta {
+  lastModified?: string;
+  variants?: {
+    id: string;
+    label: string;
+    tags: string[];
+    title?: string;
+    summary?: string;
+  }[];
+}
+
+export interface JSONResume {
+  $schema?: string;
+  basics: JSONResumeBasics;
+  work?: JSONResumeWork[];
+  education?: JSONResumeEducation[];
+  skills?: JSONResumeSkill[];
+  projects?: JSONResumeProject[];
+  certificates?: JSONResumeCertificate[];
+  publications?: JSONResumePublication[];
+  awards?: JSONResumeAward[];
+  meta?: JSONResumeMeta;
+}
@@ -0,0 +1,66 @@
+// Intermediate resume document shared by the PDF, HTML and plain-text
+// renderers. Built once from ResumeData so every output has the same
+// sections, headings and content in the same order.
+
+export interface ResumeDocumentLink {
+  label: string;
+  url: string;
+}
+
+export interface ResumeDocumentHeader {
+  name: string;
+  title: string;
+  contacts: ResumeDocumentLink[];
+  // Interactive version of the resume, printed as a QR code
+  url?: string;
+}
+
+export interface ResumeDocumentEntry {
+  id: string;
+  title: string;
+  subtitle: string;
+  date?: string;
+  summary?: string;
+  bullets: string[];
+  technologies: string[];
+  links: ResumeDocumentLink[];
+}
+
+export interface ResumeDocumentSkillGroup {
+  label: string;
+  skills: string[];
+}
+
+interface ResumeDocumentSectionBase {
+  id: string;
+  heading: string;
+}
+
+export interface ResumeDocumentSummarySection extends ResumeDocumentSectionBase {
+  kind: 'summary';
+  text: string;
+}
+
+export interface ResumeDocumentEntriesSection extends ResumeDocumentSectionBase {
+  kind: 'entries';
+  entries: ResumeDocumentEntry[];
+}
+
+export interface ResumeDocumentSkillsSection extends ResumeDocumentSectionBase {
+  kind: 'skills';
+  groups: ResumeDocumentSkillGroup[];
+}
+
+export type ResumeDocumentSection =
+  | ResumeDocumentSummarySection
+  | ResumeDocumentEntriesSection
+  | ResumeDocumentSkillsSection;
+
+export interface ResumeDocument {
+  // BCP 47 language tag the document is written in, e.g. 'en-US'
+  language: string;
+  // Locale its dates and numbers are formatted for, e.g. 'en-GB'
+  locale: string;
+  header: ResumeDocumentHeader;
+  sections: ResumeDocumentSection[];
+}
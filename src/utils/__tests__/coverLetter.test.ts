@@ -0,0 +1,185 @@
+import { CoverLetterDraft, ResumeData } from '../../types';
+import {
+  buildCoverLetter,
+  COVER_LETTER_STORAGE_KEY,
+  EMPTY_COVER_LETTER_DRAFT,
+  getCoverLetterFileName,
+  getCoverLetterHighlights,
+  loadCoverLetterDraft,
+  renderCoverLetterText,
+  saveCoverLetterDraft,
+} from '../coverLetter';
+
+const data: ResumeData = {
+  updated: '2024-05-31',
+  personalInfo: {
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    email: 'ada@example.com',
+    linkedin: 'linkedin.com/in/ada',
+    summary: 'Writes careful programs.',
+  },
+  experience: [
+    {
+      id: 'engines',
+      company: 'Analytical Engines',
+      position: 'Engineer',
+      startDate: { year: 2014, month: 1 },
+      endDate: 'present',
+      responsibilities: [
+        'Wrote the first program',
+        { text: 'Annotated the translation', tags: ['writing'] },
+      ],
+      technologies: [],
+    },
+    {
+      id: 'looms',
+      company: 'Jacquard Looms',
+      position: 'Apprentice',
+      startDate: { year: 2012, month: 1 },
+      endDate: { year: 2013, month: 12 },
+      responsibilities: ['Studied punched cards'],
+      technologies: [],
+    },
+  ],
+  education: [],
+  skills: [],
+  projects: [],
+};
+
+const draft: CoverLetterDraft = {
+  company: 'Acme Corp',
+  role: 'Staff Engineer',
+  hiringManager: 'Grace Hopper',
+  highlightIds: ['looms:0', 'engines:1'],
+};
+
+const date = new Date(Date.UTC(2024, 0, 31, 12));
+
+describe('getCoverLetterHighlights', () => {
+  it('lists every responsibility with its role, in resume order', () => {
+    expect(getCoverLetterHighlights(data)).toEqual([
+      {
+        id: 'engines:0',
+        experienceId: 'engines',
+        company: 'Analytical Engines',
+        position: 'Engineer',
+        text: 'Wrote the first program',
+      },
+      {
+        id: 'engines:1',
+        experienceId: 'engines',
+        company: 'Analytical Engines',
+        position: 'Engineer',
+        text: 'Annotated the translation',
+      },
+      {
+        id: 'looms:0',
+        experienceId: 'looms',
+        company: 'Jacquard Looms',
+        position: 'Apprentice',
+        text: 'Studied punched cards',
+      },
+    ]);
+  });
+});
+
+describe('buildCoverLetter', () => {
+  it('fills the template from the draft and resume', () => {
+    const letter = buildCoverLetter(data, draft, { locale: 'en-GB', date });
+
+    expect(letter.header.name).toBe('Ada Lovelace');
+    expect(letter.language).toBe('en-GB');
+    expect(letter.date).toBe('31 January 2024');
+    expect(letter.recipient).toEqual(['Grace Hopper', 'Acme Corp']);
+    expect(letter.salutation).toBe('Dear Grace Hopper,');
+    expect(letter.opening[0]).toBe(
+      'I am writing to apply for the Staff Engineer position at Acme Corp. I am an Engineer with 12 years of professional experience.'
+    );
+    expect(letter.opening).toContain('Writes careful programs.');
+    expect(letter.closing[0]).toContain('contribute to Acme Corp');
+    expect(letter.signature).toBe('Ada Lovelace');
+  });
+
+  it('quotes selected highlights in resume order, skipping unknown ids', () => {
+    const letter = buildCoverLetter(
+      data,
+      { ...draft, highlightIds: [...draft.highlightIds, 'gone:3'] },
+      { date }
+    );
+
+    expect(letter.highlights).toEqual([
+      'Annotated the translation (Analytical Engines)',
+      'Studied punched cards (Jacquard Looms)',
+    ]);
+  });
+
+  it('addresses the hiring team when no hiring manager is given', () => {
+    const letter = buildCoverLetter(
+      data,
+      { ...draft, hiringManager: '  ', highlightIds: [] },
+      { date }
+    );
+
+    expect(letter.recipient).toEqual(['Hiring Team', 'Acme Corp']);
+    expect(letter.salutation).toBe('Dear Acme Corp Hiring Team,');
+    expect(letter.highlights).toEqual([]);
+    expect(letter.opening).toHaveLength(2);
+  });
+});
+
+describe('renderCoverLetterText', () => {
+  it('renders the header, letter and hyphen bullets as plain text', () => {
+    const text = renderCoverLetterText(
+      buildCoverLetter(data, draft, { locale: 'en-US', date })
+    );
+
+    expect(text.startsWith('ADA LOVELACE\nEngineer\nada@example.com\n')).toBe(
+      true
+    );
+    expect(text).toContain(
+      'January 31, 2024\n\nGrace Hopper\nAcme Corp\n\nDear Grace Hopper,'
+    );
+    expect(text).toContain(
+      '- Annotated the translation (Analytical Engines)\n- Studied punched cards (Jacquard Looms)'
+    );
+    expect(text.endsWith('Sincerely,\nAda Lovelace\n')).toBe(true);
+    expect(text).not.toMatch(/[•\t]/);
+  });
+});
+
+describe('getCoverLetterFileName', () => {
+  it('names the file after the sender and company', () => {
+    const letter = buildCoverLetter(data, draft, { date });
+
+    expect(getCoverLetterFileName(letter, 'pdf')).toBe(
+      'Ada_Lovelace_Cover_Letter_Acme_Corp.pdf'
+    );
+    expect(getCoverLetterFileName({ ...letter, company: '' }, 'txt')).toBe(
+      'Ada_Lovelace_Cover_Letter.txt'
+    );
+  });
+});
+
+describe('cover letter drafts', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('saves and restores a draft', () => {
+    saveCoverLetterDraft(draft);
+
+    expect(loadCoverLetterDraft()).toEqual(draft);
+  });
+
+  it('starts empty when nothing valid is saved', () => {
+    expect(loadCoverLetterDraft()).toEqual(EMPTY_COVER_LETTER_DRAFT);
+
+    localStorage.setItem(COVER_LETTER_STORAGE_KEY, '{not json');
+    expect(loadCoverLetterDraft()).toEqual(EMPTY_COVER_LETTER_DRAFT);
+
+    localStorage.setItem(
+      COVER_LETTER_STORAGE_KEY,
+      JSON.stringify({ company: 'Acme Corp' })
+    );
+    expect(loadCoverLetterDraft()).toEqual(EMPTY_COVER_LETTER_DRAFT);
+  });
+});
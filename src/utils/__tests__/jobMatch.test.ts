@@ -0,0 +1,143 @@
+import { Experience, Skill } from '../../types';
+import {
+  analyzeJobMatch,
+  extractJobKeywords,
+  splitByKeywords,
+} from '../jobMatch';
+
+const skills: Skill[] = [
+  { id: 'react', name: 'React', category: 'frontend', proficiency: 'expert' },
+  {
+    id: 'nodejs',
+    name: 'Node.js',
+    category: 'backend',
+    proficiency: 'intermediate',
+  },
+  {
+    id: 'testing-library',
+    name: 'React Testing Library',
+    category: 'tools',
+    proficiency: 'advanced',
+    aliases: ['Testing Library', 'RTL'],
+  },
+];
+
+const experience: Experience[] = [
+  {
+    id: 'current',
+    company: 'Current Co',
+    position: 'Senior Engineer',
+    startDate: { year: 2022, month: 4 },
+    endDate: 'present',
+    responsibilities: [
+      'Led web accessibility audits across the product',
+      { text: 'Mentored engineers on code review', tags: ['leadership'] },
+    ],
+    technologies: ['React', 'Testing Library', 'Storybook'],
+  },
+  {
+    id: 'previous',
+    company: 'Previous Co',
+    position: 'Engineer',
+    startDate: { year: 2017, month: 6 },
+    endDate: { year: 2022, month: 3 },
+    responsibilities: ['Built APIs'],
+    technologies: ['NodeJS'],
+  },
+];
+
+const resume = { experience, skills };
+
+const DESCRIPTION = `Senior Frontend Engineer
+We are looking for an engineer with strong React and React Testing Library
+skills. You will build APIs in Node.js and deploy them to AWS with Kubernetes.
+- Champion accessibility: accessibility reviews are part of every release
+- Experience with NodeJS, GraphQL and Storybook is a plus`;
+
+describe('job match', () => {
+  test('extracts known phrases and technical terms, most frequent first', () => {
+    const terms = extractJobKeywords(DESCRIPTION, resume);
+
+    expect(terms[0]).toEqual({ term: 'Node.js', count: 2 });
+    expect(terms.map(({ term }) => term)).toEqual(
+      expect.arrayContaining([
+        'React',
+        'React Testing Library',
+        'APIs',
+        'AWS',
+        'Kubernetes',
+        'accessibility',
+        'GraphQL',
+        'Storybook',
+      ])
+    );
+  });
+
+  test('leaves out stop words and job-posting boilerplate', () => {
+    const terms = extractJobKeywords(DESCRIPTION, resume).map(({ term }) =>
+      term.toLowerCase()
+    );
+
+    ['we', 'senior', 'engineer', 'experience', 'skills', 'strong'].forEach(
+      (word) => expect(terms).not.toContain(word)
+    );
+  });
+
+  test('matches keywords against skills, technologies and responsibilities', () => {
+    const match = analyzeJobMatch(DESCRIPTION, resume);
+    const find = (term: string) =>
+      match.keywords.find((keyword) => keyword.term === term);
+
+    expect(find('Node.js')).toMatchObject({
+      matched: true,
+      skillIds: ['nodejs'],
+      experienceIds: ['previous'],
+    });
+    expect(find('React Testing Library')).toMatchObject({
+      skillIds: ['testing-library'],
+      experienceIds: ['current'],
+    });
+    // Only named in a responsibility, and only in the plural there
+    expect(find('accessibility')).toMatchObject({
+      matched: true,
+      skillIds: [],
+      experienceIds: ['current'],
+    });
+    expect(find('APIs')).toMatchObject({ experienceIds: ['previous'] });
+    expect(match.missing.map(({ term }) => term)).toEqual(
+      expect.arrayContaining(['AWS', 'Kubernetes', 'GraphQL'])
+    );
+    expect(match.technologies).toEqual(
+      expect.arrayContaining(['React', 'Testing Library', 'NodeJS'])
+    );
+  });
+
+  test('scores coverage as the share of matched keywords', () => {
+    const match = analyzeJobMatch(DESCRIPTION, resume);
+
+    expect(match.score).toBe(
+      Math.round((match.matched.length / match.keywords.length) * 100)
+    );
+    expect(match.matched.length + match.missing.length).toBe(
+      match.keywords.length
+    );
+    expect(analyzeJobMatch('', resume).score).toBe(0);
+  });
+
+  test('splits text around matched keywords for highlighting', () => {
+    const { keywords } = analyzeJobMatch(DESCRIPTION, resume);
+
+    expect(
+      splitByKeywords('Built React apps with accessibility in mind', keywords)
+    ).toEqual([
+      { text: 'Built ', matched: false },
+      { text: 'React', matched: true },
+      { text: ' apps with ', matched: false },
+      { text: 'accessibility', matched: true },
+      { text: ' in mind', matched: false },
+    ]);
+    expect(splitByKeywords('Deployed to AWS', keywords)).toEqual([
+      { text: 'Deployed to AWS', matched: false },
+    ]);
+  });
+});
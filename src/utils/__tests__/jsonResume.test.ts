@@ -0,0 +1,198 @@
+import { resumeData } from '../../data/resumeData';
+import { JSONResume } from '../../types';
+import { fromJSONResume, toJSONResume } from '../jsonResume';
+
+// Documents written by other tools have no meta.lastModified
+const IMPORT_OPTIONS = { updated: '2024-05-31' };
+
+describe('JSON Resume conversion', () => {
+  describe('toJSONResume', () => {
+    const json = toJSONResume(resumeData);
+
+    test('maps personal info to basics with a LinkedIn profile', () => {
+      expect(json.basics.name).toBe(resumeData.personalInfo.name);
+      expect(json.basics.label).toBe(resumeData.personalInfo.title);
+      expect(json.basics.profiles).toEqual([
+        {
+          network: 'LinkedIn',
+          username: 'robert-samalonis-4a092a137',
+          url: 'https://linkedin.com/in/robert-samalonis-4a092a137',
+        },
+      ]);
+    });
+
+    test('omits endDate for current roles', () => {
+      const current = json.work?.find((work) => work.id === 'emoney-2022');
+      expect(current?.startDate).toBe('2022-04');
+      expect(current).not.toHaveProperty('endDate');
+    });
+
+    test('keeps skill categories out of the keywords list', () => {
+      const react = json.skills?.find((skill) => skill.id === 'react');
+      expect(react).toMatchObject({
+        name: 'React',
+        level: 'expert',
+        category: 'frontend',
+      });
+      expect(react).not.toHaveProperty('keywords');
+    });
+
+    test('splits education date ranges into start and end dates', () => {
+      expect(json.education?.[0]).toMatchObject({
+        institution: 'Temple University',
+        studyType: `Bachelor's Degree`,
+        area: 'Computer Science',
+        startDate: '2013',
+        endDate: '2017',
+      });
+    });
+  });
+
+  describe('fromJSONResume', () => {
+    test('round-trips the portfolio resume data without loss', () => {
+      expect(fromJSONResume(toJSONResume(resumeData))).toEqual(resumeData);
+    });
+
+    test('round-trips certifications, publications and awards', () => {
+      const data = {
+        ...resumeData,
+        certifications: [
+          {
+            id: 'cpacc',
+            name: 'CPACC',
+            issuer: 'IAAP',
+            date: { year: 2023, month: 5 },
+            expiryDate: { year: 2026, month: 5 },
+            credentialUrl: 'https://example.com/credentials/cpacc',
+          },
+        ],
+        publications: [
+          {
+            id: 'accessible-charts',
+            title: 'Accessible Charts',
+            publisher: 'Smashing Magazine',
+            date: { year: 2024, month: 2 },
+            url: 'https://example.com/accessible-charts',
+          },
+        ],
+        awards: [
+          {
+            id: 'hackathon-winner',
+            title: 'Hackathon Winner',
+            awarder: 'eMoney Advisor',
+            date: { year: 2021 },
+          },
+        ],
+      };
+
+      const json = toJSONResume(data);
+
+      expect(json.certificates?.[0]).toMatchObject({
+        name: 'CPACC',
+        issuer: 'IAAP',
+        date: '2023-05',
+        url: 'https://example.com/credentials/cpacc',
+      });
+      expect(json.publications?.[0].releaseDate).toBe('2024-02');
+      expect(fromJSONResume(json)).toEqual(data);
+    });
+
+    test('fills defaults for documents written by other tools', () => {
+      const external: JSONResume = {
+        basics: {
+          name: 'Ada Lovelace',
+          profiles: [{ network: 'LinkedIn', username: 'ada' }],
+        },
+        work: [
+          {
+            name: 'Analytical Engines Ltd',
+            position: 'Programmer',
+            startDate: '1842-09-01',
+            summary: 'Wrote the first published algorithm',
+          },
+        ],
+        skills: [{ name: 'Mathematics', level: 'Master' }],
+      };
+
+      const data = fromJSONResume(external, IMPORT_OPTIONS);
+
+      expect(data.personalInfo.linkedin).toBe('linkedin.com/in/ada');
+      expect(data.experience[0]).toEqual({
+        id: 'analytical-engines-ltd-1842',
+        company: 'Analytical Engines Ltd',
+        position: 'Programmer',
+        startDate: { year: 1842, month: 9 },
+        endDate: 'present',
+        responsibilities: ['Wrote the first published algorithm'],
+        technologies: [],
+      });
+      expect(data.skills[0]).toEqual({
+        id: 'mathematics',
+        name: 'Mathematics',
+        category: 'other',
+        proficiency: 'intermediate',
+      });
+      expect(data.education).toEqual([]);
+    });
+
+    test('maps external projects and treats open-ended ones as current', () => {
+      const data = fromJSONResume(
+        {
+          basics: { name: 'Ada Lovelace' },
+          projects: [
+            {
+              name: 'Note G',
+              description: 'Bernoulli number program',
+              roles: ['Author', 'Translator'],
+              url: 'https://example.com/note-g',
+              startDate: '1842-10',
+            },
+          ],
+        },
+        IMPORT_OPTIONS
+      );
+
+      expect(data.projects).toEqual([
+        {
+          id: 'note-g',
+          title: 'Note G',
+          summary: 'Bernoulli number program',
+          role: 'Author, Translator',
+          highlights: [],
+          technologies: [],
+          links: [
+            { label: 'Project Website', url: 'https://example.com/note-g' },
+          ],
+          images: [],
+          startDate: { year: 1842, month: 10 },
+          endDate: 'present',
+        },
+      ]);
+    });
+
+    test('rejects work entries without a start date', () => {
+      expect(() =>
+        fromJSONResume(
+          {
+            basics: { name: 'Ada Lovelace' },
+            work: [{ name: 'Analytical Engines Ltd', position: 'Programmer' }],
+          },
+          IMPORT_OPTIONS
+        )
+      ).toThrow('work[0].startDate');
+    });
+
+    test('dates the data from meta.lastModified, else the given day', () => {
+      const resume: JSONResume = { basics: { name: 'Ada Lovelace' } };
+
+      expect(
+        fromJSONResume(
+          { ...resume, meta: { lastModified: '2024-06-01T09:30:00Z' } },
+          IMPORT_OPTIONS
+        ).updated
+      ).toBe('2024-06-01');
+      expect(fromJSONResume(resume, IMPORT_OPTIONS).updated).toBe('2024-05-31');
+      expect(() => fromJSONResume(resume)).toThrow('meta.lastModified');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { ResumeData } from '../../types';
+import {
+  createOGImageSVG,
+  getOGImageCards,
+  getOGImageFileName,
+  getOGImageURL,
+} from '../ogImage';
+
+const resume: ResumeData = {
+  updated: '2024-05-31',
+  personalInfo: {
+    name: 'Robert Samalonis',
+    title: 'Senior Software Engineer',
+    email: 'robsamalonis@gmail.com',
+    linkedin: 'linkedin.com/in/robert-samalonis',
+    summary: 'Frontend engineer',
+  },
+  experience: [],
+  education: [],
+  skills: [],
+  projects: [],
+  variants: [
+    { id: 'frontend', label: 'Frontend', tags: ['frontend'], title: 'Senior Frontend Engineer' },
+    { id: 'writing', label: 'Writing', tags: ['writing'] },
+  ],
+};
+
+describe('getOGImageFileName', () => {
+  test('names the default card og-image.jpg and variants after their id', () => {
+    expect(getOGImageFileName()).toBe('og-image.jpg');
+    expect(getOGImageFileName(null)).toBe('og-image.jpg');
+    expect(getOGImageFileName('frontend')).toBe('og-image-frontend.jpg');
+  });
+});
+
+describe('getOGImageURL', () => {
+  test('resolves the card against the site address', () => {
+    expect(getOGImageURL('https://example.com/', 'frontend')).toBe(
+      'https://example.com/og-image-frontend.jpg'
+    );
+  });
+});
+
+describe('getOGImageCards', () => {
+  test('describes the default card and one per variant with its title', () => {
+    expect(getOGImageCards(resume)).toEqual([
+      { fileName: 'og-image.jpg', name: 'Robert Samalonis', title: 'Senior Software Engineer' },
+      { fileName: 'og-image-frontend.jpg', name: 'Robert Samalonis', title: 'Senior Frontend Engineer' },
+      { fileName: 'og-image-writing.jpg', name: 'Robert Samalonis', title: 'Senior Software Engineer' },
+    ]);
+  });
+
+  test('describes only the default card without variants', () => {
+    expect(getOGImageCards({ ...resume, variants: undefined })).toHaveLength(1);
+  });
+});
+
+describe('createOGImageSVG', () => {
+  test('draws a 1200×630 card with the escaped name and title', () => {
+    const svg = createOGImageSVG({
+      fileName: 'og-image.jpg',
+      name: 'Rob & Co',
+      title: 'Engineer <Frontend>',
+    });
+
+    expect(svg).toContain('width="1200" height="630"');
+    expect(svg).toContain('>Rob &amp; Co</text>');
+    expect(svg).toContain('>Engineer &lt;Frontend&gt;</text>');
+  });
+});
@@ -0,0 +1,288 @@
+import { CoverLetterDocument, ResumeDocument } from '../../types';
+import { renderCoverLetterPDF, renderResumePDF } from '../pdfGenerator';
+import { findPDFTemplate } from '../pdfTemplates';
+
+const resume: ResumeDocument = {
+  language: 'en-GB',
+  locale: 'en-GB',
+  header: {
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    contacts: [
+      { label: 'ada@example.com', url: 'mailto:ada@example.com' },
+      {
+        label: 'linkedin.com/in/ada',
+        url: 'https://linkedin.com/in/ada',
+      },
+    ],
+  },
+  sections: [
+    {
+      kind: 'summary',
+      id: 'summary',
+      heading: 'Professional Summary',
+      text: 'Writes careful programs',
+    },
+    {
+      kind: 'entries',
+      id: 'projects',
+      heading: 'Projects',
+      entries: [
+        {
+          id: 'notes',
+          title: 'Notes',
+          subtitle: 'Translation',
+          bullets: ['Annotated the translation'],
+          technologies: [],
+          links: [{ label: 'Source', url: 'https://example.com/notes' }],
+        },
+      ],
+    },
+    {
+      kind: 'skills',
+      id: 'skills',
+      heading: 'Technical Skills',
+      groups: [{ label: 'Tools', skills: ['Git', 'Jest'] }],
+    },
+  ],
+};
+
+// Long enough to run onto a second page
+const longResume: ResumeDocument = {
+  ...resume,
+  sections: [
+    {
+      kind: 'entries',
+      id: 'experience',
+      heading: 'Professional Experience',
+      entries: Array.from({ length: 12 }, (_, index) => ({
+        id: `job-${index}`,
+        title: `Engineer ${index + 1}`,
+        subtitle: 'Analytical Engines',
+        bullets: Array.from({ length: 6 }, () => 'Wrote a program'),
+        technologies: [],
+        links: [],
+      })),
+    },
+  ],
+};
+
+const letter: CoverLetterDocument = {
+  language: 'en-GB',
+  locale: 'en-GB',
+  header: resume.header,
+  company: 'Analytical Engines',
+  role: 'Engineer',
+  date: '31 January 2024',
+  recipient: ['Charles Babbage', 'Analytical Engines'],
+  salutation: 'Dear Charles Babbage,',
+  opening: ['I am writing to apply.', 'Highlights:'],
+  highlights: ['Annotated the translation (Notes)'],
+  closing: ['Thank you.'],
+  signOff: 'Sincerely,',
+  signature: 'Ada Lovelace',
+};
+
+const getPageText = (pdf: ReturnType<typeof renderResumePDF>, page: number) =>
+  (pdf.internal.pages as unknown as string[][])[page].join('\n');
+
+// Positions of each text in the page's content stream, in draw order
+const textPositions = (pageText: string, texts: string[]): number[] =>
+  texts.map((text) => pageText.indexOf(`(${text})`));
+
+describe('renderResumePDF document properties', () => {
+  const output = renderResumePDF(resume).output();
+
+  it('sets title, author, subject and keywords from the header and skills', () => {
+    expect(output).toContain('/Title (Ada Lovelace - Resume)');
+    expect(output).toContain('/Author (Ada Lovelace)');
+    expect(output).toContain('/Subject (Resume of Ada Lovelace, Engineer)');
+    expect(output).toContain('/Keywords (Git, Jest)');
+  });
+
+  it('declares the document language and shows the title in viewers', () => {
+    expect(output).toContain('/Lang (en-GB)');
+    expect(output).toContain('/DisplayDocTitle true');
+  });
+
+  it('falls back to the primary language for tags jsPDF does not know', () => {
+    const pdf = renderResumePDF({ ...resume, language: 'de-XX' }).output();
+
+    expect(pdf).toContain('/Lang (de)');
+  });
+});
+
+describe('renderResumePDF page setup', () => {
+  const mediaBox = (output: string) =>
+    output
+      .match(/\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/)
+      ?.slice(1)
+      .map((points) => Math.round(Number(points)));
+
+  it.each([
+    ['a4', [595, 842]],
+    ['letter', [612, 792]],
+    ['legal', [612, 1008]],
+  ] as const)('prints on %s paper', (paper, size) => {
+    expect(
+      mediaBox(renderResumePDF(resume, undefined, { paper }).output())
+    ).toEqual(size);
+  });
+
+  it('uses the given margin instead of the template margin', () => {
+    const pdf = renderResumePDF(resume, findPDFTemplate('classic'), {
+      margin: 30,
+    });
+    const [x] =
+      getPageText(pdf, 1)
+        .match(/([\d.]+) [\d.]+ Td\n\(ADA LOVELACE\)/)
+        ?.slice(1) ?? [];
+
+    // 30 mm from the left edge, in points
+    expect(Number(x)).toBeCloseTo(85.04, 1);
+  });
+
+  it('formats the generation date for the document locale', () => {
+    const createdAt = new Date(Date.UTC(2024, 0, 31, 12));
+
+    expect(
+      getPageText(renderResumePDF(resume, undefined, { createdAt }), 1)
+    ).toContain('(Generated on 31 January 2024)');
+    expect(
+      getPageText(
+        renderResumePDF({ ...resume, locale: 'en-US' }, undefined, {
+          createdAt,
+        }),
+        1
+      )
+    ).toContain('(Generated on January 31, 2024)');
+  });
+});
+
+describe('renderResumePDF links and structure', () => {
+  it('makes the email, LinkedIn and entry links clickable', () => {
+    const output = renderResumePDF(resume).output();
+
+    expect(output).toContain('/URI (mailto:ada@example.com)');
+    expect(output).toContain('/URI (https://linkedin.com/in/ada)');
+    expect(output).toContain('/URI (https://example.com/notes)');
+    expect(output.match(/\/Subtype \/Link/g)).toHaveLength(3);
+  });
+
+  it('links the QR code in the header to the header URL', () => {
+    const url = 'https://example.com/?variant=frontend';
+    const pdf = renderResumePDF({
+      ...resume,
+      header: { ...resume.header, url },
+    });
+
+    expect(pdf.output()).toContain(`/URI (${url})`);
+    expect(pdf.output().match(/\/Subtype \/Link/g)).toHaveLength(4);
+    // Drawn after the contacts, as filled runs of modules
+    const pageText = getPageText(pdf, 1);
+    expect(pageText.indexOf(' re\nf')).toBeGreaterThan(
+      pageText.indexOf('(linkedin.com/in/ada)')
+    );
+  });
+
+  it('bookmarks every section heading in document order', () => {
+    const output = renderResumePDF(resume).output();
+
+    expect(output).toMatch(/\/Outlines \d+ 0 R/);
+    const titles = Array.from(
+      output.matchAll(/\/Title \(([^)]*)\)/g),
+      (match) => match[1]
+    );
+    expect(titles).toEqual(
+      expect.arrayContaining([
+        'Professional Summary',
+        'Projects',
+        'Technical Skills',
+      ])
+    );
+    expect(titles.indexOf('Projects')).toBeGreaterThan(
+      titles.indexOf('Professional Summary')
+    );
+  });
+
+  it.each(['classic', 'modern'])(
+    'draws the %s template header before the sections, in reading order',
+    (templateId) => {
+      const pdf = renderResumePDF(resume, findPDFTemplate(templateId));
+      const positions = textPositions(getPageText(pdf, 1), [
+        'ADA LOVELACE',
+        'Engineer',
+        'ada@example.com',
+        'linkedin.com/in/ada',
+        'PROFESSIONAL SUMMARY',
+        'PROJECTS',
+        'TECHNICAL SKILLS',
+      ]);
+
+      positions.forEach((position) => expect(position).toBeGreaterThan(-1));
+      expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    }
+  );
+
+  it('draws the running header before the body of later pages', () => {
+    const pageText = getPageText(renderResumePDF(longResume), 2);
+    const [header] = textPositions(pageText, ['ADA LOVELACE']);
+
+    expect(header).toBeGreaterThan(-1);
+    expect(pageText.search(/\(Engineer \d+\)/)).toBeGreaterThan(header);
+  });
+});
+
+describe('renderCoverLetterPDF', () => {
+  it('sets the title and subject from the header, role and company', () => {
+    const output = renderCoverLetterPDF(letter).output();
+
+    expect(output).toContain('/Title (Ada Lovelace - Cover Letter)');
+    expect(output).toContain(
+      '/Subject (Cover letter from Ada Lovelace for the Engineer position at Analytical Engines)'
+    );
+    expect(output).toContain('/Lang (en-GB)');
+  });
+
+  it.each(['classic', 'modern'])(
+    'draws the same header as the %s resume',
+    (templateId) => {
+      const template = findPDFTemplate(templateId);
+      const header = (pageText: string) =>
+        pageText.slice(0, pageText.indexOf('(linkedin.com/in/ada)'));
+
+      expect(
+        header(getPageText(renderCoverLetterPDF(letter, template), 1))
+      ).toEqual(header(getPageText(renderResumePDF(resume, template), 1)));
+    }
+  );
+
+  it('draws the letter below the header in reading order', () => {
+    const pdf = renderCoverLetterPDF(letter);
+    const positions = textPositions(getPageText(pdf, 1), [
+      'ADA LOVELACE',
+      '31 January 2024',
+      'Charles Babbage',
+      'Dear Charles Babbage,',
+      'I am writing to apply.',
+      'Thank you.',
+      'Sincerely,',
+      'Ada Lovelace',
+    ]);
+
+    positions.forEach((position) => expect(position).toBeGreaterThan(-1));
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(pdf.getNumberOfPages()).toBe(1);
+  });
+
+  it('continues a long letter under the running header', () => {
+    const pdf = renderCoverLetterPDF({
+      ...letter,
+      highlights: Array.from({ length: 60 }, (_, index) => `Idea ${index}`),
+    });
+
+    expect(pdf.getNumberOfPages()).toBe(2);
+    expect(getPageText(pdf, 2)).toContain('(ADA LOVELACE)');
+    expect(getPageText(pdf, 2)).toContain('(Sincerely,)');
+  });
+});
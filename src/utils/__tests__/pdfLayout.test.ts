@@ -0,0 +1,164 @@
+import { ResumeDocument } from '../../types';
+import { renderResumePDF } from '../pdfGenerator';
+import {
+  getKeepTogetherHeight,
+  paginateBlocks,
+  PDFLayoutBlock,
+  PDFPageFrame,
+} from '../pdfLayout';
+
+const frame: PDFPageFrame = { firstPageTop: 20, top: 30, bottom: 100 };
+
+const block = (
+  height: number,
+  keepWithNext = false,
+  spaceAfter = 0
+): PDFLayoutBlock => ({ height, keepWithNext, spaceAfter });
+
+// A job header kept with its first bullet, followed by further bullets
+const job = (bullets: number): PDFLayoutBlock[] => [
+  block(8, true),
+  ...Array.from({ length: bullets }, () => block(6, false, 1)),
+];
+
+const createLongResume = (jobs: number, bullets: number): ResumeDocument => ({
+  language: 'en-US',
+  locale: 'en-US',
+  header: {
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    contacts: [{ label: 'ada@example.com', url: 'mailto:ada@example.com' }],
+  },
+  sections: [
+    {
+      kind: 'summary',
+      id: 'summary',
+      heading: 'Professional Summary',
+      text: 'Builds things. '.repeat(20),
+    },
+    {
+      kind: 'entries',
+      id: 'experience',
+      heading: 'Professional Experience',
+      entries: Array.from({ length: jobs }, (_, job) => ({
+        id: `job-${job}`,
+        title: `Role ${job}`,
+        subtitle: `Company ${job}`,
+        date: '2020 - 2021',
+        bullets: Array.from(
+          { length: bullets },
+          (_, bullet) =>
+            `Job ${job} bullet ${bullet}: delivered a long-running migration across several teams and services`
+        ),
+        technologies: ['TypeScript'],
+        links: [],
+      })),
+    },
+  ],
+});
+
+// Text drawn on each page, from the uncompressed jsPDF page streams
+const getPageTexts = (resume: ResumeDocument): string[] => {
+  const pdf = renderResumePDF(resume);
+  const pages = pdf.internal.pages as unknown as string[][];
+  return Array.from({ length: pdf.getNumberOfPages() }, (_, index) =>
+    pages[index + 1].join('\n')
+  );
+};
+
+const findPage = (pageTexts: string[], text: string): number =>
+  pageTexts.findIndex((pageText) => pageText.includes(text)) + 1;
+
+describe('getKeepTogetherHeight', () => {
+  it('adds the blocks kept with the first, including the gaps between', () => {
+    const blocks = [block(8, true, 2), block(6, true, 1), block(5), block(4)];
+
+    expect(getKeepTogetherHeight(blocks, 0)).toBe(8 + 2 + 6 + 1 + 5);
+    expect(getKeepTogetherHeight(blocks, 2)).toBe(5);
+  });
+});
+
+describe('paginateBlocks', () => {
+  it('stacks blocks on the first page while they fit', () => {
+    expect(paginateBlocks([block(10, false, 5), block(20)], frame)).toEqual([
+      { page: 1, y: 20 },
+      { page: 1, y: 35 },
+    ]);
+  });
+
+  it('starts later pages below the running header', () => {
+    const placements = paginateBlocks([block(70), block(20)], frame);
+
+    expect(placements[1]).toEqual({ page: 2, y: 30 });
+  });
+
+  it('moves a job header to the next page rather than leave it without its first bullet', () => {
+    // 20 + 70 leaves room for the 8mm header but not header plus bullet
+    const placements = paginateBlocks([block(70), ...job(3)], frame);
+
+    expect(placements.slice(1).map(({ page }) => page)).toEqual([2, 2, 2, 2]);
+    expect(placements[1].y).toBe(30);
+  });
+
+  it('breaks between bullets once the header and first bullet are together', () => {
+    const placements = paginateBlocks([block(55), ...job(4)], frame);
+
+    expect(placements.map(({ page }) => page)).toEqual([1, 1, 1, 1, 2, 2]);
+  });
+
+  it('keeps a section heading with the job header and its first bullet', () => {
+    const placements = paginateBlocks(
+      [block(58), block(10, true), ...job(2)],
+      frame
+    );
+
+    expect(placements.slice(1).map(({ page }) => page)).toEqual([2, 2, 2, 2]);
+  });
+
+  it('lets a run taller than a page break instead of looping', () => {
+    const placements = paginateBlocks(
+      [block(10), block(50, true), block(50)],
+      frame
+    );
+
+    expect(placements).toEqual([
+      { page: 1, y: 20 },
+      { page: 2, y: 30 },
+      { page: 3, y: 30 },
+    ]);
+  });
+});
+
+describe('renderResumePDF pagination', () => {
+  it('keeps a short resume on one page with a page number', () => {
+    const pageTexts = getPageTexts(createLongResume(2, 2));
+
+    expect(pageTexts).toHaveLength(1);
+    expect(pageTexts[0]).toContain('(Page 1 of 1)');
+  });
+
+  it('spreads a long resume over numbered pages with a running header', () => {
+    const pageTexts = getPageTexts(createLongResume(12, 6));
+
+    expect(pageTexts.length).toBeGreaterThan(2);
+    pageTexts.forEach((pageText, index) => {
+      expect(pageText).toContain(`(Page ${index + 1} of ${pageTexts.length})`);
+    });
+    pageTexts.slice(1).forEach((pageText) => {
+      expect(pageText).toContain('(ADA LOVELACE)');
+      expect(pageText).toContain('(ada@example.com)');
+    });
+  });
+
+  it('never separates a job header from its first bullet', () => {
+    const jobs = 15;
+    const pageTexts = getPageTexts(createLongResume(jobs, 5));
+
+    for (let job = 0; job < jobs; job++) {
+      const headerPage = findPage(pageTexts, `(Role ${job})`);
+
+      expect(headerPage).toBeGreaterThan(0);
+      expect(findPage(pageTexts, `Job ${job} bullet 0:`)).toBe(headerPage);
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import {
+  findPDFPaper,
+  getDefaultPaperSize,
+  PDF_PAPER_SIZES,
+} from '../pdfPaper';
+
+describe('PDF paper sizes', () => {
+  test('offers A4, Letter and Legal', () => {
+    expect(PDF_PAPER_SIZES.map(({ label }) => label)).toEqual([
+      'A4',
+      'Letter',
+      'Legal',
+    ]);
+  });
+
+  test('falls back to A4 for unknown ids', () => {
+    expect(findPDFPaper('letter').label).toBe('Letter');
+    expect(findPDFPaper('b5').id).toBe('a4');
+    expect(findPDFPaper().id).toBe('a4');
+  });
+
+  test.each([
+    ['en-US', 'letter'],
+    ['en', 'letter'],
+    ['en-CA', 'letter'],
+    ['es-MX', 'letter'],
+    ['en-GB', 'a4'],
+    ['de-DE', 'a4'],
+    ['fr', 'a4'],
+    ['not a locale', 'a4'],
+  ])('defaults %s to %s', (locale, paper) => {
+    expect(getDefaultPaperSize(locale)).toBe(paper);
+  });
+});
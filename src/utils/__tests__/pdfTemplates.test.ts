@@ -0,0 +1,93 @@
+import { ResumeDocument } from '../../types';
+import { getResumePDFFileName, renderResumePDF } from '../pdfGenerator';
+import { findPDFTemplate, PDF_TEMPLATES } from '../pdfTemplates';
+
+const resume: ResumeDocument = {
+  language: 'en-US',
+  locale: 'en-US',
+  header: {
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    contacts: [{ label: 'ada@example.com', url: 'mailto:ada@example.com' }],
+  },
+  sections: [
+    {
+      kind: 'entries',
+      id: 'experience',
+      heading: 'Professional Experience',
+      entries: [
+        {
+          id: 'engine',
+          title: 'Programmer',
+          subtitle: 'Analytical Engines',
+          bullets: ['First', 'Second', 'Third', 'Fourth', 'Fifth'],
+          technologies: [],
+          links: [],
+        },
+      ],
+    },
+    {
+      kind: 'skills',
+      id: 'skills',
+      heading: 'Technical Skills',
+      groups: [{ label: 'Tools', skills: ['Git', 'Jest'] }],
+    },
+  ],
+};
+
+// All text drawn on the first page
+const getFirstPageText = (templateId: string): string =>
+  (
+    renderResumePDF(resume, findPDFTemplate(templateId)).internal
+      .pages as unknown as string[][]
+  )[1].join('\n');
+
+describe('findPDFTemplate', () => {
+  it('finds templates by id', () => {
+    expect(findPDFTemplate('modern').layout).toBe('sidebar');
+  });
+
+  it('falls back to the classic template', () => {
+    expect(findPDFTemplate().id).toBe('classic');
+    expect(findPDFTemplate('unknown').id).toBe('classic');
+  });
+});
+
+describe('PDF templates', () => {
+  it.each(PDF_TEMPLATES.map(({ id }) => id))(
+    'renders every section with the %s template',
+    (templateId) => {
+      const text = getFirstPageText(templateId);
+
+      expect(text).toContain('(PROFESSIONAL EXPERIENCE)');
+      expect(text).toContain('(TECHNICAL SKILLS)');
+      expect(text).toContain('Git, Jest');
+    }
+  );
+
+  it('lists skills under their category in the modern sidebar', () => {
+    const text = getFirstPageText('modern');
+
+    expect(text).toContain('(Tools)');
+    expect(text).not.toContain('(Tools: )');
+  });
+
+  it('keeps only the top bullets in the compact template', () => {
+    expect(getFirstPageText('classic')).toContain('Fifth');
+
+    const compact = getFirstPageText('compact');
+    expect(compact).toContain('Third');
+    expect(compact).not.toContain('Fourth');
+  });
+});
+
+describe('getResumePDFFileName', () => {
+  it('suffixes every template but the default', () => {
+    expect(getResumePDFFileName('Ada Lovelace')).toBe(
+      'Ada_Lovelace_Resume.pdf'
+    );
+    expect(
+      getResumePDFFileName('Ada Lovelace', findPDFTemplate('modern'))
+    ).toBe('Ada_Lovelace_Resume_modern.pdf');
+  });
+});
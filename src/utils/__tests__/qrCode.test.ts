@@ -0,0 +1,358 @@
+import {
+  encodeQRCode,
+  getAlignmentPositions,
+  getQRByteCapacity,
+  getQRCodeRuns,
+  getQRErrorCorrectionBlocks,
+  QRCode,
+  QRErrorCorrectionLevel,
+  renderQRCodeSVG,
+} from '../qrCode';
+
+const LEVELS: QRErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Level indicator in the format information, as written by the standard
+const FORMAT_LEVELS: Record<number, QRErrorCorrectionLevel> = {
+  1: 'L',
+  0: 'M',
+  3: 'Q',
+  2: 'H',
+};
+
+const MASK_CONDITIONS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const bchRemainder = (value: number, generator: number, bits: number) => {
+  let remainder = value;
+  for (let i = 0; i < bits; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> (bits - 1)) * generator);
+  }
+  return remainder & ((1 << bits) - 1);
+};
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+// Evaluates a codeword polynomial (highest power first) at α^power
+const evaluateAt = (codewords: number[], power: number): number => {
+  let point = 1;
+  for (let i = 0; i < power; i++) point = gfMultiply(point, 2);
+  return codewords.reduce((sum, value) => gfMultiply(sum, point) ^ value, 0);
+};
+
+/**
+ * Modules used by finder, timing and alignment patterns and by the format
+ * and version information, which carry no data
+ */
+const getFunctionModules = (version: number): boolean[][] => {
+  const size = version * 4 + 17;
+  const grid = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  );
+  const mark = (x0: number, y0: number, width: number, height: number) => {
+    for (let y = y0; y < y0 + height; y++) {
+      for (let x = x0; x < x0 + width; x++) grid[y][x] = true;
+    }
+  };
+
+  mark(0, 6, size, 1);
+  mark(6, 0, 1, size);
+  // Finders with separators and format information
+  mark(0, 0, 9, 9);
+  mark(size - 8, 0, 8, 9);
+  mark(0, size - 8, 9, 8);
+
+  // Alignment patterns, except the three that would overlap a finder
+  const positions = getAlignmentPositions(version);
+  const inFinder = (x: number, y: number) =>
+    (x < 9 || x >= size - 8) && (y < 9 || (x < 9 && y >= size - 8));
+  positions.forEach((y) =>
+    positions.forEach((x) => {
+      if (!inFinder(x, y)) mark(x - 2, y - 2, 5, 5);
+    })
+  );
+
+  if (version >= 7) {
+    mark(size - 11, 0, 3, 6);
+    mark(0, size - 11, 6, 3);
+  }
+  return grid;
+};
+
+const readBits = (modules: boolean[][], points: [number, number][]): number =>
+  points.reduce(
+    (value, [x, y], index) => value | (Number(modules[y][x]) << index),
+    0
+  );
+
+/**
+ * Reads a symbol back the way a scanner would once it has located it:
+ * format information, then the zigzag data, unmasked, de-interleaved and
+ * checked against its Reed-Solomon error correction
+ */
+const decodeQRCode = (
+  modules: boolean[][]
+): {
+  text: string;
+  version: number;
+  level: QRErrorCorrectionLevel;
+  mask: number;
+} => {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  expect(Number.isInteger(version)).toBe(true);
+
+  // Finder patterns in three corners
+  [
+    [0, 0],
+    [size - 7, 0],
+    [0, size - 7],
+  ].forEach(([x0, y0]) => {
+    for (let dy = 0; dy < 7; dy++) {
+      for (let dx = 0; dx < 7; dx++) {
+        const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+        expect(modules[y0 + dy][x0 + dx]).toBe(ring !== 2);
+      }
+    }
+  });
+
+  // Both copies of the format information
+  const formatPoints: [number, number][] = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((y): [number, number] => [8, y]),
+    ...[7, 5, 4, 3, 2, 1, 0].map((x): [number, number] => [x, 8]),
+  ];
+  const mirrorPoints: [number, number][] = [
+    ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+    ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i]),
+  ];
+  const format = readBits(modules, formatPoints) ^ 0x5412;
+  expect(readBits(modules, mirrorPoints) ^ 0x5412).toBe(format);
+  expect(modules[size - 8][8]).toBe(true);
+  const formatData = format >>> 10;
+  expect(bchRemainder(formatData, 0x537, 10)).toBe(format & 0x3ff);
+  const level = FORMAT_LEVELS[formatData >>> 3];
+  const mask = formatData & 7;
+
+  if (version >= 7) {
+    const versionPoints = Array.from(
+      { length: 18 },
+      (_, i): [number, number] => [size - 11 + (i % 3), Math.floor(i / 3)]
+    );
+    const versionBits = readBits(modules, versionPoints);
+    expect(versionBits >>> 12).toBe(version);
+    expect(bchRemainder(version, 0x1f25, 12)).toBe(versionBits & 0xfff);
+    expect(
+      readBits(
+        modules,
+        versionPoints.map(([x, y]): [number, number] => [y, x])
+      )
+    ).toBe(versionBits);
+  }
+
+  // Data modules in placement order, unmasked
+  const reserved = getFunctionModules(version);
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let i = 0; i < size; i++) {
+      const y = upward ? size - 1 - i : i;
+      [right, right - 1].forEach((x) => {
+        if (!reserved[y][x]) {
+          bits.push(Number(modules[y][x] !== MASK_CONDITIONS[mask](x, y)));
+        }
+      });
+    }
+  }
+  const codewords = Array.from(
+    { length: Math.floor(bits.length / 8) },
+    (_, i) =>
+      bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit)
+  );
+
+  // De-interleave: data codewords round-robin, then error correction
+  const { blocks: blockCount, eccCodewordsPerBlock } =
+    getQRErrorCorrectionBlocks(version, level);
+  const shortBlocks = blockCount - (codewords.length % blockCount);
+  const shortDataLength =
+    Math.floor(codewords.length / blockCount) - eccCodewordsPerBlock;
+  const blocks = Array.from({ length: blockCount }, (_, i) => ({
+    data: [] as number[],
+    ecc: [] as number[],
+    dataLength: shortDataLength + (i < shortBlocks ? 0 : 1),
+  }));
+  let next = 0;
+  for (let i = 0; i <= shortDataLength; i++) {
+    blocks.forEach((block) => {
+      if (i < block.dataLength) block.data.push(codewords[next++]);
+    });
+  }
+  for (let i = 0; i < eccCodewordsPerBlock; i++) {
+    blocks.forEach((block) => block.ecc.push(codewords[next++]));
+  }
+  expect(next).toBe(codewords.length);
+
+  // Every syndrome is zero when a block is an intact Reed-Solomon codeword
+  blocks.forEach((block) => {
+    const codeword = [...block.data, ...block.ecc];
+    for (let power = 0; power < eccCodewordsPerBlock; power++) {
+      expect(evaluateAt(codeword, power)).toBe(0);
+    }
+  });
+
+  const dataBits = blocks
+    .flatMap((block) => block.data)
+    .flatMap((byte) =>
+      Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1)
+    );
+  let position = 0;
+  const read = (length: number) => {
+    const value = dataBits
+      .slice(position, position + length)
+      .reduce((result, bit) => (result << 1) | bit, 0);
+    position += length;
+    return value;
+  };
+
+  expect(read(4)).toBe(0b0100);
+  const length = read(version <= 9 ? 8 : 16);
+  const bytes = Array.from({ length }, () => read(8));
+  const text = decodeURIComponent(
+    bytes.map((byte) => `%${byte.toString(16).padStart(2, '0')}`).join('')
+  );
+
+  return { text, version, level, mask };
+};
+
+const SITE = 'https://robertsamalonis.github.io/';
+
+describe('encodeQRCode', () => {
+  it.each(LEVELS)('round-trips a URL at error correction level %s', (level) => {
+    const qr = encodeQRCode(`${SITE}?variant=frontend`, {
+      errorCorrection: level,
+    });
+
+    expect(decodeQRCode(qr.modules)).toEqual({
+      text: `${SITE}?variant=frontend`,
+      version: qr.version,
+      level,
+      mask: qr.mask,
+    });
+  });
+
+  it('uses the smallest version that fits', () => {
+    const qr = encodeQRCode(SITE);
+
+    expect(qr.errorCorrection).toBe('M');
+    // 34 bytes: more than version 2 holds at level M (26), less than 3 (42)
+    expect(qr.version).toBe(3);
+    expect(qr.size).toBe(29);
+    expect(qr.modules).toHaveLength(29);
+  });
+
+  it.each([0, 1, 2, 3, 4, 5, 6, 7])('decodes with mask %i', (mask) => {
+    const qr = encodeQRCode(SITE, { mask });
+
+    expect(qr.mask).toBe(mask);
+    expect(decodeQRCode(qr.modules).text).toBe(SITE);
+  });
+
+  it('encodes non-ASCII text as UTF-8', () => {
+    const text = 'Résumé – Robert ✓ 🚀';
+
+    expect(decodeQRCode(encodeQRCode(text).modules).text).toBe(text);
+  });
+
+  it.each([
+    [7, 'Q'],
+    [15, 'L'],
+    [27, 'H'],
+  ] as const)(
+    'writes version information and splits blocks for version %i-%s',
+    (version, level) => {
+      const text = 'x'.repeat(getQRByteCapacity(version, level));
+      const qr = encodeQRCode(text, { errorCorrection: level });
+
+      expect(qr.version).toBe(version);
+      expect(decodeQRCode(qr.modules)).toMatchObject({ text, level });
+    }
+  );
+
+  it('moves up a version when the text is one byte too long', () => {
+    const text = 'x'.repeat(getQRByteCapacity(5, 'M') + 1);
+
+    expect(encodeQRCode(text).version).toBe(6);
+  });
+
+  it('rejects text longer than version 40 holds', () => {
+    expect(() => encodeQRCode('x'.repeat(2332))).toThrow(/too long/);
+    expect(encodeQRCode('x'.repeat(2331)).version).toBe(40);
+  });
+});
+
+describe('QR code tables', () => {
+  it('matches the published byte mode capacities', () => {
+    const capacities: Record<number, number[]> = {
+      1: [17, 14, 11, 7],
+      2: [32, 26, 20, 14],
+      5: [106, 84, 60, 44],
+      10: [271, 213, 151, 119],
+      23: [1091, 857, 611, 461],
+      40: [2953, 2331, 1663, 1273],
+    };
+
+    Object.entries(capacities).forEach(([version, expected]) => {
+      expect(
+        LEVELS.map((level) => getQRByteCapacity(Number(version), level))
+      ).toEqual(expected);
+    });
+  });
+
+  it('places alignment patterns where the standard does', () => {
+    expect(getAlignmentPositions(1)).toEqual([]);
+    expect(getAlignmentPositions(2)).toEqual([6, 18]);
+    expect(getAlignmentPositions(7)).toEqual([6, 22, 38]);
+    expect(getAlignmentPositions(23)).toEqual([6, 30, 54, 78, 102]);
+    expect(getAlignmentPositions(32)).toEqual([6, 34, 60, 86, 112, 138]);
+    expect(getAlignmentPositions(40)).toEqual([6, 30, 58, 86, 114, 142, 170]);
+  });
+});
+
+describe('QR code rendering', () => {
+  const qr: QRCode = encodeQRCode(SITE);
+
+  it('merges dark modules into runs that cover exactly the dark modules', () => {
+    const covered = qr.modules.map((row) => row.map(() => false));
+    getQRCodeRuns(qr).forEach(({ x, y, width }) => {
+      for (let i = x; i < x + width; i++) {
+        expect(covered[y][i]).toBe(false);
+        covered[y][i] = true;
+      }
+    });
+
+    expect(covered).toEqual(qr.modules);
+  });
+
+  it('renders an SVG with a quiet zone and an escaped title', () => {
+    const svg = renderQRCodeSVG(qr, 'Resume <site>');
+
+    expect(svg).toContain('viewBox="0 0 37 37"');
+    expect(svg).toContain('<title>Resume &lt;site&gt;</title>');
+    // The top-left finder starts inside the quiet zone
+    expect(svg).toMatch(/d="M4 4h7v1h-7z/);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  compareResumeDates,
+  formatCredentialDate,
+  formatDateRange,
+  formatResumeDate,
+  formatTenure,
+  getResumeLocale,
+  getTenure,
+  getTotalExperienceMonths,
+  getTotalYearsOfExperience,
+  parseISOPartialDate,
+  toISOPartialDate,
+} from '../resumeDates';
+
+const NOW = new Date(2027, 1, 15); // February 2027
+
+describe('resume dates', () => {
+  describe('formatting', () => {
+    test('formats month and year-only dates', () => {
+      expect(formatResumeDate({ year: 2022, month: 4 })).toBe('April 2022');
+      expect(formatResumeDate({ year: 2017 })).toBe('2017');
+    });
+
+    test('formats dates for other locales', () => {
+      expect(formatResumeDate({ year: 2022, month: 4 }, 'de-DE')).toBe(
+        'April 2022'
+      );
+      expect(formatResumeDate({ year: 2022, month: 3 }, 'fr-FR')).toBe(
+        'mars 2022'
+      );
+    });
+
+    test('ends current ranges with the word for present in the locale', () => {
+      expect(
+        formatDateRange({ year: 2022, month: 4 }, 'present', 'de-DE')
+      ).toBe('April 2022 - heute');
+      expect(
+        formatDateRange({ year: 2022, month: 3 }, 'present', 'fr-FR')
+      ).toBe("mars 2022 - aujourd'hui");
+      expect(formatDateRange({ year: 2022 }, 'present', 'en-GB')).toBe(
+        '2022 - Present'
+      );
+      // No translation, or a locale the resume can't be written in
+      expect(formatDateRange({ year: 2022 }, 'present', 'pl-PL')).toBe(
+        '2022 - Present'
+      );
+      expect(formatDateRange({ year: 2022 }, 'present', 'ja-JP')).toBe(
+        '2022 - Present'
+      );
+    });
+
+    test('formats ranges with present and open starts', () => {
+      expect(formatDateRange({ year: 2022, month: 4 }, 'present')).toBe(
+        'April 2022 - Present'
+      );
+      expect(formatDateRange({ year: 2013 }, { year: 2017 })).toBe(
+        '2013 - 2017'
+      );
+      expect(formatDateRange(undefined, { year: 2017 })).toBe('2017');
+    });
+    test('formats credential dates with an optional expiry', () => {
+      expect(formatCredentialDate({ year: 2023, month: 5 })).toBe('May 2023');
+      expect(
+        formatCredentialDate({ year: 2023, month: 5 }, { year: 2026, month: 5 })
+      ).toBe('May 2023 (expires May 2026)');
+    });
+  });
+
+  describe('locale', () => {
+    test('keeps Latin-script locales and falls back for the rest', () => {
+      expect(getResumeLocale('en-GB')).toBe('en-GB');
+      expect(getResumeLocale('de-DE')).toBe('de-DE');
+      expect(getResumeLocale('ru-RU')).toBe('en-US');
+      expect(getResumeLocale('not a locale')).toBe('en-US');
+      expect(getResumeLocale()).toBe('en-US');
+    });
+  });
+
+  describe('tenure', () => {
+    test('counts the start and end months inclusively', () => {
+      expect(
+        getTenure({ year: 2017, month: 6 }, { year: 2022, month: 4 })
+      ).toEqual({ years: 4, months: 11 });
+      expect(getTenure({ year: 2022, month: 4 }, 'present', NOW)).toEqual({
+        years: 4,
+        months: 11,
+      });
+    });
+
+    test('treats year-only ranges as whole years', () => {
+      expect(getTenure({ year: 2013 }, { year: 2017 })).toEqual({
+        years: 5,
+        months: 0,
+      });
+    });
+
+    test('formats tenure labels', () => {
+      expect(formatTenure({ years: 4, months: 10 })).toBe('4 yrs 10 mos');
+      expect(formatTenure({ years: 1, months: 0 })).toBe('1 yr');
+      expect(formatTenure({ years: 0, months: 1 })).toBe('1 mo');
+      expect(formatTenure({ years: 0, months: 0 })).toBe('0 mos');
+    });
+  });
+
+  describe('total experience', () => {
+    test('merges overlapping and adjacent roles', () => {
+      const experience = [
+        {
+          startDate: { year: 2017, month: 6 },
+          endDate: { year: 2022, month: 4 },
+        },
+        { startDate: { year: 2022, month: 5 }, endDate: 'present' as const },
+        {
+          startDate: { year: 2020, month: 1 },
+          endDate: { year: 2020, month: 12 },
+        },
+      ];
+
+      expect(getTotalExperienceMonths(experience, NOW)).toBe(117);
+      expect(getTotalYearsOfExperience(experience, NOW)).toBe(9);
+    });
+
+    test('does not count gaps between roles', () => {
+      const experience = [
+        {
+          startDate: { year: 2010, month: 1 },
+          endDate: { year: 2010, month: 12 },
+        },
+        {
+          startDate: { year: 2015, month: 1 },
+          endDate: { year: 2015, month: 6 },
+        },
+      ];
+
+      expect(getTotalExperienceMonths(experience, NOW)).toBe(18);
+    });
+  });
+
+  describe('ISO partial dates', () => {
+    test('round-trips structured dates', () => {
+      expect(toISOPartialDate({ year: 2022, month: 4 })).toBe('2022-04');
+      expect(toISOPartialDate({ year: 2017 })).toBe('2017');
+      expect(parseISOPartialDate('2022-04-15')).toEqual({
+        year: 2022,
+        month: 4,
+      });
+      expect(parseISOPartialDate('2017')).toEqual({ year: 2017 });
+    });
+
+    test('rejects values it cannot interpret', () => {
+      expect(() => parseISOPartialDate('April 2022')).toThrow();
+      expect(() => parseISOPartialDate('2022-13')).toThrow();
+    });
+  });
+
+  test('compares dates chronologically', () => {
+    expect(
+      compareResumeDates({ year: 2017, month: 6 }, { year: 2022, month: 4 })
+    ).toBeLessThan(0);
+    expect(compareResumeDates({ year: 2022 }, { year: 2022, month: 1 })).toBe(
+      0
+    );
+  });
+});
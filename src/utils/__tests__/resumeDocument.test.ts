@@ -0,0 +1,279 @@
+import { SITE_URL } from '../../config/site';
+import { resumeData } from '../../data/resumeData';
+import { ResumeData } from '../../types';
+import { renderResumeHTML } from '../createStaticResumePDF';
+import { renderResumePDF } from '../pdfGenerator';
+import { buildResumeDocument, createResumeDocument } from '../resumeDocument';
+import { renderResumeMarkdown } from '../resumeMarkdown';
+import { renderResumeText } from '../resumeText';
+
+const data: ResumeData = {
+  ...resumeData,
+  personalInfo: {
+    ...resumeData.personalInfo,
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    summary: 'Writes <careful> programs',
+  },
+  experience: [
+    {
+      id: 'engine',
+      company: 'Analytical Engines',
+      position: 'Programmer',
+      startDate: { year: 2020, month: 1 },
+      endDate: 'present',
+      responsibilities: [
+        'Wrote the first program',
+        { text: 'Annotated the translation', tags: ['writing'] },
+      ],
+      technologies: ['Punch cards'],
+    },
+  ],
+  projects: [],
+  education: [
+    {
+      id: 'home',
+      institution: 'Home School',
+      degree: 'Diploma',
+      field: 'Mathematics',
+      startDate: { year: 2010 },
+      graduationDate: { year: 2014 },
+    },
+  ],
+  certifications: [],
+  publications: undefined,
+  awards: [
+    {
+      id: 'medal',
+      title: 'Medal',
+      awarder: 'Royal Society',
+      date: { year: 2021, month: 6 },
+    },
+  ],
+  skills: [
+    { id: 'git', name: 'Git', category: 'tools', proficiency: 'expert' },
+    {
+      id: 'ts',
+      name: 'TypeScript',
+      category: 'frontend',
+      proficiency: 'expert',
+    },
+    { id: 'jest', name: 'Jest', category: 'tools', proficiency: 'advanced' },
+  ],
+};
+
+// Positions of each heading in a rendered output, which must be increasing
+const headingPositions = (output: string, headings: string[]): number[] =>
+  headings.map((heading) => output.indexOf(heading));
+
+const expectInOrder = (positions: number[]) => {
+  positions.forEach((position) => expect(position).toBeGreaterThanOrEqual(0));
+  expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+};
+
+describe('buildResumeDocument', () => {
+  const resume = buildResumeDocument(data);
+
+  it('lists sections in a fixed order and omits empty ones', () => {
+    expect(resume.sections.map((section) => section.heading)).toEqual([
+      'Professional Summary',
+      'Professional Experience',
+      'Education',
+      'Awards',
+      'Technical Skills',
+    ]);
+  });
+
+  it('builds the header with linked contacts', () => {
+    expect(resume.header).toEqual({
+      name: 'Ada Lovelace',
+      title: 'Engineer',
+      contacts: [
+        {
+          label: resumeData.personalInfo.email,
+          url: `mailto:${resumeData.personalInfo.email}`,
+        },
+        {
+          label: resumeData.personalInfo.linkedin,
+          url: expect.stringMatching(/^https:\/\//),
+        },
+      ],
+    });
+  });
+
+  it('flattens tagged responsibilities into bullets', () => {
+    const experience = resume.sections.find(
+      (section) => section.id === 'experience'
+    );
+    expect(experience).toMatchObject({
+      entries: [
+        {
+          title: 'Programmer',
+          subtitle: 'Analytical Engines',
+          date: 'January 2020 - Present',
+          bullets: ['Wrote the first program', 'Annotated the translation'],
+          technologies: ['Punch cards'],
+        },
+      ],
+    });
+  });
+
+  it('lists project highlights as bullets in every format', () => {
+    const withProject = buildResumeDocument({
+      ...data,
+      projects: [
+        {
+          id: 'notes',
+          title: 'Notes on the Engine',
+          summary: 'Annotated translation',
+          role: 'Author',
+          highlights: ['Described loops', 'Computed Bernoulli numbers'],
+          technologies: ['Pen'],
+          links: [],
+          images: [],
+        },
+      ],
+    });
+
+    expect(
+      withProject.sections.find((section) => section.id === 'projects')
+    ).toMatchObject({
+      entries: [
+        {
+          title: 'Notes on the Engine',
+          bullets: ['Described loops', 'Computed Bernoulli numbers'],
+        },
+      ],
+    });
+    expect(renderResumeText(withProject)).toContain('- Computed Bernoulli numbers');
+    expect(renderResumeMarkdown(withProject)).toContain('- Computed Bernoulli numbers');
+    expect(renderResumeHTML(withProject)).toContain('Computed Bernoulli numbers');
+  });
+
+  it('groups skills by category in order of first appearance', () => {
+    const skills = resume.sections.find((section) => section.id === 'skills');
+    expect(skills).toMatchObject({
+      groups: [
+        { label: 'Tools', skills: ['Git', 'Jest'] },
+        { label: 'Frontend', skills: ['TypeScript'] },
+      ],
+    });
+  });
+
+  it('formats for the locale but keeps the language of the content', () => {
+    const german = buildResumeDocument(data, { locale: 'de-DE' });
+
+    expect(german).toMatchObject({ language: 'en', locale: 'de-DE' });
+    expect(german.sections[1]).toMatchObject({
+      entries: [{ date: 'Januar 2020 - heute' }],
+    });
+    expect(buildResumeDocument(data, { locale: 'en-GB' }).language).toBe(
+      'en-GB'
+    );
+  });
+
+  it('applies the requested variant to the portfolio resume', () => {
+    const variant = resumeData.variants?.[0];
+    if (!variant) return;
+
+    expect(createResumeDocument({ variant: variant.id }).header.title).toBe(
+      variant.title ?? resumeData.personalInfo.title
+    );
+  });
+
+  it('links the portfolio resume back to the same view of the site', () => {
+    const variant = resumeData.variants?.[0];
+
+    expect(createResumeDocument().header.url).toBe(SITE_URL);
+    expect(createResumeDocument({ variant: 'unknown' }).header.url).toBe(
+      SITE_URL
+    );
+    if (variant) {
+      expect(createResumeDocument({ variant: variant.id }).header.url).toBe(
+        `${SITE_URL}?variant=${variant.id}`
+      );
+    }
+  });
+});
+
+describe('resume renderers', () => {
+  const resume = buildResumeDocument(data);
+  const headings = resume.sections.map((section) => section.heading);
+
+  it('renders the same headings in the same order as plain text', () => {
+    const text = renderResumeText(resume);
+
+    expectInOrder(
+      headingPositions(
+        text,
+        headings.map((heading) => heading.toUpperCase())
+      )
+    );
+    expect(text).toContain('- Annotated the translation');
+    expect(text).toContain('Tools: Git, Jest');
+  });
+
+  it('keeps plain text to one field per line, without decoration', () => {
+    const text = renderResumeText(resume);
+
+    expect(text).toContain(
+      'Programmer\nAnalytical Engines\nJanuary 2020 - Present'
+    );
+    expect(text).toContain('Technologies: Punch cards');
+    expect(text).not.toMatch(/[•|=—\t]/);
+  });
+
+  it('renders the same headings in the same order as Markdown, escaped', () => {
+    const markdown = renderResumeMarkdown(resume);
+
+    expectInOrder(
+      headingPositions(
+        markdown,
+        headings.map((heading) => `\n## ${heading}\n`)
+      )
+    );
+    expect(markdown.startsWith('# Ada Lovelace\n')).toBe(true);
+    expect(markdown).toContain('Writes \\<careful\\> programs');
+    expect(markdown).toContain('- Annotated the translation');
+    expect(markdown).toContain('- **Tools:** Git, Jest');
+  });
+
+  it('renders the same headings in the same order as HTML, escaped', () => {
+    const html = renderResumeHTML(resume);
+
+    expectInOrder(
+      headingPositions(
+        html,
+        headings.map((heading) => `<div class="section-title">${heading}</div>`)
+      )
+    );
+    expect(html).toContain('Writes &lt;careful&gt; programs');
+    expect(html).toContain('Git, Jest');
+    expect(html).not.toContain('qr-code"');
+  });
+
+  it('links a QR code of the header URL from the HTML header', () => {
+    const html = renderResumeHTML({
+      ...resume,
+      header: { ...resume.header, url: 'https://example.com/?variant=a&b' },
+    });
+
+    expect(html).toMatch(
+      /<a class="qr-code" href="https:\/\/example.com\/\?variant=a&amp;b"><svg [^>]*viewBox="0 0 37 37"/
+    );
+    expect(html).toContain(
+      '<title>QR code: https://example.com/?variant=a&amp;b</title>'
+    );
+  });
+
+  it('renders the same headings in the same order in the PDF', () => {
+    const pdf = renderResumePDF(resume).output();
+
+    expectInOrder(
+      headingPositions(
+        pdf,
+        headings.map((heading) => `(${heading.toUpperCase()})`)
+      )
+    );
+  });
+});
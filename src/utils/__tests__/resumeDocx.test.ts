@@ -0,0 +1,178 @@
+import { ResumeDocument } from '../../types';
+import { renderResumeDocx } from '../resumeDocx';
+import { crc32, createZipArchive } from '../zip';
+
+/**
+ * Reads a stored (uncompressed) ZIP archive back into its files, checking
+ * the central directory and every checksum on the way
+ */
+const readZipArchive = (archive: Uint8Array): Record<string, string> => {
+  const view = new DataView(archive.buffer, archive.byteOffset);
+  const decoder = new TextDecoder();
+  const endOffset = archive.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: Record<string, string> = {};
+
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const checksum = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength)
+    );
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = archive.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(checksum);
+
+    files[name] = decoder.decode(data);
+    offset += 46 + nameLength;
+  }
+  return files;
+};
+
+const parseXML = (xml: string): Document => {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(parsed.getElementsByTagName('parsererror')).toHaveLength(0);
+  return parsed;
+};
+
+const resume: ResumeDocument = {
+  language: 'en-US',
+  locale: 'en-US',
+  header: {
+    name: 'Ada Lovelace',
+    title: 'Engineer',
+    contacts: [
+      { label: 'ada@example.com', url: 'mailto:ada@example.com' },
+      { label: 'linkedin.com/in/ada', url: 'https://linkedin.com/in/ada' },
+    ],
+  },
+  sections: [
+    {
+      kind: 'summary',
+      id: 'summary',
+      heading: 'Professional Summary',
+      text: 'Notes & <programs>',
+    },
+    {
+      kind: 'entries',
+      id: 'experience',
+      heading: 'Professional Experience',
+      entries: [
+        {
+          id: 'engine',
+          title: 'Programmer',
+          subtitle: 'Analytical Engines',
+          date: '1842 - 1843',
+          bullets: ['Wrote the first program', 'Annotated the translation'],
+          technologies: ['Punch cards'],
+          links: [],
+        },
+      ],
+    },
+    {
+      kind: 'skills',
+      id: 'skills',
+      heading: 'Technical Skills',
+      groups: [{ label: 'Tools', skills: ['Git', 'Jest'] }],
+    },
+  ],
+};
+
+describe('crc32', () => {
+  it('matches the reference checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZipArchive', () => {
+  it('writes entries that read back unchanged', () => {
+    const files = readZipArchive(
+      createZipArchive([
+        { path: 'a.txt', data: 'first' },
+        { path: 'dir/b.txt', data: new TextEncoder().encode('second') },
+      ])
+    );
+
+    expect(files).toEqual({ 'a.txt': 'first', 'dir/b.txt': 'second' });
+  });
+
+  it('is deterministic', () => {
+    const entries = [{ path: 'a.txt', data: 'same' }];
+
+    expect(createZipArchive(entries)).toEqual(createZipArchive(entries));
+  });
+});
+
+describe('renderResumeDocx', () => {
+  const files = readZipArchive(renderResumeDocx(resume));
+  const document = parseXML(files['word/document.xml']);
+
+  const paragraphsWithStyle = (style: string): string[] =>
+    Array.from(document.getElementsByTagName('w:p'))
+      .filter(
+        (paragraph) =>
+          paragraph
+            .getElementsByTagName('w:pStyle')[0]
+            ?.getAttribute('w:val') === style
+      )
+      .map((paragraph) => paragraph.textContent ?? '');
+
+  it('contains the parts of a WordprocessingML package, all well-formed', () => {
+    expect(Object.keys(files)[0]).toBe('[Content_Types].xml');
+    expect(Object.keys(files)).toEqual(
+      expect.arrayContaining([
+        '_rels/.rels',
+        'word/document.xml',
+        'word/_rels/document.xml.rels',
+        'word/styles.xml',
+        'word/numbering.xml',
+      ])
+    );
+    Object.values(files).forEach(parseXML);
+  });
+
+  it('uses heading styles for the name, sections and entries', () => {
+    expect(paragraphsWithStyle('Title')).toEqual(['Ada Lovelace']);
+    expect(paragraphsWithStyle('Heading1')).toEqual([
+      'Professional Summary',
+      'Professional Experience',
+      'Technical Skills',
+    ]);
+    expect(paragraphsWithStyle('Heading2')).toEqual(['Programmer']);
+    expect(files['word/styles.xml']).toContain('<w:name w:val="heading 1"/>');
+  });
+
+  it('writes responsibilities as a bulleted list', () => {
+    expect(paragraphsWithStyle('ListBullet')).toEqual([
+      'Wrote the first program',
+      'Annotated the translation',
+    ]);
+    expect(files['word/numbering.xml']).toContain('<w:numFmt w:val="bullet"/>');
+  });
+
+  it('escapes text and links contacts through relationships', () => {
+    expect(files['word/document.xml']).toContain(
+      'Notes &amp; &lt;programs&gt;'
+    );
+
+    const relationships = parseXML(files['word/_rels/document.xml.rels']);
+    const targets = Array.from(
+      relationships.getElementsByTagName('Relationship')
+    )
+      .filter((relationship) => relationship.getAttribute('TargetMode'))
+      .map((relationship) => relationship.getAttribute('Target'));
+    expect(targets).toEqual([
+      'mailto:ada@example.com',
+      'https://linkedin.com/in/ada',
+    ]);
+    expect(document.getElementsByTagName('w:hyperlink')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,202 @@
+import { resumeData } from '../../data/resumeData';
+import {
+  assertValidResumeData,
+  ResumeValidationError,
+  validateResumeData,
+} from '../resumeValidator';
+
+const cloneResume = () => JSON.parse(JSON.stringify(resumeData));
+
+const paths = (data: unknown) =>
+  validateResumeData(data).map((issue) => issue.path);
+
+describe('validateResumeData', () => {
+  test('accepts the portfolio resume data', () => {
+    expect(validateResumeData(resumeData)).toEqual([]);
+    expect(() => assertValidResumeData(resumeData)).not.toThrow();
+  });
+
+  test('reports unknown skill categories and proficiencies', () => {
+    const data = cloneResume();
+    data.skills[2].category = 'frontent';
+    data.skills[4].proficiency = 'guru';
+
+    const issues = validateResumeData(data);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].path).toBe('skills[2].category');
+    expect(issues[0].message).toContain(`'frontend'`);
+    expect(issues[1].path).toBe('skills[4].proficiency');
+  });
+
+  test('reports empty responsibilities and blank entries', () => {
+    const data = cloneResume();
+    data.experience[0].responsibilities = [];
+    data.experience[1].responsibilities[2] = '  ';
+
+    expect(paths(data)).toEqual([
+      'experience[0].responsibilities',
+      'experience[1].responsibilities[2]',
+    ]);
+  });
+
+  test('reports duplicate ids with a reference to the first use', () => {
+    const data = cloneResume();
+    data.experience[1].id = data.experience[0].id;
+
+    const issues = validateResumeData(data);
+
+    expect(issues).toEqual([
+      {
+        path: 'experience[1].id',
+        message: `duplicate id 'emoney-2022' (also used by experience[0])`,
+      },
+    ]);
+  });
+
+  test('reports malformed and out-of-order dates', () => {
+    const data = cloneResume();
+    data.experience[1].startDate = 'June 2017';
+    data.experience[1].endDate = { year: 2022, month: 13 };
+    data.experience[0].endDate = { year: 2020, month: 3 };
+    data.education[0].graduationDate = { year: 2012 };
+
+    expect(paths(data)).toEqual([
+      'experience[0].endDate',
+      'experience[1].startDate',
+      'experience[1].endDate',
+      'education[0].graduationDate',
+    ]);
+  });
+
+  test('accepts a year-only end date in the year the entry starts', () => {
+    const data = cloneResume();
+    data.experience[0].startDate = { year: 2020, month: 5 };
+    data.experience[0].endDate = { year: 2020 };
+    data.education[0].startDate = { year: 2020, month: 9 };
+    data.education[0].graduationDate = { year: 2020 };
+
+    expect(validateResumeData(data)).toEqual([]);
+  });
+
+  test('rejects present as a start or graduation date', () => {
+    const data = cloneResume();
+    data.experience[0].startDate = 'present';
+    data.education[0].graduationDate = 'present';
+
+    expect(paths(data)).toEqual([
+      'experience[0].startDate',
+      'education[0].graduationDate',
+    ]);
+  });
+
+  test('allows education without a start date', () => {
+    const data = cloneResume();
+    delete data.education[0].startDate;
+
+    expect(validateResumeData(data)).toEqual([]);
+  });
+
+  test('reports project links without a URL scheme and images without alt text', () => {
+    const data = cloneResume();
+    data.projects[0].links[0].url = 'github.com/RobSamalonis';
+    data.projects[0].images = [{ src: '/screenshot.png', alt: '' }];
+
+    expect(paths(data)).toEqual([
+      'projects[0].links[0].url',
+      'projects[0].images[0].alt',
+    ]);
+  });
+
+  test('validates optional certifications, publications and awards', () => {
+    const data = cloneResume();
+    data.certifications = [
+      {
+        id: 'cpacc',
+        name: 'CPACC',
+        issuer: 'IAAP',
+        date: { year: 2023, month: 5 },
+        expiryDate: { year: 2020, month: 1 },
+        credentialUrl: 'example.com/cpacc',
+      },
+    ];
+    data.publications = [
+      {
+        id: 'a11y',
+        title: 'Accessible Charts',
+        publisher: '',
+        date: { year: 2024 },
+      },
+    ];
+    data.awards = 'Hackathon Winner';
+
+    expect(paths(data)).toEqual([
+      'certifications[0].credentialUrl',
+      'certifications[0].expiryDate',
+      'publications[0].publisher',
+      'awards',
+    ]);
+  });
+
+  test('reports malformed tagged responsibilities and unused variant tags', () => {
+    const data = cloneResume();
+    data.experience[0].responsibilities[0] = { text: 'Led work', tags: [] };
+    data.experience[0].responsibilities[1] = { tags: ['frontend'] };
+    data.variants[0].tags = ['frontnd'];
+
+    expect(paths(data)).toEqual([
+      'experience[0].responsibilities[0].tags',
+      'experience[0].responsibilities[1].text',
+      'variants[0].tags[0]',
+    ]);
+  });
+
+  test('reports invalid personal info fields', () => {
+    const data = cloneResume();
+    data.personalInfo.email = 'robsamalonis.gmail.com';
+    data.personalInfo.name = '';
+    delete data.personalInfo.summary;
+
+    expect(paths(data)).toEqual([
+      'personalInfo.name',
+      'personalInfo.summary',
+      'personalInfo.email',
+    ]);
+  });
+
+  test.each(['2024-5-31', '2024-02-30', '31/05/2024', 20240531])(
+    'reports an updated date of %p',
+    (updated) => {
+      expect(paths({ ...cloneResume(), updated })).toEqual(['updated']);
+    }
+  );
+
+  test('reports missing collections and non-object input', () => {
+    expect(paths(null)).toEqual(['$']);
+    expect(paths({ personalInfo: resumeData.personalInfo })).toEqual([
+      'updated',
+      'experience',
+      'education',
+      'projects',
+      'skills',
+    ]);
+  });
+
+  test('assertValidResumeData throws with every issue listed', () => {
+    const data = cloneResume();
+    data.skills[0].category = 'design';
+    data.experience[0].technologies = 'React';
+
+    expect(() => assertValidResumeData(data)).toThrow(ResumeValidationError);
+    try {
+      assertValidResumeData(data);
+    } catch (error) {
+      const { issues, message } = error as ResumeValidationError;
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'experience[0].technologies',
+        'skills[0].category',
+      ]);
+      expect(message).toContain('skills[0].category');
+    }
+  });
+});
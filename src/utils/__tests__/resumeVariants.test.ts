@@ -0,0 +1,128 @@
+import { resumeData } from '../../data/resumeData';
+import { ResumeData } from '../../types';
+import {
+  applyResumeVariant,
+  getRequestedVariant,
+  getRequestedVariantId,
+  getResponsibilityText,
+  getResumeURL,
+  getVariantPageURL,
+} from '../resumeVariants';
+
+const data: ResumeData = {
+  ...resumeData,
+  experience: [
+    {
+      id: 'agency',
+      company: 'Agency',
+      position: 'Engineer',
+      startDate: { year: 2020, month: 1 },
+      endDate: 'present',
+      responsibilities: [
+        'Shipped features',
+        { text: 'Built APIs', tags: ['backend'] },
+        { text: 'Built design system', tags: ['frontend'] },
+      ],
+      technologies: [],
+    },
+    {
+      id: 'print-shop',
+      company: 'Print Shop',
+      position: 'Operator',
+      startDate: { year: 2015, month: 1 },
+      endDate: { year: 2019, month: 12 },
+      responsibilities: ['Ran the presses'],
+      technologies: [],
+      tags: ['other'],
+    },
+  ],
+  skills: [
+    { id: 'git', name: 'Git', category: 'tools', proficiency: 'expert' },
+    {
+      id: 'node',
+      name: 'Node.js',
+      category: 'backend',
+      proficiency: 'advanced',
+      tags: ['backend'],
+    },
+    {
+      id: 'react',
+      name: 'React',
+      category: 'frontend',
+      proficiency: 'expert',
+      tags: ['frontend'],
+    },
+  ],
+  variants: [
+    {
+      id: 'frontend',
+      label: 'Frontend',
+      tags: ['frontend'],
+      title: 'Frontend Engineer',
+    },
+  ],
+};
+
+describe('resume variants', () => {
+  test('returns the data unchanged without a known variant', () => {
+    expect(applyResumeVariant(data, null)).toBe(data);
+    expect(applyResumeVariant(data, 'backend')).toBe(data);
+  });
+
+  test('keeps untagged and matching entries, matching ones first', () => {
+    const tailored = applyResumeVariant(data, 'frontend');
+
+    expect(tailored.personalInfo.title).toBe('Frontend Engineer');
+    expect(tailored.personalInfo.summary).toBe(data.personalInfo.summary);
+    expect(tailored.experience.map((exp) => exp.id)).toEqual(['agency']);
+    expect(
+      tailored.experience[0].responsibilities.map(getResponsibilityText)
+    ).toEqual(['Built design system', 'Shipped features']);
+    expect(tailored.skills.map((skill) => skill.id)).toEqual(['react', 'git']);
+  });
+
+  test('does not modify the source data', () => {
+    applyResumeVariant(data, 'frontend');
+
+    expect(data.experience).toHaveLength(2);
+    expect(data.skills.map((skill) => skill.id)).toEqual([
+      'git',
+      'node',
+      'react',
+    ]);
+  });
+
+  test('reads the variant from a query string', () => {
+    expect(getRequestedVariantId('?variant=frontend')).toBe('frontend');
+    expect(getRequestedVariantId('?utm_source=x')).toBeNull();
+  });
+
+  test("reads the variant from the query string or a known variant's page", () => {
+    const at = (search: string, pathname: string) =>
+      getRequestedVariant(resumeData, { search, pathname })?.id;
+
+    expect(at('?variant=frontend', '/')).toBe('frontend');
+    expect(at('', '/frontend/')).toBe('frontend');
+    expect(at('', '/frontend/index.html')).toBe('frontend');
+    expect(at('?variant=fullstack', '/frontend/')).toBe('fullstack');
+    expect(at('', '/')).toBeUndefined();
+    expect(at('', '/blog/')).toBeUndefined();
+    expect(at('?variant=unknown', '/frontend/')).toBeUndefined();
+  });
+
+  test('links to the site with the variant in the query string', () => {
+    expect(getResumeURL('https://example.com/')).toBe('https://example.com/');
+    expect(getResumeURL('https://example.com/', 'frontend')).toBe(
+      'https://example.com/?variant=frontend'
+    );
+  });
+
+  test("links to a variant's share page", () => {
+    expect(getVariantPageURL('https://example.com/')).toBe(
+      'https://example.com/'
+    );
+    expect(getVariantPageURL('https://example.com/', 'frontend')).toBe(
+      'https://example.com/frontend/'
+    );
+  });
+});
@@ -3,6 +3,7 @@ import { render, cleanup } from '@testing-library/react';
 import { ThemeProvider } from '@mui/material/styles';
 import fc from 'fast-check';
 import { theme } from '../../styles/theme';
+import { ResumeData } from '../../types';
 import App from '../../App';
 import {
   updateMetaTags,
@@ -329,40 +330,76 @@ describe('SEO Meta Tags Property Tests', () => {
 
   // Property test for structured data validation
   test('structured data contains all required professional profile information', () => {
+    const nonEmpty = fc.string().filter((s) => s.trim().length > 0);
+    const resumeDate = fc.record({
+      year: fc.integer({ min: 1990, max: 2030 }),
+      month: fc.integer({ min: 1, max: 12 }),
+    });
+
     fc.assert(
       fc.property(
         fc.record({
-          name: fc.string().filter((s) => s.trim().length > 0),
-          jobTitle: fc.string().filter((s) => s.trim().length > 0),
-          description: fc.string().filter((s) => s.trim().length > 0),
-          url: fc.constantFrom(
-            'https://example.com',
-            'https://robertsamalonis.github.io/'
-          ),
-          email: fc.constantFrom(
-            'test@example.com',
-            'robsamalonis@gmail.com',
-            'user@domain.org'
+          personalInfo: fc.record({
+            name: nonEmpty,
+            title: nonEmpty,
+            email: fc.constantFrom(
+              'test@example.com',
+              'robsamalonis@gmail.com',
+              'user@domain.org'
+            ),
+            linkedin: fc.constantFrom(
+              'linkedin.com/in/test-profile',
+              'https://www.linkedin.com/in/test-profile'
+            ),
+            summary: nonEmpty,
+          }),
+          experience: fc.array(
+            fc.record({
+              id: nonEmpty,
+              company: nonEmpty,
+              position: nonEmpty,
+              startDate: resumeDate,
+              endDate: fc.oneof(fc.constant('present' as const), resumeDate),
+              responsibilities: fc.array(nonEmpty, { maxLength: 3 }),
+              technologies: fc.array(nonEmpty, { maxLength: 3 }),
+            }),
+            { minLength: 1, maxLength: 5 }
           ),
-          telephone: fc.constantFrom('+1-555-123-4567', '555-123-4567'),
-          worksFor: fc.string().filter((s) => s.trim().length > 0),
-          alumniOf: fc.string().filter((s) => s.trim().length > 0),
-          knowsAbout: fc.array(
-            fc.string().filter((s) => s.trim().length > 0),
-            { minLength: 1, maxLength: 10 }
+          education: fc.array(
+            fc.record({
+              id: nonEmpty,
+              institution: nonEmpty,
+              degree: nonEmpty,
+              field: nonEmpty,
+              graduationDate: resumeDate,
+            }),
+            { maxLength: 3 }
           ),
           skills: fc.array(
-            fc.string().filter((s) => s.trim().length > 0),
+            fc.record({
+              id: nonEmpty,
+              name: nonEmpty,
+              category: fc.constantFrom(
+                'frontend' as const,
+                'backend' as const,
+                'tools' as const
+              ),
+              proficiency: fc.constantFrom(
+                'intermediate' as const,
+                'expert' as const
+              ),
+            }),
             { minLength: 1, maxLength: 10 }
           ),
+          projects: fc.constant([] as ResumeData['projects']),
+          updated: fc.constant('2024-05-31'),
         }),
-        (profileData) => {
+        (resume) => {
           cleanup();
 
-          // Generate structured data with the test profile data
-          const structuredData = generatePersonStructuredData({
-            ...profileData,
-            sameAs: ['https://linkedin.com/in/test-profile'],
+          // Generate structured data with the test resume data
+          const structuredData = generatePersonStructuredData(resume, {
+            url: 'https://example.com/',
           });
 
           // Inject the structured data into the document
@@ -383,35 +420,51 @@ describe('SEO Meta Tags Property Tests', () => {
             fail('Structured data should be valid JSON');
           }
 
-          // Property: Structured data should contain all required Schema.org Person properties
+          // Property: The page is a ProfilePage about the Person
           expect(parsedData['@context']).toBe('https://schema.org');
-          expect(parsedData['@type']).toBe('Person');
-          expect(parsedData.name).toBe(profileData.name);
-          expect(parsedData.jobTitle).toBe(profileData.jobTitle);
-          expect(parsedData.description).toBe(profileData.description);
-          expect(parsedData.url).toBe(profileData.url);
-          expect(parsedData.email).toBe(profileData.email);
-          expect(parsedData.telephone).toBe(profileData.telephone);
-
-          // Property: Structured data should contain nested organization information
-          expect(parsedData.worksFor).toBeTruthy();
-          expect(parsedData.worksFor['@type']).toBe('Organization');
-          expect(parsedData.worksFor.name).toBe(profileData.worksFor);
-
-          expect(parsedData.alumniOf).toBeTruthy();
-          expect(parsedData.alumniOf['@type']).toBe('EducationalOrganization');
-          expect(parsedData.alumniOf.name).toBe(profileData.alumniOf);
-
-          // Property: Structured data should contain occupation information
-          expect(parsedData.hasOccupation).toBeTruthy();
-          expect(parsedData.hasOccupation['@type']).toBe('Occupation');
-          expect(parsedData.hasOccupation.name).toBe(profileData.jobTitle);
-          expect(parsedData.hasOccupation.skills).toEqual(profileData.skills);
-
-          // Property: Arrays should be properly formatted
-          expect(Array.isArray(parsedData.knowsAbout)).toBe(true);
-          expect(parsedData.knowsAbout).toEqual(profileData.knowsAbout);
-          expect(Array.isArray(parsedData.sameAs)).toBe(true);
+          expect(parsedData['@type']).toBe('ProfilePage');
+          expect(parsedData.url).toBe('https://example.com/');
+
+          const person = parsedData.mainEntity;
+          expect(person['@type']).toBe('Person');
+          expect(person.name).toBe(resume.personalInfo.name);
+          expect(person.jobTitle).toBe(resume.personalInfo.title);
+          expect(person.description).toBe(resume.personalInfo.summary);
+          expect(person.email).toBe(resume.personalInfo.email);
+          expect(person.sameAs).toEqual([
+            expect.stringMatching(
+              /^https:\/\/.*linkedin\.com\/in\/test-profile$/
+            ),
+          ]);
+
+          // Property: Every employer and school is listed, in resume order
+          expect(person.worksFor).toHaveLength(resume.experience.length);
+          person.worksFor.forEach(
+            (role: Record<string, unknown>, index: number) => {
+              const exp = resume.experience[index];
+              expect(role['@type']).toBe('OrganizationRole');
+              expect(role.roleName).toBe(exp.position);
+              expect(role.worksFor).toEqual({
+                '@type': 'Organization',
+                name: exp.company,
+              });
+              expect(role.startDate).toMatch(/^\d{4}-\d{2}$/);
+              expect(role.endDate === undefined).toBe(
+                exp.endDate === 'present'
+              );
+            }
+          );
+          expect(person.alumniOf).toEqual(
+            resume.education.map((edu) => ({
+              '@type': 'EducationalOrganization',
+              name: edu.institution,
+            }))
+          );
+
+          // Property: Skills are listed as knowsAbout
+          expect(person.knowsAbout).toEqual(
+            resume.skills.map((skill) => skill.name)
+          );
         }
       ),
       { numRuns: 100 }
@@ -0,0 +1,269 @@
+import { ResumeData } from '../../types';
+import {
+  defaultSEOConfig,
+  generatePersonStructuredData,
+  getSectionSEOConfig,
+  getVariantSEOConfig,
+  renderHeadTags,
+} from '../seo';
+
+const resume: ResumeData = {
+  updated: '2024-05-31',
+  personalInfo: {
+    name: 'Robert Samalonis',
+    title: 'Senior Software Engineer',
+    email: 'robsamalonis@gmail.com',
+    linkedin: 'linkedin.com/in/robert-samalonis',
+    summary: 'Frontend engineer',
+  },
+  experience: [
+    {
+      id: 'emoney',
+      company: 'eMoney Advisor',
+      position: 'Senior Software Engineer',
+      startDate: { year: 2022, month: 4 },
+      endDate: 'present',
+      responsibilities: ['Built accessible components'],
+      technologies: ['React'],
+    },
+    {
+      id: 'elsevier',
+      company: 'Elsevier',
+      position: 'Software Engineer',
+      startDate: { year: 2019, month: 6 },
+      endDate: { year: 2022, month: 3 },
+      responsibilities: ['Maintained Node.js services'],
+      technologies: ['Node.js'],
+    },
+  ],
+  education: [
+    {
+      id: 'temple',
+      institution: 'Temple University',
+      degree: 'Bachelor of Science',
+      field: 'Computer Science',
+      graduationDate: { year: 2017 },
+    },
+  ],
+  skills: [
+    { id: 'react', name: 'React', category: 'frontend', proficiency: 'expert' },
+    {
+      id: 'node',
+      name: 'Node.js',
+      category: 'backend',
+      proficiency: 'advanced',
+    },
+  ],
+  projects: [],
+};
+
+// Properties each type must have: those schema.org marks as expected for the
+// type and Google requires for ProfilePage rich results
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  ProfilePage: ['mainEntity'],
+  Person: ['name'],
+  OrganizationRole: ['roleName', 'startDate', 'worksFor'],
+  Organization: ['name'],
+  EducationalOrganization: ['name'],
+  EducationalOccupationalCredential: ['name', 'credentialCategory'],
+};
+
+type Node = Record<string, unknown>;
+
+/**
+ * Every typed node in a JSON-LD graph, the root first
+ */
+const collectNodes = (value: unknown): Node[] => {
+  if (Array.isArray(value)) return value.flatMap(collectNodes);
+  if (typeof value !== 'object' || value === null) return [];
+  const node = value as Node;
+  const children = Object.values(node).flatMap(collectNodes);
+  return '@type' in node ? [node, ...children] : children;
+};
+
+const parse = (data: ResumeData) =>
+  JSON.parse(
+    generatePersonStructuredData(data, { url: 'https://example.com/' })
+  );
+
+describe('generatePersonStructuredData', () => {
+  test('describes a ProfilePage whose main entity is the Person', () => {
+    const page = parse(resume);
+
+    expect(page['@context']).toBe('https://schema.org');
+    expect(page['@type']).toBe('ProfilePage');
+    expect(page.url).toBe('https://example.com/');
+    expect(page.mainEntity).toMatchObject({
+      '@type': 'Person',
+      '@id': 'https://example.com/#person',
+      name: 'Robert Samalonis',
+      jobTitle: 'Senior Software Engineer',
+      description: 'Frontend engineer',
+      url: 'https://example.com/',
+      email: 'robsamalonis@gmail.com',
+      sameAs: ['https://linkedin.com/in/robert-samalonis'],
+      knowsAbout: ['React', 'Node.js'],
+    });
+  });
+
+  test('lists every employer as an OrganizationRole with its dates', () => {
+    expect(parse(resume).mainEntity.worksFor).toEqual([
+      {
+        '@type': 'OrganizationRole',
+        roleName: 'Senior Software Engineer',
+        startDate: '2022-04',
+        worksFor: { '@type': 'Organization', name: 'eMoney Advisor' },
+      },
+      {
+        '@type': 'OrganizationRole',
+        roleName: 'Software Engineer',
+        startDate: '2019-06',
+        endDate: '2022-03',
+        worksFor: { '@type': 'Organization', name: 'Elsevier' },
+      },
+    ]);
+  });
+
+  test('lists schools as EducationalOrganizations', () => {
+    expect(parse(resume).mainEntity.alumniOf).toEqual([
+      { '@type': 'EducationalOrganization', name: 'Temple University' },
+    ]);
+  });
+
+  test('gives every node the properties schema.org requires for its type', () => {
+    const nodes = collectNodes(
+      parse({
+        ...resume,
+        certifications: [
+          {
+            id: 'cpacc',
+            name: 'CPACC',
+            issuer: 'IAAP',
+            date: { year: 2023, month: 5 },
+          },
+        ],
+      })
+    );
+
+    expect(nodes.map((node) => node['@type'])).toEqual(
+      expect.arrayContaining(Object.keys(REQUIRED_PROPERTIES))
+    );
+    nodes.forEach((node) => {
+      const required = REQUIRED_PROPERTIES[node['@type'] as string];
+      expect(required).toBeDefined();
+      required.forEach((property) => {
+        expect(node[property]).toBeTruthy();
+      });
+    });
+  });
+
+  test('omits credentials and awards when there are none', () => {
+    const person = parse({ ...resume, certifications: [] }).mainEntity;
+
+    expect(person).not.toHaveProperty('hasCredential');
+    expect(person).not.toHaveProperty('award');
+  });
+
+  test('emits certifications as hasCredential and awards as award', () => {
+    const person = parse({
+      ...resume,
+      certifications: [
+        {
+          id: 'cpacc',
+          name: 'CPACC',
+          issuer: 'IAAP',
+          date: { year: 2023, month: 5 },
+          expiryDate: { year: 2026, month: 5 },
+          credentialUrl: 'https://example.com/credentials/cpacc',
+        },
+      ],
+      awards: [
+        {
+          id: 'hackathon-2021',
+          title: 'Hackathon Winner',
+          awarder: 'eMoney Advisor',
+          date: { year: 2021, month: 9 },
+        },
+      ],
+    }).mainEntity;
+
+    expect(person.hasCredential).toEqual([
+      {
+        '@type': 'EducationalOccupationalCredential',
+        name: 'CPACC',
+        credentialCategory: 'certification',
+        recognizedBy: { '@type': 'Organization', name: 'IAAP' },
+        dateCreated: '2023-05',
+        expires: '2026-05',
+        url: 'https://example.com/credentials/cpacc',
+      },
+    ]);
+    expect(person.award).toEqual(['Hackathon Winner, eMoney Advisor (2021)']);
+  });
+});
+
+describe('renderHeadTags', () => {
+  test('renders the title, description, Open Graph and canonical tags', () => {
+    const html = renderHeadTags(
+      {
+        title: 'Robert Samalonis',
+        description: 'Frontend engineer',
+        url: 'https://robertsamalonis.github.io/',
+      },
+      '{}'
+    );
+
+    expect(html).toContain('<title>Robert Samalonis</title>');
+    expect(html).toContain('<meta name="description" content="Frontend engineer" />');
+    expect(html).toContain('<meta property="og:title" content="Robert Samalonis" />');
+    expect(html).toContain('<meta property="twitter:url" content="https://robertsamalonis.github.io/" />');
+    expect(html).toContain('<link rel="canonical" href="https://robertsamalonis.github.io/" />');
+    expect(html).toContain('<meta property="og:type" content="website" />');
+    expect(html).not.toContain('keywords');
+  });
+
+  test('escapes attribute values', () => {
+    const html = renderHeadTags({ description: 'React & "TypeScript" <3' }, '{}');
+
+    expect(html).toContain('content="React &amp; &quot;TypeScript&quot; &lt;3"');
+  });
+
+  test('inlines the structured data without letting it close the script', () => {
+    const structuredData = generatePersonStructuredData({
+      ...resume,
+      personalInfo: { ...resume.personalInfo, summary: '</script><b>' },
+    });
+    const html = renderHeadTags({}, structuredData);
+    const json = html.match(/<script type="application\/ld\+json">([\s\S]*)<\/script>/)?.[1];
+
+    expect(json).not.toContain('</script>');
+    expect(JSON.parse(json ?? '')).toEqual(JSON.parse(structuredData));
+  });
+});
+
+describe('getSectionSEOConfig', () => {
+  test('titles the page after the section and points at its hash', () => {
+    expect(
+      getSectionSEOConfig({ id: 'projects', label: 'Projects' }, 'https://example.com/')
+    ).toEqual({
+      title: `Projects | ${defaultSEOConfig.title}`,
+      url: 'https://example.com/#projects',
+    });
+  });
+});
+
+describe('getVariantSEOConfig', () => {
+  test("points at the variant's page and share card", () => {
+    expect(getVariantSEOConfig('frontend', 'https://example.com/')).toEqual({
+      url: 'https://example.com/frontend/',
+      image: 'https://example.com/og-image-frontend.jpg',
+    });
+  });
+
+  test('points at the portfolio without a variant', () => {
+    expect(getVariantSEOConfig(undefined, 'https://example.com/')).toEqual({
+      url: 'https://example.com/',
+      image: 'https://example.com/og-image.jpg',
+    });
+  });
+});
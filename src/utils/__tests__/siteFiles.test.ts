@@ -0,0 +1,64 @@
+import { getSiteHost } from '../../config/site';
+import { getSitemapEntries, renderRobotsTxt, renderSitemap } from '../siteFiles';
+
+const lastModified = new Date('2024-03-05T22:30:00Z');
+
+describe('getSitemapEntries', () => {
+  test('lists the portfolio and the HTML resume on the host', () => {
+    expect(
+      getSitemapEntries('https://example.surge.sh/', 'Robert_Samalonis_Resume.html', lastModified)
+    ).toEqual([
+      { url: 'https://example.surge.sh/', lastModified },
+      { url: 'https://example.surge.sh/Robert_Samalonis_Resume.html', lastModified },
+    ]);
+  });
+
+  test("lists each resume variant's page", () => {
+    expect(
+      getSitemapEntries('https://example.com/', 'Robert_Samalonis_Resume.html', lastModified, [
+        'frontend',
+        'fullstack',
+      ]).map((entry) => entry.url)
+    ).toEqual([
+      'https://example.com/',
+      'https://example.com/frontend/',
+      'https://example.com/fullstack/',
+      'https://example.com/Robert_Samalonis_Resume.html',
+    ]);
+  });
+
+  test('lists only the portfolio when there is no HTML resume', () => {
+    expect(getSitemapEntries('https://example.com/', undefined, lastModified)).toEqual([
+      { url: 'https://example.com/', lastModified },
+    ]);
+  });
+});
+
+describe('renderSitemap', () => {
+  test('writes one url element per entry with a date-only lastmod', () => {
+    const xml = renderSitemap([{ url: 'https://example.com/?a=1&b=2', lastModified }]);
+
+    expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://example.com/?a=1&amp;b=2</loc>');
+    expect(xml).toContain('<lastmod>2024-03-05</lastmod>');
+  });
+});
+
+describe('renderRobotsTxt', () => {
+  test('allows crawling and points at the sitemap on the same host', () => {
+    expect(renderRobotsTxt('https://example.com/')).toBe(
+      'User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n'
+    );
+  });
+});
+
+describe('getSiteHost', () => {
+  test('defaults to the first host and finds others by id', () => {
+    expect(getSiteHost().id).toBe('github');
+    expect(getSiteHost('surge').url).toBe('https://robertsamalonis.surge.sh/');
+  });
+
+  test('rejects unknown hosts', () => {
+    expect(() => getSiteHost('netlify')).toThrow("Unknown site host 'netlify'");
+  });
+});
@@ -0,0 +1,102 @@
+import { Experience, Skill } from '../../types';
+import {
+  formatSkillUsage,
+  getSkillAnalytics,
+  matchTechnologyToSkill,
+} from '../skillAnalytics';
+
+const NOW = new Date(2027, 1, 15); // February 2027
+
+const skills: Skill[] = [
+  { id: 'react', name: 'React', category: 'frontend', proficiency: 'expert' },
+  { id: 'jest', name: 'Jest', category: 'tools', proficiency: 'advanced' },
+  {
+    id: 'nodejs',
+    name: 'Node.js',
+    category: 'backend',
+    proficiency: 'intermediate',
+  },
+  {
+    id: 'testing-library',
+    name: 'React Testing Library',
+    category: 'tools',
+    proficiency: 'advanced',
+    aliases: ['Testing Library', 'RTL'],
+  },
+];
+
+const experience: Experience[] = [
+  {
+    id: 'current',
+    company: 'Current Co',
+    position: 'Senior Engineer',
+    startDate: { year: 2022, month: 4 },
+    endDate: 'present',
+    responsibilities: ['Built things'],
+    technologies: ['React', 'Jest', 'Testing Library', 'Storybook'],
+  },
+  {
+    id: 'previous',
+    company: 'Previous Co',
+    position: 'Engineer',
+    startDate: { year: 2017, month: 6 },
+    endDate: { year: 2022, month: 3 },
+    responsibilities: ['Built other things'],
+    technologies: ['React', 'NodeJS', 'react'],
+  },
+];
+
+describe('skill analytics', () => {
+  test('matches technologies by id, name and alias', () => {
+    expect(matchTechnologyToSkill('Jest', skills)?.id).toBe('jest');
+    expect(matchTechnologyToSkill('node.js', skills)?.id).toBe('nodejs');
+    expect(matchTechnologyToSkill('RTL', skills)?.id).toBe('testing-library');
+    expect(matchTechnologyToSkill('Storybook', skills)).toBeUndefined();
+  });
+
+  test('computes years used and most recent use per skill', () => {
+    const { usage } = getSkillAnalytics({ experience, skills }, NOW);
+
+    expect(usage.react).toEqual({
+      skillId: 'react',
+      months: 117,
+      years: 9,
+      lastUsed: 'present',
+      current: true,
+      experienceIds: ['current', 'previous'],
+    });
+    expect(usage.nodejs).toMatchObject({
+      months: 58,
+      years: 4,
+      lastUsed: { year: 2022, month: 3 },
+      current: false,
+    });
+    expect(usage.jest.years).toBe(4);
+  });
+
+  test('flags technologies without a matching skill', () => {
+    const { usage, unmatched } = getSkillAnalytics({ experience, skills }, NOW);
+
+    expect(unmatched).toEqual([
+      {
+        experienceId: 'current',
+        technology: 'Storybook',
+        path: 'experience[0].technologies[3]',
+      },
+    ]);
+    expect(Object.keys(usage)).not.toContain('storybook');
+  });
+
+  test('formats usage badges', () => {
+    const { usage } = getSkillAnalytics({ experience, skills }, NOW);
+
+    expect(formatSkillUsage(usage.react)).toBe('9+ yrs · current');
+    expect(formatSkillUsage(usage.nodejs)).toBe('4+ yrs · 2022');
+    expect(formatSkillUsage({ ...usage.jest, months: 8, years: 0 })).toBe(
+      '<1 yr · current'
+    );
+    expect(formatSkillUsage({ ...usage.jest, months: 14, years: 1 })).toBe(
+      '1+ yr · current'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { findPDFTemplate } from '../pdfTemplates';
+import { createResumeDocument } from '../resumeDocument';
+import { getResumePDFFileId, renderStaticResumePDF } from '../staticResumePDF';
+
+const resume = createResumeDocument();
+const template = findPDFTemplate();
+
+const toText = (bytes: Uint8Array): string => Buffer.from(bytes).toString();
+
+describe('renderStaticResumePDF', () => {
+  it('gives byte-identical output for the same resume', () => {
+    const first = renderStaticResumePDF(resume, template);
+    const second = renderStaticResumePDF(resume, template);
+
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+  });
+
+  it('uses a fixed creation date and a file ID derived from the content', () => {
+    const output = toText(renderStaticResumePDF(resume, template));
+    const fileId = getResumePDFFileId(resume, template);
+
+    expect(fileId).toMatch(/^[0-9A-F]{32}$/);
+    expect(output).toContain("/CreationDate (D:19800101000000+00'00')");
+    expect(output).toContain(`/ID [ <${fileId}> <${fileId}> ]`);
+    expect(output).not.toContain('Generated on');
+  });
+
+  it('changes the file ID when the content changes', () => {
+    const edited = {
+      ...resume,
+      header: { ...resume.header, title: 'Staff Engineer' },
+    };
+
+    expect(getResumePDFFileId(edited, template)).not.toBe(
+      getResumePDFFileId(resume, template)
+    );
+    expect(getResumePDFFileId(resume, findPDFTemplate('modern'))).not.toBe(
+      getResumePDFFileId(resume, template)
+    );
+  });
+
+  it('takes the creation date from a build date when one is given', () => {
+    const output = toText(
+      renderStaticResumePDF(resume, template, {
+        createdAt: new Date(Date.UTC(2024, 4, 6)),
+      })
+    );
+
+    expect(output).toContain("/CreationDate (D:20240506000000+00'00')");
+  });
+
+  it('matches the committed public PDF', () => {
+    const committed = readFileSync(
+      join(process.cwd(), 'public', 'Robert_Samalonis_Resume.pdf')
+    );
+
+    // Out of date: run `npm run generate:resume` and commit the new PDF
+    expect(
+      Buffer.from(renderStaticResumePDF(resume, template)).equals(committed)
+    ).toBe(true);
+  });
+});
@@ -341,25 +341,33 @@ class ColorContrast {
 
 // User preference detection
 class UserPreferences {
+  /**
+   * Evaluates a media query; nothing matches while prerendering, where
+   * there is no window
+   */
+  private static matches(query: string): boolean {
+    return typeof window !== 'undefined' && window.matchMedia(query).matches;
+  }
+
   /**
    * Check if user prefers reduced motion
    */
   static prefersReducedMotion(): boolean {
-    return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    return this.matches('(prefers-reduced-motion: reduce)');
   }
 
   /**
    * Check if user prefers high contrast
    */
   static prefersHighContrast(): boolean {
-    return window.matchMedia('(prefers-contrast: high)').matches;
+    return this.matches('(prefers-contrast: high)');
   }
 
   /**
    * Check if user prefers dark color scheme
    */
   static prefersDarkMode(): boolean {
-    return window.matchMedia('(prefers-color-scheme: dark)').matches;
+    return this.matches('(prefers-color-scheme: dark)');
   }
 
   /**
@@ -0,0 +1,194 @@
+import {
+  CoverLetterDocument,
+  CoverLetterDraft,
+  CoverLetterHighlight,
+  ResumeData,
+} from '../types';
+import {
+  DEFAULT_RESUME_LOCALE,
+  getTotalYearsOfExperience,
+} from './resumeDates';
+import { buildResumeDocument } from './resumeDocument';
+import { getResponsibilityText } from './resumeVariants';
+
+/**
+ * Cover letter builder. Fills a fixed letter template from the resume and a
+ * draft (company, role, hiring manager and the responsibilities to quote),
+ * and keeps the draft in localStorage between visits.
+ */
+
+export const COVER_LETTER_STORAGE_KEY = 'portfolio-cover-letter-draft';
+
+export const EMPTY_COVER_LETTER_DRAFT: CoverLetterDraft = {
+  company: '',
+  role: '',
+  hiringManager: '',
+  highlightIds: [],
+};
+
+export interface CoverLetterOptions {
+  locale?: string;
+  // Date printed on the letter; today by default
+  date?: Date;
+}
+
+/**
+ * Every responsibility that can be quoted, in resume order
+ */
+export const getCoverLetterHighlights = (
+  data: Pick<ResumeData, 'experience'>
+): CoverLetterHighlight[] =>
+  data.experience.flatMap((exp) =>
+    exp.responsibilities.map((item, index) => ({
+      id: `${exp.id}:${index}`,
+      experienceId: exp.id,
+      company: exp.company,
+      position: exp.position,
+      text: getResponsibilityText(item),
+    }))
+  );
+
+const withArticle = (noun: string): string =>
+  `${/^[aeiou]/i.test(noun) ? 'an' : 'a'} ${noun}`;
+
+/**
+ * Fills the letter template. Highlights are quoted in resume order whatever
+ * order they were picked in, and ids that no longer exist are ignored.
+ */
+export const buildCoverLetter = (
+  data: ResumeData,
+  draft: CoverLetterDraft,
+  { locale = DEFAULT_RESUME_LOCALE, date = new Date() }: CoverLetterOptions = {}
+): CoverLetterDocument => {
+  const { language, header } = buildResumeDocument(data, { locale });
+  const company = draft.company.trim();
+  const role = draft.role.trim();
+  const hiringManager = draft.hiringManager.trim();
+  const years = getTotalYearsOfExperience(data.experience, date);
+
+  const selected = new Set(draft.highlightIds);
+  const highlights = getCoverLetterHighlights(data)
+    .filter((highlight) => selected.has(highlight.id))
+    .map((highlight) => `${highlight.text} (${highlight.company})`);
+
+  const position = role ? `the ${role} position` : 'a position';
+  const opening = [
+    `I am writing to apply for ${position}${company ? ` at ${company}` : ''}. I am ${withArticle(header.title)} with ${years} years of professional experience.`,
+    data.personalInfo.summary,
+  ];
+  if (highlights.length > 0) {
+    opening.push(
+      `Some of the work I am proudest of${role ? ` and that fits the ${role} role` : ''}:`
+    );
+  }
+
+  return {
+    language,
+    locale,
+    header,
+    company,
+    role,
+    date: new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }).format(date),
+    recipient: [hiringManager || 'Hiring Team', company].filter(Boolean),
+    salutation: `Dear ${hiringManager || (company ? `${company} Hiring Team` : 'Hiring Manager')},`,
+    opening,
+    highlights,
+    closing: [
+      `I would welcome the chance to discuss how I can contribute to ${company || 'your team'}. Thank you for your time and consideration.`,
+    ],
+    signOff: 'Sincerely,',
+    signature: header.name,
+  };
+};
+
+/**
+ * Renders a cover letter as plain text, ready to paste into an application
+ * form: header, date, recipient, then the letter with hyphen bullets
+ */
+export const renderCoverLetterText = (letter: CoverLetterDocument): string => {
+  const { header } = letter;
+  const blocks = [
+    [
+      header.name.toUpperCase(),
+      header.title,
+      ...header.contacts.map((contact) => contact.label),
+    ].join('\n'),
+    letter.date,
+    letter.recipient.join('\n'),
+    letter.salutation,
+    ...letter.opening,
+    ...(letter.highlights.length > 0
+      ? [letter.highlights.map((highlight) => `- ${highlight}`).join('\n')]
+      : []),
+    ...letter.closing,
+    `${letter.signOff}\n${letter.signature}`,
+  ];
+  return `${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * File name for an exported cover letter, e.g. Jane_Doe_Cover_Letter_Acme.pdf
+ */
+export const getCoverLetterFileName = (
+  letter: CoverLetterDocument,
+  extension: string
+): string =>
+  [letter.header.name, 'Cover Letter', letter.company]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .concat(`.${extension}`);
+
+const isDraft = (value: unknown): value is CoverLetterDraft => {
+  const draft = value as Partial<CoverLetterDraft> | null;
+  return (
+    typeof draft === 'object' &&
+    draft !== null &&
+    typeof draft.company === 'string' &&
+    typeof draft.role === 'string' &&
+    typeof draft.hiringManager === 'string' &&
+    Array.isArray(draft.highlightIds) &&
+    draft.highlightIds.every((id) => typeof id === 'string')
+  );
+};
+
+/**
+ * Reads the saved draft, or an empty one when there is none or it cannot be
+ * read (storage disabled, or a draft saved by an incompatible version)
+ */
+export const loadCoverLetterDraft = (): CoverLetterDraft => {
+  try {
+    const stored = localStorage.getItem(COVER_LETTER_STORAGE_KEY);
+    const draft: unknown = stored ? JSON.parse(stored) : null;
+    return isDraft(draft) ? draft : EMPTY_COVER_LETTER_DRAFT;
+  } catch {
+    return EMPTY_COVER_LETTER_DRAFT;
+  }
+};
+
+/**
+ * Saves the draft so it survives reloads
+ */
+export const saveCoverLetterDraft = (draft: CoverLetterDraft): void => {
+  try {
+    localStorage.setItem(COVER_LETTER_STORAGE_KEY, JSON.stringify(draft));
+  } catch (error) {
+    console.warn('Failed to save cover letter draft:', error);
+  }
+};
+
+/**
+ * Forgets the saved draft
+ */
+export const clearCoverLetterDraft = (): void => {
+  try {
+    localStorage.removeItem(COVER_LETTER_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear cover letter draft:', error);
+  }
+};
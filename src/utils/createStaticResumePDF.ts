@@ -1,27 +1,85 @@
 import { resumeData } from '../data/resumeData';
+import { ResumeDocument, ResumeDocumentEntry, ResumeDocumentSection } from '../types';
+import { encodeQRCode, renderQRCodeSVG } from './qrCode';
+import { createResumeDocument } from './resumeDocument';
 
 /**
- * Creates an HTML version of the resume for PDF conversion
+ * Escapes text for use in HTML content and attribute values
  */
-export const createResumeHTML = (): string => {
-  const { personalInfo, experience, education, skills } = resumeData;
+const escapeHTML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 
-  // Group skills by category
-  const skillsByCategory = skills.reduce((acc, skill) => {
-    if (!acc[skill.category]) {
-      acc[skill.category] = [];
-    }
-    acc[skill.category].push(skill);
-    return acc;
-  }, {} as Record<string, typeof skills>);
+// Entry class per section, so each keeps its print styles
+const ENTRY_CLASSES: Record<string, string> = {
+  experience: 'experience-item',
+  projects: 'project-item',
+  education: 'education-item',
+};
+
+const renderEntry = (entry: ResumeDocumentEntry, className: string): string => `
+            <div class="${className}">
+                <div class="job-header">
+                    <div>
+                        <div class="job-title">${escapeHTML(entry.title)}</div>
+                        <div class="company">${escapeHTML(entry.subtitle)}</div>
+                    </div>
+                    ${entry.date ? `<div class="date-range">${escapeHTML(entry.date)}</div>` : ''}
+                </div>
+                ${entry.summary ? `<div class="summary">${escapeHTML(entry.summary)}</div>` : ''}
+                ${entry.bullets.length > 0 ? `
+                <div class="responsibilities">
+                    ${entry.bullets.map(bullet => `
+                        <div class="responsibility">${escapeHTML(bullet)}</div>
+                    `).join('')}
+                </div>` : ''}
+                ${entry.technologies.length > 0 ? `
+                <div class="technologies">
+                    <span class="tech-label">Technologies:</span> ${escapeHTML(entry.technologies.join(', '))}
+                </div>` : ''}
+                ${entry.links.length > 0 ? `
+                <div class="project-links">
+                    ${entry.links.map(link => `<a href="${escapeHTML(link.url)}">${escapeHTML(link.label)}</a>`).join(' • ')}
+                </div>` : ''}
+            </div>
+        `;
+
+const renderSectionContent = (section: ResumeDocumentSection): string => {
+  switch (section.kind) {
+    case 'summary':
+      return `<div class="summary">${escapeHTML(section.text)}</div>`;
+    case 'entries':
+      return section.entries.map(entry => renderEntry(entry, ENTRY_CLASSES[section.id] ?? 'achievement-item')).join('');
+    case 'skills':
+      return `
+        <div class="skills-grid">
+            ${section.groups.map(group => `
+                <div class="skill-category">
+                    <div class="category-title">${escapeHTML(group.label)}</div>
+                    <div class="skill-level">${escapeHTML(group.skills.join(', '))}</div>
+                </div>
+            `).join('')}
+        </div>`;
+  }
+};
+
+/**
+ * Renders a resume document as a standalone, printable HTML page
+ */
+export const renderResumeHTML = (resume: ResumeDocument): string => {
+  const { header } = resume;
 
   return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${escapeHTML(resume.language)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${personalInfo.name} - Resume</title>
+    <title>${escapeHTML(header.name)} - Resume</title>
     <style>
         * {
             margin: 0;
@@ -40,12 +98,27 @@ export const createResumeHTML = (): string => {
         }
         
         .header {
+            position: relative;
             text-align: center;
             margin-bottom: 30px;
             border-bottom: 2px solid #00ffff;
             padding-bottom: 20px;
         }
         
+        .qr-code {
+            position: absolute;
+            top: 0;
+            right: 0;
+            width: 84px;
+            height: 84px;
+        }
+        
+        .qr-code svg {
+            display: block;
+            width: 100%;
+            height: 100%;
+        }
+        
         .name {
             font-size: 28px;
             font-weight: bold;
@@ -90,11 +163,32 @@ export const createResumeHTML = (): string => {
             text-align: justify;
         }
         
-        .experience-item, .education-item {
+        .experience-item, .education-item, .project-item, .achievement-item {
             margin-bottom: 20px;
             page-break-inside: avoid;
         }
         
+        .achievement-detail {
+            font-size: 10px;
+            color: #444;
+            margin-top: 4px;
+        }
+        
+        .achievement-detail a {
+            color: #ff1493;
+            text-decoration: none;
+        }
+        
+        .project-links {
+            margin-top: 6px;
+            font-size: 10px;
+        }
+        
+        .project-links a {
+            color: #ff1493;
+            text-decoration: none;
+        }
+        
         .job-header {
             display: flex;
             justify-content: space-between;
@@ -177,11 +271,6 @@ export const createResumeHTML = (): string => {
             line-height: 1.3;
         }
         
-        .skill-level-title {
-            font-weight: bold;
-            color: #333;
-        }
-        
         .education-header {
             display: flex;
             justify-content: space-between;
@@ -201,6 +290,14 @@ export const createResumeHTML = (): string => {
             margin-top: 2px;
         }
         
+        @media screen and (max-width: 600px) {
+            .qr-code {
+                position: static;
+                display: block;
+                margin: 15px auto 0;
+            }
+        }
+        
         @media print {
             body {
                 padding: 20px;
@@ -215,7 +312,7 @@ export const createResumeHTML = (): string => {
                 margin-bottom: 18px;
             }
             
-            .experience-item, .education-item {
+            .experience-item, .education-item, .project-item, .achievement-item {
                 page-break-inside: avoid;
                 margin-bottom: 15px;
             }
@@ -224,80 +321,32 @@ export const createResumeHTML = (): string => {
 </head>
 <body>
     <div class="header">
-        <div class="name">${personalInfo.name}</div>
-        <div class="title">${personalInfo.title}</div>
+        <div class="name">${escapeHTML(header.name)}</div>
+        <div class="title">${escapeHTML(header.title)}</div>
         <div class="contact-info">
-            ${personalInfo.email} • ${personalInfo.linkedin}
+            ${header.contacts.map(contact => escapeHTML(contact.label)).join(' • ')}
         </div>
+        ${header.url ? `<a class="qr-code" href="${escapeHTML(header.url)}">${renderQRCodeSVG(encodeQRCode(header.url), `QR code: ${header.url}`)}</a>` : ''}
     </div>
 
-    <div class="section">
-        <div class="section-title">Professional Summary</div>
-        <div class="summary">${personalInfo.summary}</div>
-    </div>
-
-    <div class="section">
-        <div class="section-title">Professional Experience</div>
-        ${experience.map(exp => `
-            <div class="experience-item">
-                <div class="job-header">
-                    <div>
-                        <div class="job-title">${exp.position}</div>
-                        <div class="company">${exp.company}</div>
-                    </div>
-                    <div class="date-range">${exp.startDate} - ${exp.endDate}</div>
-                </div>
-                <div class="responsibilities">
-                    ${exp.responsibilities.map(resp => `
-                        <div class="responsibility">${resp}</div>
-                    `).join('')}
-                </div>
-                <div class="technologies">
-                    <span class="tech-label">Technologies:</span> ${exp.technologies.join(', ')}
-                </div>
-            </div>
-        `).join('')}
-    </div>
-
-    <div class="section">
-        <div class="section-title">Education</div>
-        ${education.map(edu => `
-            <div class="education-item">
-                <div class="education-header">
-                    <div>
-                        <div class="degree">${edu.degree} in ${edu.field}</div>
-                        <div class="institution">${edu.institution}</div>
-                    </div>
-                    <div class="date-range">${edu.graduationDate}</div>
-                </div>
-            </div>
-        `).join('')}
-    </div>
-
-    <div class="section">
-        <div class="section-title">Technical Skills</div>
-        <div class="skills-grid">
-            ${Object.entries(skillsByCategory).map(([category, categorySkills]) => {
-                const expertSkills = categorySkills.filter(s => s.proficiency === 'expert').map(s => s.name);
-                const advancedSkills = categorySkills.filter(s => s.proficiency === 'advanced').map(s => s.name);
-                const intermediateSkills = categorySkills.filter(s => s.proficiency === 'intermediate').map(s => s.name);
-                
-                return `
-                    <div class="skill-category">
-                        <div class="category-title">${category.charAt(0).toUpperCase() + category.slice(1)}</div>
-                        ${expertSkills.length > 0 ? `<div class="skill-level"><span class="skill-level-title">Expert:</span> ${expertSkills.join(', ')}</div>` : ''}
-                        ${advancedSkills.length > 0 ? `<div class="skill-level"><span class="skill-level-title">Advanced:</span> ${advancedSkills.join(', ')}</div>` : ''}
-                        ${intermediateSkills.length > 0 ? `<div class="skill-level"><span class="skill-level-title">Intermediate:</span> ${intermediateSkills.join(', ')}</div>` : ''}
-                    </div>
-                `;
-            }).join('')}
-        </div>
+    ${resume.sections.map(section => `
+    <div class="section" id="${section.id}">
+        <div class="section-title">${escapeHTML(section.heading)}</div>
+        ${renderSectionContent(section)}
     </div>
+    `).join('')}
 </body>
 </html>
   `.trim();
 };
 
+/**
+ * Creates an HTML version of the resume for PDF conversion, optionally
+ * tailored to a resume variant
+ */
+export const createResumeHTML = (variant?: string | null): string =>
+  renderResumeHTML(createResumeDocument({ variant }));
+
 /**
  * Downloads the resume as an HTML file (can be printed to PDF)
  */
@@ -0,0 +1,49 @@
+/**
+ * Browser helpers for handing generated files and text to the visitor
+ */
+
+/**
+ * Saves generated content as a file through a temporary download link
+ */
+export const downloadFile = (
+  content: BlobPart,
+  fileName: string,
+  type: string
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Copies text to the clipboard, falling back to a hidden textarea where the
+ * async Clipboard API is unavailable (older browsers, non-secure origins)
+ */
+export const copyToClipboard = async (text: string): Promise<void> => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+
+  if (!copied) {
+    throw new Error('Copy to clipboard is not supported');
+  }
+};
@@ -0,0 +1,299 @@
+import { ResumeData } from '../types';
+import { getResponsibilityText } from './resumeVariants';
+
+/**
+ * Job description matcher. Extracts keywords from a pasted job description
+ * and checks each one against the resume's skills, the technologies listed
+ * on each role and the responsibility text, so applications can be tailored
+ * without sending the description anywhere.
+ */
+
+export interface JobKeyword {
+  // Spelling used in the job description
+  term: string;
+  // Times the term appears in the job description
+  count: number;
+  matched: boolean;
+  skillIds: string[];
+  experienceIds: string[];
+}
+
+export interface JobMatch {
+  keywords: JobKeyword[];
+  matched: JobKeyword[];
+  missing: JobKeyword[];
+  // Share of keywords found in the resume, 0-100
+  score: number;
+  skillIds: string[];
+  experienceIds: string[];
+  technologies: string[];
+}
+
+// Long descriptions produce long tails of one-off words; only the most
+// frequent keywords are scored
+const MAX_KEYWORDS = 40;
+
+// Common English words and job-posting boilerplate that never make useful
+// keywords on their own
+const STOP_WORDS = new Set(
+  `a about above across after all also an and any are as at be been being
+  both but by can could do does each etc for from has have help how if in
+  including into is it its may more most must new not of on or other our
+  out over per plus should so such than that the their them then there
+  these they this those through to up us via was we well were what when
+  where which while who will with within without would you your
+  ability able about apply applicant applicants benefit benefits bonus
+  candidate candidates collaborate company competitive complex culture
+  day degree deliver description desired developer disability employer
+  employment engineer environment equal excellent experience experienced
+  familiarity familiar full gender good great hands high ideal including
+  job join key knowledge least level looking make minimum modern nice
+  opportunity orientation
+  plus position preferred proficiency proficient proven qualification
+  qualifications related required requirements responsibilities
+  responsible role salary senior skill skills solid strong success support
+  team teams time understanding using work working world year years`
+    .split(/\s+/)
+    .filter(Boolean)
+);
+
+interface Word {
+  text: string;
+  key: string;
+  // First word of a sentence or list item, where capitals carry no meaning
+  sentenceStart: boolean;
+}
+
+/**
+ * Reduces a label to letters and digits, as skill analytics does, and drops
+ * a plural 's' so 'APIs' and 'API' compare equal
+ */
+const toKey = (value: string): string => {
+  const key = value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return key.length > 3 && key.endsWith('s') && !key.endsWith('ss')
+    ? key.slice(0, -1)
+    : key;
+};
+
+// Words keep the punctuation technology names rely on: Node.js, C++, C#, CI/CD
+const WORD_PATTERN = /[A-Za-z0-9][A-Za-z0-9.+#/-]*[A-Za-z0-9+#]|[A-Za-z0-9]/g;
+
+const toWords = (text: string): Word[] =>
+  Array.from(text.matchAll(WORD_PATTERN), (match) => {
+    const before = text.slice(0, match.index).trimEnd();
+    return {
+      text: match[0],
+      key: toKey(match[0]),
+      sentenceStart: before === '' || /[.!?:;\n•*-]$/.test(before),
+    };
+  }).filter((word) => word.key !== '');
+
+const toKeys = (text: string): string[] => toWords(text).map(({ key }) => key);
+
+const toPhraseKey = (text: string): string => toKeys(text).join('');
+
+const containsSequence = (haystack: string[], needle: string[]): boolean =>
+  needle.length > 0 &&
+  haystack.some((_, start) =>
+    needle.every((key, offset) => haystack[start + offset] === key)
+  );
+
+/**
+ * Words that look like technology names rather than prose: acronyms and
+ * mixed case (AWS, GraphQL), version numbers (ES6) and symbols (C#, Node.js)
+ */
+const looksTechnical = (word: string): boolean =>
+  /[A-Z].*[A-Z]|[0-9]|[.+#/]/.test(word.slice(1)) || /^[A-Z]{2,}$/.test(word);
+
+/**
+ * Extracts keywords from a job description, most frequent first. Skills and
+ * technologies the resume already names are recognised as whole phrases
+ * ("Web Accessibility"); other words are kept when they look technical, are
+ * capitalised mid-sentence, or are repeated.
+ */
+export const extractJobKeywords = (
+  description: string,
+  { experience, skills }: Pick<ResumeData, 'experience' | 'skills'>
+): Pick<JobKeyword, 'term' | 'count'>[] => {
+  const words = toWords(description);
+  const covered = new Set<number>();
+  const terms = new Map<string, { term: string; count: number }>();
+
+  const addTerm = (key: string, term: string) => {
+    const existing = terms.get(key);
+    terms.set(key, {
+      term: existing?.term ?? term,
+      count: (existing?.count ?? 0) + 1,
+    });
+  };
+
+  // Known phrases, longest first so 'React Native' wins over 'React'
+  const phrases = [
+    ...skills.flatMap((skill) => [skill.name, ...(skill.aliases ?? [])]),
+    ...experience.flatMap((exp) => exp.technologies),
+  ]
+    .map(toKeys)
+    .filter((keys) => keys.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  phrases.forEach((phrase) => {
+    words.forEach((_, start) => {
+      const positions = phrase.map((_, offset) => start + offset);
+      const matches = positions.every(
+        (position, offset) =>
+          !covered.has(position) && words[position]?.key === phrase[offset]
+      );
+      if (!matches) return;
+
+      positions.forEach((position) => covered.add(position));
+      addTerm(
+        phrase.join(' '),
+        positions.map((position) => words[position].text).join(' ')
+      );
+    });
+  });
+
+  const repeated = new Map<string, number>();
+  words.forEach(({ key }) => repeated.set(key, (repeated.get(key) ?? 0) + 1));
+
+  words.forEach((word, position) => {
+    if (covered.has(position) || STOP_WORDS.has(word.key)) return;
+    if (/^[0-9]+$/.test(word.key)) return;
+
+    const isCandidate =
+      looksTechnical(word.text) ||
+      (!word.sentenceStart && /^[A-Z]/.test(word.text)) ||
+      (word.key.length > 3 && (repeated.get(word.key) ?? 0) > 1);
+    if (isCandidate) {
+      addTerm(word.key, word.text);
+    }
+  });
+
+  return Array.from(terms.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_KEYWORDS);
+};
+
+/**
+ * Scores a job description against the resume: which keywords it covers,
+ * which it is missing, and the skills, roles and technologies that matched
+ */
+export const analyzeJobMatch = (
+  description: string,
+  data: Pick<ResumeData, 'experience' | 'skills'>
+): JobMatch => {
+  const { experience, skills } = data;
+  const responsibilityKeys = new Map(
+    experience.map((exp) => [
+      exp.id,
+      exp.responsibilities.map((item) => toKeys(getResponsibilityText(item))),
+    ])
+  );
+  const matchedTechnologies = new Set<string>();
+
+  const keywords = extractJobKeywords(description, data).map(
+    ({ term, count }): JobKeyword => {
+      const keys = toKeys(term);
+      const key = keys.join('');
+      const skillIds = skills
+        .filter((skill) =>
+          [skill.id, skill.name, ...(skill.aliases ?? [])].some(
+            (label) => toPhraseKey(label) === key
+          )
+        )
+        .map((skill) => skill.id);
+      const skillLabels = new Set(
+        skills
+          .filter((skill) => skillIds.includes(skill.id))
+          .flatMap((skill) => [skill.name, ...(skill.aliases ?? [])])
+          .map(toPhraseKey)
+      );
+
+      const experienceIds = experience
+        .filter((exp) => {
+          const technologies = exp.technologies.filter((tech) => {
+            const techKey = toPhraseKey(tech);
+            return techKey === key || skillLabels.has(techKey);
+          });
+          technologies.forEach((tech) => matchedTechnologies.add(tech));
+          return (
+            technologies.length > 0 ||
+            (responsibilityKeys.get(exp.id) ?? []).some((sentence) =>
+              containsSequence(sentence, keys)
+            )
+          );
+        })
+        .map((exp) => exp.id);
+
+      return {
+        term,
+        count,
+        matched: skillIds.length > 0 || experienceIds.length > 0,
+        skillIds,
+        experienceIds,
+      };
+    }
+  );
+
+  const matched = keywords.filter((keyword) => keyword.matched);
+  const unique = (ids: string[]) => Array.from(new Set(ids));
+
+  return {
+    keywords,
+    matched,
+    missing: keywords.filter((keyword) => !keyword.matched),
+    score:
+      keywords.length === 0
+        ? 0
+        : Math.round((matched.length / keywords.length) * 100),
+    skillIds: unique(matched.flatMap((keyword) => keyword.skillIds)),
+    experienceIds: unique(matched.flatMap((keyword) => keyword.experienceIds)),
+    technologies: Array.from(matchedTechnologies),
+  };
+};
+
+export interface TextSegment {
+  text: string;
+  matched: boolean;
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text into plain and matched runs so matched keywords can be marked
+ * up, e.g. in a responsibility bullet
+ */
+export const splitByKeywords = (
+  text: string,
+  keywords: JobKeyword[]
+): TextSegment[] => {
+  const patterns = keywords
+    .filter((keyword) => keyword.matched)
+    .map((keyword) =>
+      keyword.term.split(/\s+/).map(escapeRegExp).join('[\\s-]+')
+    )
+    .sort((a, b) => b.length - a.length);
+  if (patterns.length === 0) {
+    return [{ text, matched: false }];
+  }
+
+  const pattern = new RegExp(
+    `(?<![A-Za-z0-9])(?:${patterns.join('|')})s?(?![A-Za-z0-9])`,
+    'gi'
+  );
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), matched: false });
+    }
+    segments.push({ text: match[0], matched: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), matched: false });
+  }
+  return segments;
+};
@@ -0,0 +1,362 @@
+import {
+  Award,
+  Certification,
+  Education,
+  Experience,
+  JSONResume,
+  JSONResumeAward,
+  JSONResumeCertificate,
+  JSONResumeEducation,
+  JSONResumeProfile,
+  JSONResumeProject,
+  JSONResumePublication,
+  JSONResumeSkill,
+  JSONResumeWork,
+  Project,
+  Publication,
+  ResumeData,
+  Skill,
+} from '../types';
+import { parseISOPartialDate, toISOPartialDate } from './resumeDates';
+import { getResponsibilityText } from './resumeVariants';
+import { PROFICIENCY_LEVELS, SKILL_CATEGORIES } from './resumeValidator';
+
+/**
+ * Converters between the portfolio's ResumeData model and the community
+ * JSON Resume schema, so one resume.json can feed this site and other tooling
+ */
+
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const toProfileURL = (value: string): string =>
+  /^https?:\/\//i.test(value) ? value : `https://${value}`;
+
+const stripProtocol = (value: string): string =>
+  value.replace(/^https?:\/\//i, '').replace(/\/+$/, '');
+
+const toJSONResumeWork = (exp: Experience): JSONResumeWork => ({
+  id: exp.id,
+  name: exp.company,
+  position: exp.position,
+  startDate: toISOPartialDate(exp.startDate),
+  ...(exp.endDate !== 'present'
+    ? { endDate: toISOPartialDate(exp.endDate) }
+    : {}),
+  highlights: exp.responsibilities.map(getResponsibilityText),
+  keywords: [...exp.technologies],
+  ...(exp.responsibilities.some((item) => typeof item !== 'string')
+    ? {
+        highlightTags: exp.responsibilities.map((item) =>
+          typeof item === 'string' ? [] : [...item.tags]
+        ),
+      }
+    : {}),
+  ...(exp.tags ? { tags: [...exp.tags] } : {}),
+});
+
+const toJSONResumeEducation = (edu: Education): JSONResumeEducation => ({
+  id: edu.id,
+  institution: edu.institution,
+  area: edu.field,
+  studyType: edu.degree,
+  ...(edu.startDate ? { startDate: toISOPartialDate(edu.startDate) } : {}),
+  endDate: toISOPartialDate(edu.graduationDate),
+});
+
+const toJSONResumeSkill = (skill: Skill): JSONResumeSkill => ({
+  id: skill.id,
+  name: skill.name,
+  level: skill.proficiency,
+  category: skill.category,
+  ...(skill.aliases ? { aliases: [...skill.aliases] } : {}),
+  ...(skill.tags ? { tags: [...skill.tags] } : {}),
+});
+
+const toJSONResumeProject = (project: Project): JSONResumeProject => ({
+  id: project.id,
+  name: project.title,
+  description: project.summary,
+  highlights: [...project.highlights],
+  keywords: [...project.technologies],
+  roles: [project.role],
+  ...(project.links[0] ? { url: project.links[0].url } : {}),
+  ...(project.startDate
+    ? { startDate: toISOPartialDate(project.startDate) }
+    : {}),
+  ...(project.endDate && project.endDate !== 'present'
+    ? { endDate: toISOPartialDate(project.endDate) }
+    : {}),
+  links: project.links.map((link) => ({ ...link })),
+  images: project.images.map((image) => ({ ...image })),
+});
+
+const toJSONResumeCertificate = (
+  cert: Certification
+): JSONResumeCertificate => ({
+  id: cert.id,
+  name: cert.name,
+  issuer: cert.issuer,
+  date: toISOPartialDate(cert.date),
+  ...(cert.credentialUrl ? { url: cert.credentialUrl } : {}),
+  ...(cert.expiryDate ? { expiryDate: toISOPartialDate(cert.expiryDate) } : {}),
+});
+
+const toJSONResumePublication = (
+  publication: Publication
+): JSONResumePublication => ({
+  id: publication.id,
+  name: publication.title,
+  publisher: publication.publisher,
+  releaseDate: toISOPartialDate(publication.date),
+  ...(publication.url ? { url: publication.url } : {}),
+  ...(publication.summary ? { summary: publication.summary } : {}),
+});
+
+const toJSONResumeAward = (award: Award): JSONResumeAward => ({
+  id: award.id,
+  title: award.title,
+  awarder: award.awarder,
+  date: toISOPartialDate(award.date),
+  ...(award.summary ? { summary: award.summary } : {}),
+});
+
+/**
+ * Converts the portfolio's resume data to a JSON Resume document
+ */
+export const toJSONResume = (data: ResumeData): JSONResume => {
+  const { personalInfo } = data;
+  const linkedinURL = toProfileURL(personalInfo.linkedin);
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: personalInfo.name,
+      label: personalInfo.title,
+      email: personalInfo.email,
+      summary: personalInfo.summary,
+      profiles: [
+        {
+          network: 'LinkedIn',
+          username: linkedinURL.split('/').filter(Boolean).pop(),
+          url: linkedinURL,
+        },
+      ],
+    },
+    work: data.experience.map(toJSONResumeWork),
+    education: data.education.map(toJSONResumeEducation),
+    skills: data.skills.map(toJSONResumeSkill),
+    projects: data.projects.map(toJSONResumeProject),
+    ...(data.certifications
+      ? { certificates: data.certifications.map(toJSONResumeCertificate) }
+      : {}),
+    ...(data.publications
+      ? { publications: data.publications.map(toJSONResumePublication) }
+      : {}),
+    ...(data.awards ? { awards: data.awards.map(toJSONResumeAward) } : {}),
+    meta: {
+      lastModified: data.updated,
+      ...(data.variants
+        ? {
+            variants: data.variants.map((variant) => ({
+              ...variant,
+              tags: [...variant.tags],
+            })),
+          }
+        : {}),
+    },
+  };
+};
+
+const getLinkedInHandle = (profiles: JSONResumeProfile[] = []): string => {
+  const linkedin = profiles.find(
+    (profile) => profile.network.toLowerCase() === 'linkedin'
+  );
+
+  if (linkedin?.url) {
+    return stripProtocol(linkedin.url);
+  }
+  return linkedin?.username ? `linkedin.com/in/${linkedin.username}` : '';
+};
+
+const requireDate = (value: string | undefined, path: string) => {
+  if (!value) {
+    throw new Error(`JSON Resume ${path} is required`);
+  }
+  return parseISOPartialDate(value);
+};
+
+const fromJSONResumeWork = (
+  work: JSONResumeWork,
+  index: number
+): Experience => ({
+  id: work.id ?? slugify(`${work.name} ${work.startDate?.slice(0, 4) ?? ''}`),
+  company: work.name,
+  position: work.position,
+  startDate: requireDate(work.startDate, `work[${index}].startDate`),
+  endDate: work.endDate ? parseISOPartialDate(work.endDate) : 'present',
+  responsibilities: work.highlights
+    ? work.highlights.map((text, highlightIndex) => {
+        const tags = work.highlightTags?.[highlightIndex] ?? [];
+        return tags.length > 0 ? { text, tags } : text;
+      })
+    : work.summary
+      ? [work.summary]
+      : [],
+  technologies: work.keywords ?? [],
+  ...(work.tags ? { tags: work.tags } : {}),
+});
+
+const fromJSONResumeEducation = (
+  edu: JSONResumeEducation,
+  index: number
+): Education => ({
+  id: edu.id ?? slugify(edu.institution),
+  institution: edu.institution,
+  degree: edu.studyType ?? '',
+  field: edu.area ?? '',
+  ...(edu.startDate ? { startDate: parseISOPartialDate(edu.startDate) } : {}),
+  graduationDate: requireDate(edu.endDate, `education[${index}].endDate`),
+});
+
+const fromJSONResumeSkill = (skill: JSONResumeSkill): Skill => {
+  // Exports made before category had its own field listed it in keywords
+  const category = SKILL_CATEGORIES.find(
+    (candidate) =>
+      skill.category?.toLowerCase() === candidate ||
+      skill.keywords?.some((keyword) => keyword.toLowerCase() === candidate)
+  );
+  const proficiency = PROFICIENCY_LEVELS.find(
+    (level) => level === skill.level?.toLowerCase()
+  );
+
+  return {
+    id: skill.id ?? slugify(skill.name),
+    name: skill.name,
+    category: category ?? 'other',
+    proficiency: proficiency ?? 'intermediate',
+    ...(skill.aliases ? { aliases: skill.aliases } : {}),
+    ...(skill.tags ? { tags: skill.tags } : {}),
+  };
+};
+
+const fromJSONResumeProject = (project: JSONResumeProject): Project => {
+  // JSON Resume has no way to say a project is ongoing; a start date without
+  // an end date is treated as current, mirroring work entries
+  const endDate = project.endDate
+    ? parseISOPartialDate(project.endDate)
+    : project.startDate
+      ? ('present' as const)
+      : undefined;
+
+  return {
+    id: project.id ?? slugify(project.name),
+    title: project.name,
+    summary: project.description ?? '',
+    role: project.roles?.join(', ') ?? '',
+    highlights: project.highlights ?? [],
+    technologies: project.keywords ?? [],
+    links:
+      project.links ??
+      (project.url ? [{ label: 'Project Website', url: project.url }] : []),
+    images: project.images ?? [],
+    ...(project.startDate
+      ? { startDate: parseISOPartialDate(project.startDate) }
+      : {}),
+    ...(endDate ? { endDate } : {}),
+  };
+};
+
+const fromJSONResumeCertificate = (
+  cert: JSONResumeCertificate,
+  index: number
+): Certification => ({
+  id: cert.id ?? slugify(cert.name),
+  name: cert.name,
+  issuer: cert.issuer ?? '',
+  date: requireDate(cert.date, `certificates[${index}].date`),
+  ...(cert.expiryDate
+    ? { expiryDate: parseISOPartialDate(cert.expiryDate) }
+    : {}),
+  ...(cert.url ? { credentialUrl: cert.url } : {}),
+});
+
+const fromJSONResumePublication = (
+  publication: JSONResumePublication,
+  index: number
+): Publication => ({
+  id: publication.id ?? slugify(publication.name),
+  title: publication.name,
+  publisher: publication.publisher ?? '',
+  date: requireDate(
+    publication.releaseDate,
+    `publications[${index}].releaseDate`
+  ),
+  ...(publication.url ? { url: publication.url } : {}),
+  ...(publication.summary ? { summary: publication.summary } : {}),
+});
+
+const fromJSONResumeAward = (award: JSONResumeAward, index: number): Award => ({
+  id: award.id ?? slugify(award.title),
+  title: award.title,
+  awarder: award.awarder ?? '',
+  date: requireDate(award.date, `awards[${index}].date`),
+  ...(award.summary ? { summary: award.summary } : {}),
+});
+
+export interface FromJSONResumeOptions {
+  // Day the content last changed (YYYY-MM-DD) when the document has no
+  // meta.lastModified, e.g. the current resumeData.updated
+  updated?: string;
+}
+
+const getUpdated = (resume: JSONResume, fallback?: string): string => {
+  const updated = resume.meta?.lastModified?.slice(0, 10) ?? fallback;
+  if (!updated) {
+    throw new Error('JSON Resume meta.lastModified is required');
+  }
+  return updated;
+};
+
+/**
+ * Converts a JSON Resume document to the portfolio's resume data. The
+ * updated day comes from meta.lastModified, never from the clock, so
+ * importing the same document twice gives the same data.
+ */
+export const fromJSONResume = (
+  resume: JSONResume,
+  { updated }: FromJSONResumeOptions = {}
+): ResumeData => {
+  const { basics } = resume;
+
+  return {
+    updated: getUpdated(resume, updated),
+    personalInfo: {
+      name: basics.name,
+      title: basics.label ?? '',
+      email: basics.email ?? '',
+      linkedin: getLinkedInHandle(basics.profiles),
+      summary: basics.summary ?? '',
+    },
+    experience: (resume.work ?? []).map(fromJSONResumeWork),
+    education: (resume.education ?? []).map(fromJSONResumeEducation),
+    skills: (resume.skills ?? []).map(fromJSONResumeSkill),
+    projects: (resume.projects ?? []).map(fromJSONResumeProject),
+    ...(resume.certificates
+      ? { certifications: resume.certificates.map(fromJSONResumeCertificate) }
+      : {}),
+    ...(resume.publications
+      ? { publications: resume.publications.map(fromJSONResumePublication) }
+      : {}),
+    ...(resume.awards
+      ? { awards: resume.awards.map(fromJSONResumeAward) }
+      : {}),
+    ...(resume.meta?.variants ? { variants: resume.meta.variants } : {}),
+  };
+};
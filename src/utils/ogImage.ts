@@ -0,0 +1,91 @@
+import { colorPalette } from '../styles/theme';
+import { ResumeData } from '../types';
+import { applyResumeVariant } from './resumeVariants';
+
+/**
+ * Open Graph share cards: one 1200×630 image per resume variant, showing the
+ * profile photo, name and (variant) title in the theme's colors. The images
+ * are drawn at build time by ogImageGenerator.ts; this module only describes
+ * them, so the browser can link to the right one.
+ */
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Profile photo circle, centred vertically on the right of the card
+export const OG_IMAGE_PHOTO = { size: 360, left: 760, top: 135 };
+
+export interface OGImageCard {
+  fileName: string;
+  name: string;
+  title: string;
+}
+
+/**
+ * File name of a variant's card; the default resume gets og-image.jpg
+ */
+export const getOGImageFileName = (variantId?: string | null): string =>
+  variantId ? `og-image-${variantId}.jpg` : 'og-image.jpg';
+
+/**
+ * Address of a variant's card on the site
+ */
+export const getOGImageURL = (
+  siteURL: string,
+  variantId?: string | null
+): string => new URL(getOGImageFileName(variantId), siteURL).href;
+
+/**
+ * Describes the card for the default resume and for every variant, with the
+ * title the variant shows
+ */
+export const getOGImageCards = (data: ResumeData): OGImageCard[] =>
+  [undefined, ...(data.variants ?? []).map((variant) => variant.id)].map(
+    (variantId) => {
+      const { personalInfo } = applyResumeVariant(data, variantId);
+      return {
+        fileName: getOGImageFileName(variantId),
+        name: personalInfo.name,
+        title: personalInfo.title,
+      };
+    }
+  );
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Draws everything on the card except the photo as SVG: the dark
+ * background, accent bars, name and title, plus the ring the photo is
+ * composited into
+ */
+export const createOGImageSVG = (card: OGImageCard): string => {
+  const { black, darkGray } = colorPalette.primary;
+  const { hotPink, electricBlue } = colorPalette.accent;
+  const { white } = colorPalette.neutral;
+  const { size, left, top } = OG_IMAGE_PHOTO;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <defs>
+    <linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="${black}" />
+      <stop offset="100%" stop-color="${darkGray}" />
+    </linearGradient>
+    <linearGradient id="accent" x1="0" y1="0" x2="1" y2="0">
+      <stop offset="0%" stop-color="${hotPink}" />
+      <stop offset="100%" stop-color="${electricBlue}" />
+    </linearGradient>
+  </defs>
+  <rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="url(#background)" />
+  <rect width="${OG_IMAGE_WIDTH}" height="12" fill="url(#accent)" />
+  <rect y="${OG_IMAGE_HEIGHT - 12}" width="${OG_IMAGE_WIDTH}" height="12" fill="url(#accent)" />
+  <circle cx="${left + size / 2}" cy="${top + size / 2}" r="${size / 2 + 8}" fill="url(#accent)" />
+  <text x="80" y="290" font-family="Helvetica, Arial, sans-serif" font-size="64" font-weight="700" fill="${white}">${escapeXML(card.name)}</text>
+  <rect x="80" y="320" width="120" height="6" fill="${hotPink}" />
+  <text x="80" y="390" font-family="Helvetica, Arial, sans-serif" font-size="36" fill="${electricBlue}">${escapeXML(card.title)}</text>
+</svg>`;
+};
@@ -0,0 +1,59 @@
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createOGImageSVG, OGImageCard, OG_IMAGE_PHOTO } from './ogImage';
+
+/**
+ * Crops the profile photo to the circle it sits in on the card
+ */
+async function renderPhoto(photoPath: string): Promise<Buffer> {
+  const { size } = OG_IMAGE_PHOTO;
+  const mask = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><circle cx="${size / 2}" cy="${size / 2}" r="${size / 2}" /></svg>`
+  );
+
+  return sharp(photoPath)
+    .resize(size, size, {
+      fit: 'cover',
+      position: 'center'
+    })
+    .composite([{ input: mask, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Draws one Open Graph card as a JPEG: the SVG layout from ogImage.ts with
+ * the profile photo composited into its ring
+ */
+export async function renderOGImage(
+  photoPath: string,
+  card: OGImageCard
+): Promise<Buffer> {
+  const { left, top } = OG_IMAGE_PHOTO;
+  const photo = await renderPhoto(photoPath);
+
+  return sharp(Buffer.from(createOGImageSVG(card)))
+    .composite([{ input: photo, left, top }])
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer();
+}
+
+/**
+ * Writes a card per entry into the output directory
+ */
+export async function generateOGImages(
+  photoPath: string,
+  cards: OGImageCard[],
+  outputDir: string
+): Promise<string[]> {
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const written: string[] = [];
+  for (const card of cards) {
+    const outputPath = path.join(outputDir, card.fileName);
+    await fs.writeFile(outputPath, await renderOGImage(photoPath, card));
+    written.push(outputPath);
+  }
+  return written;
+}
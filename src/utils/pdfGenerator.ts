@@ -1,211 +1,515 @@
-import jsPDF from 'jspdf';
-import { resumeData } from '../data/resumeData';
+import { jsPDF } from 'jspdf';
+import { CoverLetterDocument, ResumeDocument, ResumeDocumentEntry, ResumeDocumentHeader, ResumeDocumentSection, ResumeDocumentSkillsSection } from '../types';
+import { getCoverLetterFileName } from './coverLetter';
+import { PDFLayoutBlock, PDFPageFrame, paginateBlocks } from './pdfLayout';
+import { findPDFPaper, PDFPaperSize } from './pdfPaper';
+import { findPDFTemplate, PDFTemplate, RGBColor } from './pdfTemplates';
+import { encodeQRCode, getQRCodeRuns } from './qrCode';
+import { createResumeDocument, ResumeDocumentOptions } from './resumeDocument';
+
+export interface ResumePDFOptions extends ResumeDocumentOptions, Pick<PDFRenderOptions, 'paper' | 'margin'> {
+  // Template id, e.g. 'modern'; the classic layout when omitted
+  template?: string | null;
+}
+
+export interface PDFRenderOptions {
+  // A4 when omitted
+  paper?: PDFPaperSize;
+  // Page margin in millimetres; the template's margin when omitted
+  margin?: number;
+  // Creation date written to the document properties; now by default
+  createdAt?: Date;
+  // 32-digit hex file identifier; random by default
+  fileId?: string;
+  // Adds a "Generated on <date>" line after the last section (default true)
+  showGeneratedDate?: boolean;
+}
+
+interface DrawableBlock extends PDFLayoutBlock {
+  draw: (y: number) => void;
+}
+
+// Horizontal band of the page a flow of blocks is drawn in
+interface PDFColumn {
+  x: number;
+  width: number;
+}
+
+// Space taken by the name and contact line repeated at the top of later pages
+const RUNNING_HEADER_HEIGHT = 10;
+// Width of the skills sidebar and the gutter beside it in two-column templates
+const SIDEBAR_WIDTH = 52;
+const GUTTER = 6;
+// Side of the QR code in the first-page header, before template scaling
+const QR_CODE_SIZE = 18;
+
+const TEXT_COLOR: RGBColor = [60, 60, 60];
+const CONTACT_SEPARATOR = ' • ';
+
+type PDFLanguage = Parameters<jsPDF['setLanguage']>[0];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
 
 /**
- * Generates a professional PDF resume from the resume data
+ * Formats a date as a PDF date string in UTC, e.g. D:20240131120000+00'00',
+ * so the output does not depend on the time zone it was generated in
  */
-export const generateResumePDF = async (): Promise<void> => {
-  try {
-    // Create new PDF document
-    const pdf = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4'
-    });
+const toPDFDate = (date: Date): string =>
+  `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}+00'00'`;
+
+// Increased line spacing for readability
+const lineHeight = (fontSize: number): number => fontSize * 0.35277778 * 1.4;
+
+/**
+ * Creates a portrait PDF with its document properties set, shown by viewers
+ * and read by ATS parsers
+ */
+const createDocumentPDF = (properties: { title: string; subject: string; author: string; keywords?: string }, language: string, { paper, createdAt = new Date(), fileId }: PDFRenderOptions): jsPDF => {
+  const pdf = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: findPDFPaper(paper).id
+  });
+
+  pdf.setProperties({ ...properties, creator: properties.author });
+  pdf.viewerPreferences({ DisplayDocTitle: true });
+  pdf.setCreationDate(toPDFDate(createdAt));
+  if (fileId) {
+    pdf.setFileId(fileId);
+  }
+
+  // jsPDF ignores language tags it does not know, so set the primary
+  // language ('en') first and let the full tag ('en-US') override it
+  pdf.setLanguage(language.split('-')[0] as PDFLanguage);
+  pdf.setLanguage(language as PDFLanguage);
+
+  return pdf;
+};
+
+// Font sizes are scaled with the template
+const setTemplateFont = (pdf: jsPDF, template: PDFTemplate, fontSize: number, fontStyle: string, color: RGBColor): void => {
+  pdf.setTextColor(...color);
+  pdf.setFontSize(fontSize * template.scale);
+  pdf.setFont(template.font, fontStyle);
+};
 
-    // Page dimensions
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const margin = 20;
-    const contentWidth = pageWidth - (margin * 2);
-    let currentY = margin;
-
-    // Helper function to add wrapped text
-    const addWrappedText = (text: string, x: number, y: number, maxWidth: number, fontSize: number = 10, fontStyle: string = 'normal'): number => {
-      pdf.setFontSize(fontSize);
-      pdf.setFont('helvetica', fontStyle);
-      const lines = pdf.splitTextToSize(text, maxWidth);
-      let currentLineY = y;
-      
-      lines.forEach((line: string) => {
-        pdf.text(line, x, currentLineY);
-        currentLineY += fontSize * 0.35277778 * 1.4; // Increased line spacing for readability
+// Helper function to measure wrapped text as a block, optionally linked
+const createTextBlock = (pdf: jsPDF, template: PDFTemplate, text: string, x: number, maxWidth: number, fontSize: number, fontStyle: string, color: RGBColor, spaceAfter: number = 0, url?: string): DrawableBlock => {
+  setTemplateFont(pdf, template, fontSize, fontStyle, color);
+  const lines: string[] = pdf.splitTextToSize(text, maxWidth);
+  const height = lineHeight(fontSize * template.scale);
+
+  return {
+    height: lines.length * height,
+    spaceAfter: spaceAfter * template.scale,
+    keepWithNext: false,
+    draw: y => {
+      setTemplateFont(pdf, template, fontSize, fontStyle, color);
+      lines.forEach((line, index) => {
+        if (url) {
+          pdf.textWithLink(line, x, y + index * height, { url });
+        } else {
+          pdf.text(line, x, y + index * height);
+        }
       });
-      
-      return currentLineY;
-    };
+    }
+  };
+};
+
+// Contact details on one line, each one clickable (email as mailto:)
+const drawContacts = (pdf: jsPDF, header: ResumeDocumentHeader, x: number, y: number): void => {
+  header.contacts.forEach((contact, index) => {
+    if (index > 0) {
+      pdf.text(CONTACT_SEPARATOR, x, y);
+      x += pdf.getTextWidth(CONTACT_SEPARATOR);
+    }
+    x += pdf.textWithLink(contact.label, x, y, { url: contact.url });
+  });
+};
+
+// QR code linking to the interactive resume, clickable as well as scannable
+const drawQRCode = (pdf: jsPDF, url: string, x: number, y: number, size: number): void => {
+  const qr = encodeQRCode(url);
+  const moduleSize = size / qr.size;
+
+  pdf.setFillColor(0, 0, 0);
+  getQRCodeRuns(qr).forEach(run => {
+    pdf.rect(x + run.x * moduleSize, y + run.y * moduleSize, run.width * moduleSize, moduleSize, 'F');
+  });
+  pdf.link(x, y, size, size, { url });
+};
+
+/**
+ * Name, title and contacts across the full width of the first page, the same
+ * on the resume and the cover letter, with a QR code of the header URL in the
+ * top right corner. Returns where the content below starts.
+ */
+const drawDocumentHeader = (pdf: jsPDF, header: ResumeDocumentHeader, template: PDFTemplate, margin: number): number => {
+  const scaled = (value: number): number => value * template.scale;
+
+  setTemplateFont(pdf, template, 16, 'bold', [0, 0, 0]);
+  pdf.text(header.name.toUpperCase(), margin, margin);
+
+  setTemplateFont(pdf, template, 11, 'normal', template.accent);
+  pdf.text(header.title, margin, margin + scaled(7));
+
+  // Contact Information (single line to save space)
+  setTemplateFont(pdf, template, 9, 'normal', [80, 80, 80]);
+  drawContacts(pdf, header, margin, margin + scaled(13));
+
+  // Top aligned with the capitals of the name
+  if (header.url) {
+    const size = scaled(QR_CODE_SIZE);
+    drawQRCode(pdf, header.url, pdf.internal.pageSize.getWidth() - margin - size, margin - scaled(4), size);
+  }
+
+  return margin + scaled(21);
+};
+
+// Name and contacts at the top of later pages, drawn as soon as a page is
+// added so they come first in its reading order
+const drawRunningHeader = (pdf: jsPDF, header: ResumeDocumentHeader, template: PDFTemplate, margin: number): void => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const contactLine = header.contacts.map(contact => contact.label).join(CONTACT_SEPARATOR);
+
+  setTemplateFont(pdf, template, 9, 'bold', [0, 0, 0]);
+  pdf.text(header.name.toUpperCase(), margin, margin - 6);
+
+  setTemplateFont(pdf, template, 8, 'normal', [100, 100, 100]);
+  drawContacts(pdf, header, pageWidth - margin - pdf.getTextWidth(contactLine), margin - 6);
+
+  pdf.setDrawColor(...template.accent);
+  pdf.setLineWidth(0.2);
+  pdf.line(margin, margin - 4, pageWidth - margin, margin - 4);
+};
+
+// Draws blocks onto as many pages as they need, adding pages with the running
+// header; returns the page each block landed on
+const drawBlocks = (pdf: jsPDF, blocks: DrawableBlock[], frame: PDFPageFrame, startNewPage: () => void): number[] =>
+  paginateBlocks(blocks, frame).map(({ page, y }, index) => {
+    while (pdf.getNumberOfPages() < page) {
+      pdf.addPage();
+      startNewPage();
+    }
+    pdf.setPage(page);
+    blocks[index].draw(y);
+    return page;
+  });
+
+/**
+ * Draws a resume document onto a new PDF using a template, breaking onto as
+ * many pages as it needs. Dates and page numbers follow the document locale.
+ *
+ * jsPDF cannot write structure tags, so the document is made as navigable as
+ * it allows instead: title, author, subject, keywords and language are set,
+ * contacts and entry links are real link annotations, every section heading
+ * is a bookmark, and text is drawn in reading order (header, then sections in
+ * document order) so extraction and screen readers follow the layout.
+ */
+export const renderResumePDF = (resume: ResumeDocument, template: PDFTemplate = findPDFTemplate(), { paper, margin = template.margin, createdAt = new Date(), fileId, showGeneratedDate = true }: PDFRenderOptions = {}): jsPDF => {
+  const { name, title } = resume.header;
+  const keywords = resume.sections.flatMap(section => section.kind === 'skills' ? section.groups.flatMap(group => group.skills) : []);
+  const pdf = createDocumentPDF({
+    title: `${name} - Resume`,
+    subject: `Resume of ${name}, ${title}`,
+    author: name,
+    keywords: keywords.join(', ')
+  }, resume.language, { paper, createdAt, fileId });
+
+  // Page dimensions
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const { font, accent } = template;
+  const formatNumber = new Intl.NumberFormat(resume.locale).format;
+  const contentWidth = pageWidth - (margin * 2);
+
+  // Font sizes and gaps shrink or grow with the template
+  const scaled = (value: number): number => value * template.scale;
+
+  // Two-column templates move skills into a sidebar on the right
+  const sidebarSections = template.layout === 'sidebar'
+    ? resume.sections.filter((section): section is ResumeDocumentSkillsSection => section.kind === 'skills')
+    : [];
+  const hasSidebar = sidebarSections.length > 0;
+  const mainColumn: PDFColumn = { x: margin, width: hasSidebar ? contentWidth - SIDEBAR_WIDTH - GUTTER : contentWidth };
+  const sidebarColumn: PDFColumn = { x: pageWidth - margin - SIDEBAR_WIDTH, width: SIDEBAR_WIDTH };
+  const mainBlocks: DrawableBlock[] = [];
+  const sidebarBlocks: DrawableBlock[] = [];
+
+  const setFont = (fontSize: number, fontStyle: string, color: RGBColor): void =>
+    setTemplateFont(pdf, template, fontSize, fontStyle, color);
+
+  const wrappedTextBlock = (text: string, x: number, maxWidth: number, fontSize: number, fontStyle: string, color: RGBColor, spaceAfter: number = 0, url?: string): DrawableBlock =>
+    createTextBlock(pdf, template, text, x, maxWidth, fontSize, fontStyle, color, spaceAfter, url);
 
-    // Helper function to add section divider
-    const addSectionDivider = (y: number): number => {
-      pdf.setDrawColor(70, 130, 180); // Steel blue
+  // Divider and heading, kept with the start of the section and bookmarked
+  const sectionHeadingBlock = (heading: string, column: PDFColumn): DrawableBlock => ({
+    height: scaled(10),
+    spaceAfter: 0,
+    keepWithNext: true,
+    draw: y => {
+      pdf.outline.add(null, heading, { pageNumber: pdf.getCurrentPageInfo().pageNumber });
+      pdf.setDrawColor(...accent);
       pdf.setLineWidth(0.3);
-      pdf.line(margin, y, pageWidth - margin, y);
-      return y + 4; // Increased spacing after dividers
-    };
-
-    // HEADER SECTION
-    pdf.setTextColor(0, 0, 0);
-    pdf.setFontSize(16);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text(resumeData.personalInfo.name.toUpperCase(), margin, currentY);
-    currentY += 7;
-    
-    pdf.setTextColor(70, 130, 180);
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'normal');
-    pdf.text(resumeData.personalInfo.title, margin, currentY);
-    currentY += 6;
-
-    // Contact Information (single line to save space)
-    pdf.setTextColor(80, 80, 80);
-    pdf.setFontSize(9);
-    pdf.setFont('helvetica', 'normal');
-    const contactLine = `${resumeData.personalInfo.email} • ${resumeData.personalInfo.linkedin}`;
-    pdf.text(contactLine, margin, currentY);
-    currentY += 8;
-
-    // PROFESSIONAL SUMMARY
-    currentY = addSectionDivider(currentY);
-    pdf.setTextColor(0, 0, 0);
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('PROFESSIONAL SUMMARY', margin, currentY);
-    currentY += 6;
-
-    pdf.setTextColor(60, 60, 60);
-    pdf.setFontSize(9);
-    pdf.setFont('helvetica', 'normal');
-    currentY = addWrappedText(resumeData.personalInfo.summary, margin, currentY, contentWidth, 9, 'normal');
-    currentY += 6;
-
-    // PROFESSIONAL EXPERIENCE
-    currentY = addSectionDivider(currentY);
-    pdf.setTextColor(0, 0, 0);
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('PROFESSIONAL EXPERIENCE', margin, currentY);
-    currentY += 6;
-
-    resumeData.experience.forEach((exp, index) => {
-      // Job Title
-      pdf.setTextColor(0, 0, 0);
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(exp.position, margin, currentY);
-      
-      // Date (right aligned)
-      pdf.setTextColor(100, 100, 100);
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'normal');
-      const dateText = `${exp.startDate} - ${exp.endDate}`;
-      const dateWidth = pdf.getTextWidth(dateText);
-      pdf.text(dateText, pageWidth - margin - dateWidth, currentY);
-      currentY += 4;
-
-      // Company
-      pdf.setTextColor(70, 130, 180);
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(exp.company, margin, currentY);
-      currentY += 4;
-
-      // Responsibilities (add more details back)
-      pdf.setTextColor(60, 60, 60);
-      pdf.setFontSize(8);
-      pdf.setFont('helvetica', 'normal');
-      
-      exp.responsibilities.slice(0, 4).forEach(responsibility => {
-        currentY = addWrappedText(`• ${responsibility}`, margin + 3, currentY, contentWidth - 3, 8, 'normal');
-        currentY += 1; // Better spacing between bullet points
-      });
+      pdf.line(column.x, y, column.x + column.width, y);
+      setFont(11, 'bold', [0, 0, 0]);
+      pdf.text(heading.toUpperCase(), column.x, y + scaled(4)); // Increased spacing after dividers
+    }
+  });
+
+  // Helper function to add one experience, project, education or achievement entry
+  const addEntry = (entry: ResumeDocumentEntry, column: PDFColumn, spaceAfter: number): void => {
+    const body: DrawableBlock[] = [];
+    const bullets = entry.bullets.slice(0, template.maxBullets);
+
+    if (entry.summary) {
+      body.push(wrappedTextBlock(entry.summary, column.x, column.width, 8, 'normal', TEXT_COLOR));
+    }
 
-      currentY += (index < resumeData.experience.length - 1) ? 4 : 3;
+    bullets.forEach(bullet => {
+      // Better spacing between bullet points
+      body.push(wrappedTextBlock(`• ${bullet}`, column.x + 3, column.width - 3, 8, 'normal', TEXT_COLOR, 1));
     });
 
-    // EDUCATION
-    currentY = addSectionDivider(currentY);
-    pdf.setTextColor(0, 0, 0);
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('EDUCATION', margin, currentY);
-    currentY += 6;
-
-    resumeData.education.forEach(edu => {
-      // Degree and Institution on same line
-      pdf.setTextColor(0, 0, 0);
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(`${edu.degree} in ${edu.field}, `, margin, currentY);
-      
-      // Get width of degree text to position university
-      const degreeWidth = pdf.getTextWidth(`${edu.degree} in ${edu.field}, `);
-      
-      // Temple University in red (Temple's official color: #A41E35)
-      pdf.setTextColor(164, 30, 53); // Temple red
-      pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text(edu.institution, margin + degreeWidth, currentY);
-
-      // Graduation date (right aligned)
-      pdf.setTextColor(100, 100, 100);
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'normal');
-      const gradWidth = pdf.getTextWidth(edu.graduationDate);
-      pdf.text(edu.graduationDate, pageWidth - margin - gradWidth, currentY);
-      currentY += 5;
+    if (entry.technologies.length > 0) {
+      body.push(wrappedTextBlock(`Technologies: ${entry.technologies.join(', ')}`, column.x, column.width, 8, 'italic', TEXT_COLOR));
+    }
+
+    entry.links.forEach(link => {
+      body.push(wrappedTextBlock(`${link.label}: ${link.url}`, column.x, column.width, 8, 'normal', TEXT_COLOR, 0, link.url));
     });
 
-    // TECHNICAL SKILLS
-    currentY = addSectionDivider(currentY);
-    pdf.setTextColor(0, 0, 0);
-    pdf.setFontSize(11);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('TECHNICAL SKILLS', margin, currentY);
-    currentY += 6;
-
-    // Group skills by category
-    const skillsByCategory = resumeData.skills.reduce((acc, skill) => {
-      if (!acc[skill.category]) {
-        acc[skill.category] = [];
+    // Title, date and company, kept on the same page as the first line of detail
+    mainBlocks.push({
+      height: scaled(8),
+      spaceAfter: 0,
+      keepWithNext: body.length > 0,
+      draw: y => {
+        setFont(10, 'bold', [0, 0, 0]);
+        pdf.text(entry.title, column.x, y);
+
+        // Date (right aligned)
+        if (entry.date) {
+          setFont(9, 'normal', [100, 100, 100]);
+          const dateWidth = pdf.getTextWidth(entry.date);
+          pdf.text(entry.date, column.x + column.width - dateWidth, y);
+        }
+
+        // Company, role, institution or issuer
+        setFont(9, 'bold', accent);
+        pdf.text(entry.subtitle, column.x, y + scaled(4));
       }
-      acc[skill.category].push(skill);
-      return acc;
-    }, {} as Record<string, typeof resumeData.skills>);
+    });
+
+    // A summary stays with the first bullet too, so the header never ends up alone with it
+    if (entry.summary && bullets.length > 0) {
+      body[0].keepWithNext = true;
+    }
 
+    mainBlocks.push(...body);
+    mainBlocks[mainBlocks.length - 1].spaceAfter += scaled(spaceAfter);
+  };
+
+  // Skills as "Category: a, b" lines across the main column
+  const addInlineSkills = (section: ResumeDocumentSkillsSection, column: PDFColumn): void => {
     // Display skills in compact format (no proficiency levels)
-    Object.entries(skillsByCategory).forEach(([category, skills], categoryIndex) => {
-      // Category title
-      pdf.setTextColor(70, 130, 180);
-      pdf.setFontSize(9);
-      pdf.setFont('helvetica', 'bold');
-      const categoryTitle = category.charAt(0).toUpperCase() + category.slice(1);
-      pdf.text(`${categoryTitle}: `, margin, currentY);
-      
-      // All skills in one line
-      const categoryLabelWidth = pdf.getTextWidth(`${categoryTitle}: `);
-      pdf.setTextColor(60, 60, 60);
-      pdf.setFontSize(8);
-      pdf.setFont('helvetica', 'normal');
-      const skillNames = skills.map(s => s.name).join(', ');
-      currentY = addWrappedText(skillNames, margin + categoryLabelWidth, currentY, contentWidth - categoryLabelWidth, 8, 'normal');
-      currentY += (categoryIndex < Object.entries(skillsByCategory).length - 1) ? 3 : 2;
+    section.groups.forEach((group, groupIndex) => {
+      // Category title followed by all skills in one line
+      setFont(9, 'bold', accent);
+      const categoryLabelWidth = pdf.getTextWidth(`${group.label}: `);
+      const skillsBlock = wrappedTextBlock(group.skills.join(', '), column.x + categoryLabelWidth, column.width - categoryLabelWidth, 8, 'normal', TEXT_COLOR, (groupIndex < section.groups.length - 1) ? 3 : 2);
+
+      mainBlocks.push({
+        ...skillsBlock,
+        draw: y => {
+          setFont(9, 'bold', accent);
+          pdf.text(`${group.label}: `, column.x, y);
+          skillsBlock.draw(y);
+        }
+      });
+    });
+  };
+
+  // Skills stacked under their category in the narrow sidebar
+  const addSidebarSkills = (section: ResumeDocumentSkillsSection): void => {
+    sidebarBlocks.push(sectionHeadingBlock(section.heading, sidebarColumn));
+
+    section.groups.forEach(group => {
+      sidebarBlocks.push({
+        ...wrappedTextBlock(group.label, sidebarColumn.x, sidebarColumn.width, 9, 'bold', accent),
+        keepWithNext: true
+      });
+      sidebarBlocks.push(wrappedTextBlock(group.skills.join(', '), sidebarColumn.x, sidebarColumn.width, 8, 'normal', TEXT_COLOR, 3));
+    });
+  };
+
+  // Helper function to add a titled section of any kind
+  const addSection = (section: ResumeDocumentSection): void => {
+    if (section.kind === 'skills' && hasSidebar) {
+      addSidebarSkills(section);
+      return;
+    }
+
+    mainBlocks.push(sectionHeadingBlock(section.heading, mainColumn));
+
+    switch (section.kind) {
+      case 'summary':
+        mainBlocks.push(wrappedTextBlock(section.text, mainColumn.x, mainColumn.width, 9, 'normal', TEXT_COLOR, 6));
+        break;
+
+      case 'entries':
+        section.entries.forEach((entry, index) => {
+          addEntry(entry, mainColumn, (index < section.entries.length - 1) ? 4 : 3);
+        });
+        break;
+
+      case 'skills':
+        addInlineSkills(section, mainColumn);
+        break;
+    }
+  };
+
+  resume.sections.forEach(addSection);
+
+  // Generation date after the last section
+  if (showGeneratedDate) {
+    const footerText = `Generated on ${createdAt.toLocaleDateString(resume.locale, { year: 'numeric', month: 'long', day: 'numeric' })}`;
+    mainBlocks.push({
+      height: 3,
+      spaceAfter: 0,
+      keepWithNext: false,
+      draw: y => {
+        pdf.setFontSize(6);
+        pdf.setTextColor(150, 150, 150);
+        pdf.setFont(font, 'normal');
+        const footerWidth = pdf.getTextWidth(footerText);
+        pdf.text(footerText, mainColumn.x + mainColumn.width - footerWidth, y + 3);
+      }
     });
+  }
+
+  const frame: PDFPageFrame = {
+    firstPageTop: drawDocumentHeader(pdf, resume.header, template, margin),
+    top: margin + RUNNING_HEADER_HEIGHT,
+    bottom: pageHeight - margin
+  };
+
+  // Main content and sidebar flow independently onto as many pages as each needs
+  const drawFlow = (blocks: DrawableBlock[]): number[] =>
+    drawBlocks(pdf, blocks, frame, () => drawRunningHeader(pdf, resume.header, template, margin));
+
+  drawFlow(mainBlocks);
+  const sidebarPages = new Set(drawFlow(sidebarBlocks));
+
+  // Column rule and page numbers on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+
+    if (sidebarPages.has(page)) {
+      const ruleX = sidebarColumn.x - GUTTER / 2;
+      pdf.setDrawColor(...accent);
+      pdf.setLineWidth(0.2);
+      pdf.line(ruleX, page === 1 ? frame.firstPageTop : frame.top, ruleX, frame.bottom);
+    }
+
+    const pageText = `Page ${formatNumber(page)} of ${formatNumber(pageCount)}`;
+    setFont(8, 'normal', [150, 150, 150]);
+    pdf.text(pageText, (pageWidth - pdf.getTextWidth(pageText)) / 2, pageHeight - margin / 2);
+  }
 
-    // Footer
-    currentY += 3;
-    const now = new Date();
-    const footerText = `Generated on ${now.toLocaleDateString()}`;
-    pdf.setFontSize(6);
-    pdf.setTextColor(150, 150, 150);
-    pdf.setFont('helvetica', 'normal');
-    const footerWidth = pdf.getTextWidth(footerText);
-    pdf.text(footerText, pageWidth - margin - footerWidth, currentY);
+  return pdf;
+};
+
+/**
+ * Builds the PDF for the portfolio's resume without saving it
+ */
+export const createResumePDF = ({ template, paper, margin, ...options }: ResumePDFOptions = {}): jsPDF =>
+  renderResumePDF(createResumeDocument(options), findPDFTemplate(template), { paper, margin });
+
+/**
+ * File name for a downloaded resume; templates other than the default are
+ * suffixed, e.g. Jane_Doe_Resume_modern.pdf
+ */
+export const getResumePDFFileName = (name: string, template: PDFTemplate = findPDFTemplate()): string => {
+  const suffix = template.id === findPDFTemplate().id ? '' : `_${template.id}`;
+  return `${name.replace(/\s+/g, '_')}_Resume${suffix}.pdf`;
+};
+
+/**
+ * Generates a professional PDF resume from the resume data
+ */
+export const generateResumePDF = async ({ template: templateId, paper, margin, ...options }: ResumePDFOptions = {}): Promise<void> => {
+  try {
+    const resume = createResumeDocument(options);
+    const template = findPDFTemplate(templateId);
+    const pdf = renderResumePDF(resume, template, { paper, margin });
 
     // Save the PDF
-    const fileName = `${resumeData.personalInfo.name.replace(/\s+/g, '_')}_Resume.pdf`;
-    pdf.save(fileName);
+    pdf.save(getResumePDFFileName(resume.header.name, template));
 
   } catch (error) {
     console.error('Error generating PDF:', error);
     throw new Error('Failed to generate PDF resume');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Draws a cover letter onto a new PDF under the same header as the resume:
+ * date, recipient, salutation, paragraphs with the highlights as bullets, and
+ * the sign-off. Long letters continue onto pages with the running header.
+ */
+export const renderCoverLetterPDF = (letter: CoverLetterDocument, template: PDFTemplate = findPDFTemplate(), { paper, margin = template.margin, createdAt, fileId }: PDFRenderOptions = {}): jsPDF => {
+  const { name } = letter.header;
+  const position = [letter.role && ` for the ${letter.role} position`, letter.company && ` at ${letter.company}`].join('');
+  const pdf = createDocumentPDF({
+    title: `${name} - Cover Letter`,
+    subject: `Cover letter from ${name}${position}`,
+    author: name
+  }, letter.language, { paper, createdAt, fileId });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - (margin * 2);
+  const paragraph = (text: string, spaceAfter: number = 5, indent: number = 0): DrawableBlock =>
+    createTextBlock(pdf, template, text, margin + indent, contentWidth - indent, 10, 'normal', TEXT_COLOR, spaceAfter);
+
+  // The line introducing the highlights stays with the first of them
+  const opening = letter.opening.map(text => paragraph(text));
+  if (letter.highlights.length > 0 && opening.length > 0) {
+    opening[opening.length - 1].keepWithNext = true;
+  }
+
+  const blocks: DrawableBlock[] = [
+    paragraph(letter.date, 6),
+    ...letter.recipient.map((line, index) => paragraph(line, index < letter.recipient.length - 1 ? 0 : 6)),
+    paragraph(letter.salutation),
+    ...opening,
+    ...letter.highlights.map((highlight, index) => paragraph(`• ${highlight}`, index < letter.highlights.length - 1 ? 1.5 : 5, 3)),
+    ...letter.closing.map(text => paragraph(text)),
+    { ...paragraph(letter.signOff, 8), keepWithNext: true },
+    createTextBlock(pdf, template, letter.signature, margin, contentWidth, 10, 'bold', [0, 0, 0])
+  ];
+
+  const frame: PDFPageFrame = {
+    firstPageTop: drawDocumentHeader(pdf, letter.header, template, margin) + 4,
+    top: margin + RUNNING_HEADER_HEIGHT,
+    bottom: pageHeight - margin
+  };
+  drawBlocks(pdf, blocks, frame, () => drawRunningHeader(pdf, letter.header, template, margin));
+
+  return pdf;
+};
+
+/**
+ * Saves a cover letter as a PDF in the style of the resume template
+ */
+export const generateCoverLetterPDF = async (letter: CoverLetterDocument, { template: templateId, paper, margin }: Pick<ResumePDFOptions, 'template' | 'paper' | 'margin'> = {}): Promise<void> => {
+  try {
+    const pdf = renderCoverLetterPDF(letter, findPDFTemplate(templateId), { paper, margin });
+    pdf.save(getCoverLetterFileName(letter, 'pdf'));
+  } catch (error) {
+    console.error('Error generating cover letter PDF:', error);
+    throw new Error('Failed to generate PDF cover letter');
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * Page-break planning for the PDF resume. The renderer measures everything it
+ * is about to draw as blocks; this module decides which page each block goes
+ * on, so the break rules can be tested without drawing anything.
+ */
+
+export interface PDFLayoutBlock {
+  height: number;
+  // Vertical space after the block; dropped when the block ends a page
+  spaceAfter: number;
+  // Never leave this block at the bottom of a page without the next one,
+  // e.g. a job header and its first bullet
+  keepWithNext: boolean;
+}
+
+export interface PDFPageFrame {
+  // Where content starts on the first page and, below the running header,
+  // on every later page
+  firstPageTop: number;
+  top: number;
+  // Lowest y content may reach, above the footer
+  bottom: number;
+}
+
+export interface PDFPlacement {
+  page: number;
+  y: number;
+}
+
+/**
+ * Height of a block together with every following block it is kept with
+ */
+export const getKeepTogetherHeight = (
+  blocks: PDFLayoutBlock[],
+  index: number
+): number => {
+  let height = blocks[index].height;
+  for (let i = index; i < blocks.length - 1 && blocks[i].keepWithNext; i++) {
+    height += blocks[i].spaceAfter + blocks[i + 1].height;
+  }
+  return height;
+};
+
+/**
+ * Places blocks top to bottom, starting a new page when a block — or a run of
+ * blocks kept together — does not fit in the space left. A run taller than a
+ * whole page starts on a fresh page and then breaks wherever it has to.
+ */
+export const paginateBlocks = (
+  blocks: PDFLayoutBlock[],
+  frame: PDFPageFrame
+): PDFPlacement[] => {
+  let page = 1;
+  let y = frame.firstPageTop;
+
+  return blocks.map((block, index) => {
+    const pageTop = page === 1 ? frame.firstPageTop : frame.top;
+    const startsRun = index === 0 || !blocks[index - 1].keepWithNext;
+    const needed = startsRun
+      ? getKeepTogetherHeight(blocks, index)
+      : block.height;
+
+    if (y > pageTop && y + needed > frame.bottom) {
+      page += 1;
+      y = frame.top;
+    }
+
+    const placement = { page, y };
+    y += block.height + block.spaceAfter;
+    return placement;
+  });
+};
@@ -0,0 +1,58 @@
+/**
+ * Paper sizes the resume PDF can be printed on. The default follows the
+ * visitor's region: Letter across most of the Americas, A4 elsewhere.
+ */
+
+export type PDFPaperSize = 'a4' | 'letter' | 'legal';
+
+export interface PDFPaper {
+  id: PDFPaperSize;
+  label: string;
+  // Page size in millimetres, portrait
+  width: number;
+  height: number;
+}
+
+export const PDF_PAPER_SIZES: PDFPaper[] = [
+  { id: 'a4', label: 'A4', width: 210, height: 297 },
+  { id: 'letter', label: 'Letter', width: 215.9, height: 279.4 },
+  { id: 'legal', label: 'Legal', width: 215.9, height: 355.6 },
+];
+
+// Regions where US paper sizes are the norm
+const LETTER_REGIONS = new Set([
+  'US',
+  'CA',
+  'MX',
+  'PR',
+  'GT',
+  'SV',
+  'HN',
+  'NI',
+  'CR',
+  'PA',
+  'DO',
+  'CO',
+  'VE',
+  'CL',
+  'PH',
+]);
+
+/**
+ * Looks up a paper size by id, falling back to A4
+ */
+export const findPDFPaper = (id?: string | null): PDFPaper =>
+  PDF_PAPER_SIZES.find((paper) => paper.id === id) ?? PDF_PAPER_SIZES[0];
+
+/**
+ * Default paper size for a locale, e.g. 'en-US' → letter, 'en-GB' → a4.
+ * Locales without a region use the region they are most likely to mean.
+ */
+export const getDefaultPaperSize = (locale: string): PDFPaperSize => {
+  try {
+    const { region } = new Intl.Locale(locale).maximize();
+    return region && LETTER_REGIONS.has(region) ? 'letter' : 'a4';
+  } catch {
+    return 'a4';
+  }
+};
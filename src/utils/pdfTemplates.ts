@@ -0,0 +1,66 @@
+/**
+ * Named looks for the PDF resume. Every template renders the same resume
+ * document; they differ only in typography, colour and layout.
+ */
+
+export type PDFTemplateId = 'classic' | 'modern' | 'compact';
+
+export type RGBColor = [number, number, number];
+
+export interface PDFTemplate {
+  id: PDFTemplateId;
+  label: string;
+  description: string;
+  font: 'helvetica' | 'times';
+  accent: RGBColor;
+  // Page margin in mm
+  margin: number;
+  // Multiplier applied to every font size and vertical gap
+  scale: number;
+  // 'sidebar' moves the skills into a narrow column beside the main content
+  layout: 'single-column' | 'sidebar';
+  // Bullets kept per entry, to fit one page; all when omitted
+  maxBullets?: number;
+}
+
+// The first template is the default
+export const PDF_TEMPLATES: PDFTemplate[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Single column with steel-blue headings',
+    font: 'helvetica',
+    accent: [70, 130, 180],
+    margin: 20,
+    scale: 1,
+    layout: 'single-column',
+  },
+  {
+    id: 'modern',
+    label: 'Modern',
+    description: 'Two columns with a skills sidebar',
+    font: 'helvetica',
+    accent: [0, 128, 128],
+    margin: 16,
+    scale: 1,
+    layout: 'sidebar',
+  },
+  {
+    id: 'compact',
+    label: 'Compact',
+    description: 'Tight one-page layout with the top three bullets per role',
+    font: 'times',
+    accent: [60, 60, 60],
+    margin: 12,
+    scale: 0.85,
+    layout: 'single-column',
+    maxBullets: 3,
+  },
+];
+
+/**
+ * Looks up a template by id; unknown or missing ids fall back to the default
+ */
+export const findPDFTemplate = (templateId?: string | null): PDFTemplate =>
+  PDF_TEMPLATES.find((template) => template.id === templateId) ??
+  PDF_TEMPLATES[0];
@@ -100,6 +100,9 @@ export const getOptimizedAnimationConfig = () => {
     // Check for reduced motion preference
     if (respectsReducedMotion()) return true;
     
+    // Prerendering has no device to measure
+    if (typeof navigator === 'undefined') return false;
+    
     // Check hardware concurrency (CPU cores)
     if (navigator.hardwareConcurrency && navigator.hardwareConcurrency < 4) return true;
     
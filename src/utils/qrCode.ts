@@ -0,0 +1,613 @@
+/**
+ * Dependency-free QR code encoder (ISO/IEC 18004), byte mode only, which is
+ * all a URL needs. Picks the smallest version (1-40) that fits the text at
+ * the requested error correction level and the mask with the lowest penalty.
+ */
+
+// Share of the symbol that can be damaged and still read: about 7%, 15%,
+// 25% and 30%
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCode {
+  version: number;
+  errorCorrection: QRErrorCorrectionLevel;
+  mask: number;
+  // Modules per side, without the quiet zone
+  size: number;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+}
+
+export interface QRCodeOptions {
+  // 'M' by default
+  errorCorrection?: QRErrorCorrectionLevel;
+  // Mask pattern 0-7; the one with the lowest penalty by default
+  mask?: number;
+}
+
+// Light modules the standard asks for around the symbol, on every side
+export const QR_QUIET_ZONE = 4;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const BYTE_MODE = 0b0100;
+
+// Two-bit level indicator written into the format information
+const FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Error correction codewords per block, indexed by version (0 is unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [
+    0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+// Error correction blocks, indexed by version (0 is unused)
+const ECC_BLOCKS: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [
+    0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17,
+    18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25,
+    34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81,
+  ],
+};
+
+// Penalty weights for the four mask evaluation rules
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const getBit = (value: number, index: number): boolean =>
+  ((value >>> index) & 1) !== 0;
+
+/**
+ * Encodes text as UTF-8 bytes without relying on TextEncoder, which not
+ * every test environment provides
+ */
+const toUTF8 = (text: string): number[] =>
+  Array.from(text).flatMap((char) => {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) return [code];
+    if (code < 0x800) return [0xc0 | (code >> 6), 0x80 | (code & 0x3f)];
+    if (code < 0x10000) {
+      return [
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      ];
+    }
+    return [
+      0xf0 | (code >> 18),
+      0x80 | ((code >> 12) & 0x3f),
+      0x80 | ((code >> 6) & 0x3f),
+      0x80 | (code & 0x3f),
+    ];
+  });
+
+/**
+ * Centre coordinates of the alignment patterns along each axis
+ */
+export const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+/**
+ * Modules left for data and error correction once the function patterns are
+ * drawn
+ */
+const getRawDataModules = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      modules -= 36;
+    }
+  }
+  return modules;
+};
+
+/**
+ * How the codewords of a symbol are split into error correction blocks
+ */
+export const getQRErrorCorrectionBlocks = (
+  version: number,
+  level: QRErrorCorrectionLevel
+): { blocks: number; eccCodewordsPerBlock: number } => ({
+  blocks: ECC_BLOCKS[level][version],
+  eccCodewordsPerBlock: ECC_CODEWORDS_PER_BLOCK[level][version],
+});
+
+const getDataCodewords = (
+  version: number,
+  level: QRErrorCorrectionLevel
+): number =>
+  Math.floor(getRawDataModules(version) / 8) -
+  ECC_BLOCKS[level][version] * ECC_CODEWORDS_PER_BLOCK[level][version];
+
+const getCountBits = (version: number): number => (version <= 9 ? 8 : 16);
+
+/**
+ * Most bytes a symbol of the given version and level can hold in byte mode
+ */
+export const getQRByteCapacity = (
+  version: number,
+  level: QRErrorCorrectionLevel
+): number =>
+  Math.floor(
+    (getDataCodewords(version, level) * 8 - 4 - getCountBits(version)) / 8
+  );
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+// Reed-Solomon generator polynomial with roots α^0 … α^(degree-1), highest
+// power first with its leading 1 dropped
+const getRSDivisor = (degree: number): number[] => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const getRSRemainder = (data: number[], divisor: number[]): number[] => {
+  const remainder = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() ?? 0);
+    remainder.push(0);
+    divisor.forEach((coefficient, index) => {
+      remainder[index] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return remainder;
+};
+
+/**
+ * Mode indicator, length, data, terminator and padding, as codewords
+ */
+const getDataCodewordBytes = (
+  bytes: number[],
+  version: number,
+  level: QRErrorCorrectionLevel
+): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(BYTE_MODE, 4);
+  append(bytes.length, getCountBits(version));
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = getDataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit)
+    );
+  }
+  for (
+    let pad = 0xec;
+    codewords.length < capacityBits / 8;
+    pad ^= 0xec ^ 0x11
+  ) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+/**
+ * Splits data into blocks, appends each block's error correction and
+ * interleaves the result in transmission order
+ */
+const addErrorCorrection = (
+  data: number[],
+  version: number,
+  level: QRErrorCorrectionLevel
+): number[] => {
+  const { blocks: blockCount, eccCodewordsPerBlock: eccLength } =
+    getQRErrorCorrectionBlocks(version, level);
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getRSDivisor(eccLength);
+
+  const blocks: { data: number[]; ecc: number[] }[] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data: block, ecc: getRSRemainder(block, divisor) });
+  }
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.data.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    blocks.forEach((block) => result.push(block.ecc[i]));
+  }
+  return result;
+};
+
+/**
+ * Builds the symbol: function patterns, then data in the zigzag order, then
+ * the mask and the format information that names it
+ */
+class QRMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(
+    private readonly version: number,
+    private readonly level: QRErrorCorrectionLevel
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.drawFunctionPatterns();
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    const { size } = this;
+
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators in three corners
+    [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            this.set(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    // Alignment patterns, except where they would overlap a finder
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        if (
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        ) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.set(
+              cx + dx,
+              cy + dy,
+              Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+            );
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas until the mask is known
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  drawFormatBits(mask: number): void {
+    const { size } = this;
+    const data = (FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.set(8, i, getBit(bits, i));
+    this.set(8, 7, getBit(bits, 6));
+    this.set(8, 8, getBit(bits, 7));
+    this.set(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, getBit(bits, i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, getBit(bits, i));
+    this.set(8, size - 8, true);
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.set(a, b, getBit(bits, i));
+      this.set(b, a, getBit(bits, i));
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    const { size } = this;
+    let bit = 0;
+    // Column pairs from the right, skipping the vertical timing pattern,
+    // alternately upwards and downwards
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (!this.reserved[y][x] && bit < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  // Masking twice restores the original, so this also undoes a mask
+  applyMask(mask: number): void {
+    this.modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) {
+          row[x] = !dark;
+        }
+      })
+    );
+  }
+
+  getPenalty(): number {
+    const { size, modules } = this;
+    let penalty = 0;
+    const lines = [
+      ...modules,
+      ...modules.map((_, x) => modules.map((row) => row[x])),
+    ];
+
+    // Runs of five or more modules of one colour
+    lines.forEach((line) => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) penalty += PENALTY_RUN + run - 5;
+          run = 1;
+        }
+      }
+    });
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const dark = modules[y][x];
+        if (
+          dark === modules[y][x + 1] &&
+          dark === modules[y + 1][x] &&
+          dark === modules[y + 1][x + 1]
+        ) {
+          penalty += PENALTY_BLOCK;
+        }
+      }
+    }
+
+    // Patterns that look like a finder: 1:1:3:1:1 next to four light modules
+    const finderLike = ['10111010000', '00001011101'];
+    lines.forEach((line) => {
+      const text = line.map((dark) => (dark ? '1' : '0')).join('');
+      finderLike.forEach((pattern) => {
+        for (
+          let i = text.indexOf(pattern);
+          i !== -1;
+          i = text.indexOf(pattern, i + 1)
+        ) {
+          penalty += PENALTY_FINDER_LIKE;
+        }
+      });
+    });
+
+    // Distance from an even balance of dark and light, in 5% steps
+    const dark = modules.flat().filter(Boolean).length;
+    const percent = (dark * 100) / (size * size);
+    penalty += Math.floor(Math.abs(percent - 50) / 5) * PENALTY_BALANCE;
+
+    return penalty;
+  }
+}
+
+/**
+ * Encodes text as a QR code in byte mode, using the smallest version that
+ * fits. Throws when the text does not fit in version 40.
+ */
+export const encodeQRCode = (
+  text: string,
+  { errorCorrection = 'M', mask }: QRCodeOptions = {}
+): QRCode => {
+  const bytes = toUTF8(text);
+  let version = MIN_VERSION;
+  while (getQRByteCapacity(version, errorCorrection) < bytes.length) {
+    if (++version > MAX_VERSION) {
+      throw new Error(
+        `Text is too long for a QR code at error correction level ${errorCorrection}`
+      );
+    }
+  }
+
+  const matrix = new QRMatrix(version, errorCorrection);
+  matrix.drawCodewords(
+    addErrorCorrection(
+      getDataCodewordBytes(bytes, version, errorCorrection),
+      version,
+      errorCorrection
+    )
+  );
+
+  let chosenMask = mask ?? 0;
+  if (mask === undefined) {
+    let lowestPenalty = Infinity;
+    MASKS.forEach((_, candidate) => {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(candidate);
+      const penalty = matrix.getPenalty();
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        chosenMask = candidate;
+      }
+      matrix.applyMask(candidate);
+    });
+  }
+  matrix.applyMask(chosenMask);
+  matrix.drawFormatBits(chosenMask);
+
+  return {
+    version,
+    errorCorrection,
+    mask: chosenMask,
+    size: matrix.size,
+    modules: matrix.modules,
+  };
+};
+
+/**
+ * Dark modules merged into horizontal runs, in module units, so renderers can
+ * draw one rectangle per run instead of one per module
+ */
+export const getQRCodeRuns = (
+  qr: QRCode
+): { x: number; y: number; width: number }[] =>
+  qr.modules.flatMap((row, y) => {
+    const runs: { x: number; y: number; width: number }[] = [];
+    row.forEach((dark, x) => {
+      const previous = runs[runs.length - 1];
+      if (!dark) return;
+      if (previous && previous.x + previous.width === x) {
+        previous.width++;
+      } else {
+        runs.push({ x, y, width: 1 });
+      }
+    });
+    return runs;
+  });
+
+/**
+ * Renders a QR code as a scalable SVG with its quiet zone, titled for
+ * screen readers
+ */
+export const renderQRCodeSVG = (qr: QRCode, title: string): string => {
+  const extent = qr.size + QR_QUIET_ZONE * 2;
+  const path = getQRCodeRuns(qr)
+    .map(
+      ({ x, y, width }) =>
+        `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h${width}v1h-${width}z`
+    )
+    .join('');
+  const escapedTitle = title
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${extent} ${extent}" role="img" shape-rendering="crispEdges"><title>${escapedTitle}</title><rect width="${extent}" height="${extent}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
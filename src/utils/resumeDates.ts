@@ -0,0 +1,238 @@
+import { Experience, ResumeDate } from '../types';
+
+/**
+ * Date helpers shared by the resume converters, validator and renderers.
+ * Resume dates are structured year/month values so they can be sorted,
+ * compared and formatted for any locale.
+ */
+
+export const DEFAULT_RESUME_LOCALE = 'en-US';
+
+export const PRESENT_LABEL = 'Present';
+
+// End label of an open-ended range per language; others use PRESENT_LABEL
+const PRESENT_LABELS: Record<string, string> = {
+  de: 'heute',
+  es: 'actualidad',
+  fr: "aujourd'hui",
+  it: 'oggi',
+  nl: 'heden',
+  pt: 'atual',
+  sv: 'nu',
+};
+
+/**
+ * Locale to format a resume in. The resume fonts only cover Latin script, so
+ * locales written in other scripts (and invalid tags) use the default.
+ */
+export const getResumeLocale = (requested?: string): string => {
+  if (!requested) {
+    return DEFAULT_RESUME_LOCALE;
+  }
+
+  try {
+    const locale = new Intl.Locale(requested);
+    return locale.maximize().script === 'Latn'
+      ? locale.toString()
+      : DEFAULT_RESUME_LOCALE;
+  } catch {
+    return DEFAULT_RESUME_LOCALE;
+  }
+};
+
+/**
+ * The visitor's preferred locale for formatting resume dates and numbers
+ */
+export const getVisitorLocale = (): string =>
+  getResumeLocale(
+    typeof navigator === 'undefined'
+      ? undefined
+      : (navigator.languages?.[0] ?? navigator.language)
+  );
+
+export interface Tenure {
+  years: number;
+  months: number;
+}
+
+/**
+ * Number of whole months since year 0 — a sortable index for a resume date.
+ * Year-only dates resolve to January when used as a start and December when
+ * used as an end, so "2013 - 2017" covers both full years.
+ */
+export const toMonthIndex = (
+  date: ResumeDate,
+  edge: 'start' | 'end'
+): number =>
+  date.year * 12 + ((date.month ?? (edge === 'start' ? 1 : 12)) - 1);
+
+const toResumeDate = (date: Date): ResumeDate => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+});
+
+/**
+ * Compares two resume dates; negative when a is earlier than b
+ */
+export const compareResumeDates = (a: ResumeDate, b: ResumeDate): number =>
+  toMonthIndex(a, 'start') - toMonthIndex(b, 'start');
+
+/**
+ * Label for the end of a current role in the resume's locale, e.g. "heute"
+ */
+export const getPresentLabel = (
+  locale: string = DEFAULT_RESUME_LOCALE
+): string =>
+  PRESENT_LABELS[new Intl.Locale(getResumeLocale(locale)).language] ??
+  PRESENT_LABEL;
+
+/**
+ * Formats a resume date for display, e.g. "April 2022" or "2017"
+ */
+export const formatResumeDate = (
+  date: ResumeDate,
+  locale: string = DEFAULT_RESUME_LOCALE
+): string => {
+  if (date.month === undefined) {
+    return String(date.year);
+  }
+
+  // Use UTC so the formatted month never shifts with the host timezone
+  return new Intl.DateTimeFormat(locale, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(date.year, date.month - 1, 1)));
+};
+
+/**
+ * Formats a date range for display, e.g. "April 2022 - Present"
+ */
+export const formatDateRange = (
+  start: ResumeDate | undefined,
+  end: ResumeDate | 'present',
+  locale: string = DEFAULT_RESUME_LOCALE
+): string => {
+  const endLabel =
+    end === 'present' ? getPresentLabel(locale) : formatResumeDate(end, locale);
+  return start ? `${formatResumeDate(start, locale)} - ${endLabel}` : endLabel;
+};
+
+/**
+ * Formats when a credential was issued and, if it lapses, when it expires,
+ * e.g. "April 2022 (expires April 2025)"
+ */
+export const formatCredentialDate = (
+  issued: ResumeDate,
+  expires?: ResumeDate,
+  locale: string = DEFAULT_RESUME_LOCALE
+): string => {
+  const issuedLabel = formatResumeDate(issued, locale);
+  return expires
+    ? `${issuedLabel} (expires ${formatResumeDate(expires, locale)})`
+    : issuedLabel;
+};
+
+/**
+ * Calculates the time spent between two dates, counting both the start and
+ * end months (the convention used by LinkedIn and most resume tooling)
+ */
+export const getTenure = (
+  start: ResumeDate,
+  end: ResumeDate | 'present',
+  now: Date = new Date()
+): Tenure => {
+  const endDate = end === 'present' ? toResumeDate(now) : end;
+  const totalMonths = Math.max(
+    0,
+    toMonthIndex(endDate, 'end') - toMonthIndex(start, 'start') + 1
+  );
+
+  return {
+    years: Math.floor(totalMonths / 12),
+    months: totalMonths % 12,
+  };
+};
+
+/**
+ * Formats a tenure as a compact label, e.g. "4 yrs 10 mos" or "1 yr"
+ */
+export const formatTenure = ({ years, months }: Tenure): string => {
+  const parts: string[] = [];
+  if (years > 0) {
+    parts.push(`${years} ${years === 1 ? 'yr' : 'yrs'}`);
+  }
+  if (months > 0 || parts.length === 0) {
+    parts.push(`${months} ${months === 1 ? 'mo' : 'mos'}`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Total months of professional experience. Overlapping roles are merged so
+ * concurrent positions are not counted twice.
+ */
+export const getTotalExperienceMonths = (
+  experience: Pick<Experience, 'startDate' | 'endDate'>[],
+  now: Date = new Date()
+): number => {
+  const today = toResumeDate(now);
+  const intervals = experience
+    .map(({ startDate, endDate }) => [
+      toMonthIndex(startDate, 'start'),
+      toMonthIndex(endDate === 'present' ? today : endDate, 'end'),
+    ])
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let current: number[] | null = null;
+
+  for (const interval of intervals) {
+    if (current && interval[0] <= current[1] + 1) {
+      current[1] = Math.max(current[1], interval[1]);
+    } else {
+      if (current) total += current[1] - current[0] + 1;
+      current = [...interval];
+    }
+  }
+  if (current) total += current[1] - current[0] + 1;
+
+  return total;
+};
+
+/**
+ * Whole years of professional experience, e.g. 8 for 8 years 11 months
+ */
+export const getTotalYearsOfExperience = (
+  experience: Pick<Experience, 'startDate' | 'endDate'>[],
+  now: Date = new Date()
+): number => Math.floor(getTotalExperienceMonths(experience, now) / 12);
+
+/**
+ * Converts a resume date to an ISO 8601 partial date ('2022-04', '2017')
+ */
+export const toISOPartialDate = (date: ResumeDate): string =>
+  date.month === undefined
+    ? String(date.year)
+    : `${date.year}-${String(date.month).padStart(2, '0')}`;
+
+/**
+ * Parses an ISO 8601 partial date ('2022-04', '2022-04-01', '2017')
+ */
+export const parseISOPartialDate = (value: string): ResumeDate => {
+  const match = value.trim().match(/^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/);
+  if (!match) {
+    throw new Error(`Unrecognised ISO date "${value}"`);
+  }
+
+  const year = Number(match[1]);
+  if (match[2] === undefined) {
+    return { year };
+  }
+
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) {
+    throw new Error(`Invalid month in ISO date "${value}"`);
+  }
+  return { year, month };
+};
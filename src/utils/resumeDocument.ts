@@ -0,0 +1,251 @@
+import { SITE_URL } from '../config/site';
+import { resumeData } from '../data/resumeData';
+import {
+  ResumeData,
+  ResumeDocument,
+  ResumeDocumentEntry,
+  ResumeDocumentHeader,
+  ResumeDocumentSection,
+  ResumeDocumentSkillGroup,
+  Skill,
+} from '../types';
+import {
+  DEFAULT_RESUME_LOCALE,
+  formatCredentialDate,
+  formatDateRange,
+  formatResumeDate,
+} from './resumeDates';
+import {
+  applyResumeVariant,
+  findResumeVariant,
+  getResponsibilityText,
+  getResumeURL,
+} from './resumeVariants';
+
+/**
+ * Builds the renderer-agnostic resume document. Renderers decide how things
+ * look; this module decides what appears, and in which order.
+ */
+
+export interface ResumeDocumentOptions {
+  // Resume variant id, e.g. 'frontend'; the full resume when omitted
+  variant?: string | null;
+  locale?: string;
+}
+
+// Language the resume content is written in
+const RESUME_LANGUAGE = 'en';
+
+/**
+ * Language tag for a document formatted in a locale: the locale itself when
+ * it is a variant of the content language (en-GB), otherwise the content
+ * language, since the text is not translated
+ */
+const getDocumentLanguage = (locale: string): string =>
+  locale.split('-')[0].toLowerCase() === RESUME_LANGUAGE
+    ? locale
+    : RESUME_LANGUAGE;
+
+const toProfileURL = (value: string): string =>
+  /^https?:\/\//i.test(value) ? value : `https://${value}`;
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Groups skills by category, keeping the order in which categories and
+ * skills first appear
+ */
+const groupSkills = (skills: Skill[]): ResumeDocumentSkillGroup[] => {
+  const groups = new Map<Skill['category'], string[]>();
+  skills.forEach((skill) => {
+    groups.set(skill.category, [
+      ...(groups.get(skill.category) ?? []),
+      skill.name,
+    ]);
+  });
+  return Array.from(groups, ([category, names]) => ({
+    label: capitalize(category),
+    skills: names,
+  }));
+};
+
+const entry = (
+  fields: Pick<ResumeDocumentEntry, 'id' | 'title' | 'subtitle'> &
+    Partial<ResumeDocumentEntry>
+): ResumeDocumentEntry => ({
+  bullets: [],
+  technologies: [],
+  links: [],
+  ...fields,
+});
+
+/**
+ * Converts resume data to the document every renderer consumes. Optional
+ * sections are left out when they have no entries.
+ */
+export const buildResumeDocument = (
+  data: ResumeData,
+  {
+    locale = DEFAULT_RESUME_LOCALE,
+    url,
+  }: Pick<ResumeDocumentOptions, 'locale'> &
+    Pick<ResumeDocumentHeader, 'url'> = {}
+): ResumeDocument => {
+  const { personalInfo } = data;
+
+  const sections: ResumeDocumentSection[] = [
+    {
+      kind: 'summary',
+      id: 'summary',
+      heading: 'Professional Summary',
+      text: personalInfo.summary,
+    },
+    {
+      kind: 'entries',
+      id: 'experience',
+      heading: 'Professional Experience',
+      entries: data.experience.map((exp) =>
+        entry({
+          id: exp.id,
+          title: exp.position,
+          subtitle: exp.company,
+          date: formatDateRange(exp.startDate, exp.endDate, locale),
+          bullets: exp.responsibilities.map(getResponsibilityText),
+          technologies: exp.technologies,
+        })
+      ),
+    },
+    {
+      kind: 'entries',
+      id: 'projects',
+      heading: 'Projects',
+      entries: data.projects.map((project) =>
+        entry({
+          id: project.id,
+          title: project.title,
+          subtitle: project.role,
+          date:
+            project.startDate || project.endDate
+              ? formatDateRange(
+                  project.startDate,
+                  project.endDate ?? 'present',
+                  locale
+                )
+              : undefined,
+          summary: project.summary,
+          bullets: project.highlights,
+          technologies: project.technologies,
+          links: project.links,
+        })
+      ),
+    },
+    {
+      kind: 'entries',
+      id: 'education',
+      heading: 'Education',
+      entries: data.education.map((edu) =>
+        entry({
+          id: edu.id,
+          title: `${edu.degree} in ${edu.field}`,
+          subtitle: edu.institution,
+          date: formatDateRange(edu.startDate, edu.graduationDate, locale),
+        })
+      ),
+    },
+    {
+      kind: 'entries',
+      id: 'certifications',
+      heading: 'Certifications',
+      entries: (data.certifications ?? []).map((cert) =>
+        entry({
+          id: cert.id,
+          title: cert.name,
+          subtitle: cert.issuer,
+          date: formatCredentialDate(cert.date, cert.expiryDate, locale),
+          links: cert.credentialUrl
+            ? [{ label: 'View credential', url: cert.credentialUrl }]
+            : [],
+        })
+      ),
+    },
+    {
+      kind: 'entries',
+      id: 'publications',
+      heading: 'Publications',
+      entries: (data.publications ?? []).map((publication) =>
+        entry({
+          id: publication.id,
+          title: publication.title,
+          subtitle: publication.publisher,
+          date: formatResumeDate(publication.date, locale),
+          summary: publication.summary,
+          links: publication.url
+            ? [{ label: 'Read publication', url: publication.url }]
+            : [],
+        })
+      ),
+    },
+    {
+      kind: 'entries',
+      id: 'awards',
+      heading: 'Awards',
+      entries: (data.awards ?? []).map((award) =>
+        entry({
+          id: award.id,
+          title: award.title,
+          subtitle: award.awarder,
+          date: formatResumeDate(award.date, locale),
+          summary: award.summary,
+        })
+      ),
+    },
+    {
+      kind: 'skills',
+      id: 'skills',
+      heading: 'Technical Skills',
+      groups: groupSkills(data.skills),
+    },
+  ];
+
+  return {
+    language: getDocumentLanguage(locale),
+    locale,
+    header: {
+      name: personalInfo.name,
+      title: personalInfo.title,
+      contacts: [
+        { label: personalInfo.email, url: `mailto:${personalInfo.email}` },
+        {
+          label: personalInfo.linkedin,
+          url: toProfileURL(personalInfo.linkedin),
+        },
+      ],
+      ...(url ? { url } : {}),
+    },
+    sections: sections.filter(
+      (section) => section.kind !== 'entries' || section.entries.length > 0
+    ),
+  };
+};
+
+/**
+ * Builds the document for the portfolio's own resume data, optionally
+ * tailored to a resume variant, linking back to the same view of the site
+ */
+export const createResumeDocument = ({
+  variant,
+  locale,
+}: ResumeDocumentOptions = {}): ResumeDocument =>
+  buildResumeDocument(applyResumeVariant(resumeData, variant), {
+    locale,
+    url: getResumeURL(SITE_URL, findResumeVariant(resumeData, variant)?.id),
+  });
+
+/**
+ * File name for an exported resume, e.g. Jane_Doe_Resume.docx
+ */
+export const getResumeFileName = (
+  resume: ResumeDocument,
+  extension: string
+): string => `${resume.header.name.replace(/\s+/g, '_')}_Resume.${extension}`;
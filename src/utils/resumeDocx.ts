@@ -0,0 +1,273 @@
+import {
+  ResumeDocument,
+  ResumeDocumentEntry,
+  ResumeDocumentLink,
+  ResumeDocumentSection,
+} from '../types';
+import { downloadFile } from './download';
+import {
+  createResumeDocument,
+  getResumeFileName,
+  ResumeDocumentOptions,
+} from './resumeDocument';
+import { createZipArchive } from './zip';
+
+/**
+ * Word (DOCX) resume renderer. Produces an Office Open XML package that uses
+ * Word's built-in Title and Heading styles and a real bulleted list, so the
+ * document stays editable for agencies that reformat resumes.
+ */
+
+export const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// A4 with 2cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+// numbering.xml definition used by every bullet paragraph
+const BULLET_NUMBERING_ID = 1;
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+interface RunOptions {
+  bold?: boolean;
+  italic?: boolean;
+  style?: string;
+}
+
+const run = (
+  text: string,
+  { bold, italic, style }: RunOptions = {}
+): string => {
+  const properties = [
+    style ? `<w:rStyle w:val="${style}"/>` : '',
+    bold ? '<w:b/>' : '',
+    italic ? '<w:i/>' : '',
+  ].join('');
+  return (
+    `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}` +
+    `<w:t xml:space="preserve">${escapeXML(text)}</w:t></w:r>`
+  );
+};
+
+const paragraph = (content: string, properties = ''): string =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+const styled = (style: string, extra = ''): string =>
+  `<w:pStyle w:val="${style}"/>${extra}`;
+
+/**
+ * Collects hyperlink targets as document relationships while the body is
+ * written, since each link refers to its target by relationship id
+ */
+const createLinkRegistry = (firstId: number) => {
+  const targets: string[] = [];
+  return {
+    targets,
+    link: ({ label, url }: ResumeDocumentLink): string => {
+      targets.push(url);
+      const id = `rId${firstId + targets.length - 1}`;
+      return `<w:hyperlink r:id="${id}">${run(label, { style: 'Hyperlink' })}</w:hyperlink>`;
+    },
+  };
+};
+
+type LinkWriter = (link: ResumeDocumentLink) => string;
+
+const renderEntry = (
+  entry: ResumeDocumentEntry,
+  link: LinkWriter
+): string[] => {
+  const paragraphs = [
+    paragraph(run(entry.title), styled('Heading2')),
+    // Subtitle with the date against a right-aligned tab stop
+    paragraph(
+      run(entry.subtitle, { bold: true }) +
+        (entry.date
+          ? `<w:r><w:tab/></w:r>${run(entry.date, { italic: true })}`
+          : ''),
+      `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`
+    ),
+  ];
+
+  if (entry.summary) {
+    paragraphs.push(paragraph(run(entry.summary)));
+  }
+  entry.bullets.forEach((bullet) => {
+    paragraphs.push(
+      paragraph(
+        run(bullet),
+        styled(
+          'ListBullet',
+          `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr>`
+        )
+      )
+    );
+  });
+  if (entry.technologies.length > 0) {
+    paragraphs.push(
+      paragraph(
+        run('Technologies: ', { bold: true }) +
+          run(entry.technologies.join(', '))
+      )
+    );
+  }
+  if (entry.links.length > 0) {
+    paragraphs.push(paragraph(entry.links.map(link).join(run(' • '))));
+  }
+  return paragraphs;
+};
+
+const renderSection = (
+  section: ResumeDocumentSection,
+  link: LinkWriter
+): string[] => {
+  const heading = paragraph(run(section.heading), styled('Heading1'));
+  switch (section.kind) {
+    case 'summary':
+      return [heading, paragraph(run(section.text))];
+    case 'entries':
+      return [
+        heading,
+        ...section.entries.flatMap((entry) => renderEntry(entry, link)),
+      ];
+    case 'skills':
+      return [
+        heading,
+        ...section.groups.map((group) =>
+          paragraph(
+            run(`${group.label}: `, { bold: true }) +
+              run(group.skills.join(', '))
+          )
+        ),
+      ];
+  }
+};
+
+const STYLES = `${XML_DECLARATION}
+<w:styles ${NAMESPACES}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="40"/><w:szCs w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="4682B4"/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="4682B4"/></w:pBdr><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="160" w:after="0"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:numPr><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr><w:spacing w:after="40"/></w:pPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+const NUMBERING = `${XML_DECLARATION}
+<w:numbering ${NAMESPACES}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const CONTENT_TYPES = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+/**
+ * Renders a resume document as the bytes of a .docx file
+ */
+export const renderResumeDocx = (
+  resume: ResumeDocument
+): Uint8Array<ArrayBuffer> => {
+  const { header } = resume;
+  // rId1 and rId2 are the styles and numbering parts
+  const links = createLinkRegistry(3);
+
+  const body = [
+    paragraph(run(header.name), styled('Title')),
+    paragraph(run(header.title), styled('Subtitle')),
+    paragraph(header.contacts.map(links.link).join(run(' • '))),
+    ...resume.sections.flatMap((section) => renderSection(section, links.link)),
+  ].join('');
+
+  const documentXML = `${XML_DECLARATION}
+<w:document ${NAMESPACES}><w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const documentRelationships = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${links.targets
+  .map(
+    (target, index) =>
+      `<Relationship Id="rId${index + 3}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXML(target)}" TargetMode="External"/>`
+  )
+  .join('\n')}
+</Relationships>`;
+
+  const coreProperties = `${XML_DECLARATION}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXML(`${header.name} - Resume`)}</dc:title>
+<dc:creator>${escapeXML(header.name)}</dc:creator>
+</cp:coreProperties>`;
+
+  return createZipArchive([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES },
+    { path: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+    { path: 'word/document.xml', data: documentXML },
+    { path: 'word/_rels/document.xml.rels', data: documentRelationships },
+    { path: 'word/styles.xml', data: STYLES },
+    { path: 'word/numbering.xml', data: NUMBERING },
+    { path: 'docProps/core.xml', data: coreProperties },
+  ]);
+};
+
+/**
+ * Builds the .docx for the portfolio's resume, optionally tailored to a
+ * resume variant
+ */
+export const createResumeDocx = (
+  options: ResumeDocumentOptions = {}
+): Uint8Array<ArrayBuffer> => renderResumeDocx(createResumeDocument(options));
+
+/**
+ * Downloads the resume as an editable Word document
+ */
+export const generateResumeDocx = async (
+  options: ResumeDocumentOptions = {}
+): Promise<void> => {
+  try {
+    const resume = createResumeDocument(options);
+    downloadFile(
+      renderResumeDocx(resume),
+      getResumeFileName(resume, 'docx'),
+      DOCX_MIME_TYPE
+    );
+  } catch (error) {
+    console.error('Error generating DOCX:', error);
+    throw new Error('Failed to generate DOCX resume');
+  }
+};
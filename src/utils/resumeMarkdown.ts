@@ -0,0 +1,87 @@
+import {
+  ResumeDocument,
+  ResumeDocumentEntry,
+  ResumeDocumentLink,
+  ResumeDocumentSection,
+} from '../types';
+import { createResumeDocument, ResumeDocumentOptions } from './resumeDocument';
+
+/**
+ * Markdown resume renderer, for job boards and profiles that accept
+ * Markdown. Follows the plain-text export: a single column with the same
+ * section headings, as `##` headings.
+ */
+
+/**
+ * Escapes characters Markdown would read as formatting
+ */
+const escapeMarkdown = (value: string): string =>
+  value.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+const link = ({ label, url }: ResumeDocumentLink): string =>
+  `[${escapeMarkdown(label)}](${url})`;
+
+const renderEntry = (entry: ResumeDocumentEntry): string => {
+  const blocks = [
+    `### ${escapeMarkdown(entry.title)}`,
+    `**${escapeMarkdown(entry.subtitle)}**${entry.date ? `, ${escapeMarkdown(entry.date)}` : ''}`,
+  ];
+  if (entry.summary) {
+    blocks.push(escapeMarkdown(entry.summary));
+  }
+  if (entry.bullets.length > 0) {
+    blocks.push(
+      entry.bullets.map((bullet) => `- ${escapeMarkdown(bullet)}`).join('\n')
+    );
+  }
+  if (entry.technologies.length > 0) {
+    blocks.push(
+      `**Technologies:** ${escapeMarkdown(entry.technologies.join(', '))}`
+    );
+  }
+  if (entry.links.length > 0) {
+    blocks.push(entry.links.map(link).join(', '));
+  }
+  return blocks.join('\n\n');
+};
+
+const renderSectionContent = (section: ResumeDocumentSection): string => {
+  switch (section.kind) {
+    case 'summary':
+      return escapeMarkdown(section.text);
+    case 'entries':
+      return section.entries.map(renderEntry).join('\n\n');
+    case 'skills':
+      return section.groups
+        .map(
+          (group) =>
+            `- **${escapeMarkdown(group.label)}:** ${escapeMarkdown(group.skills.join(', '))}`
+        )
+        .join('\n');
+  }
+};
+
+/**
+ * Renders a resume document as Markdown
+ */
+export const renderResumeMarkdown = (resume: ResumeDocument): string => {
+  const { header } = resume;
+  const blocks = [
+    `# ${escapeMarkdown(header.name)}`,
+    escapeMarkdown(header.title),
+    header.contacts.map(link).join(', '),
+    ...resume.sections.map(
+      (section) =>
+        `## ${escapeMarkdown(section.heading)}\n\n${renderSectionContent(section)}`
+    ),
+  ];
+  return `${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * Creates the Markdown version of the portfolio's resume, optionally
+ * tailored to a resume variant
+ */
+export const createResumeMarkdown = (
+  options: ResumeDocumentOptions = {}
+): string => renderResumeMarkdown(createResumeDocument(options));
@@ -0,0 +1,67 @@
+import {
+  ResumeDocument,
+  ResumeDocumentEntry,
+  ResumeDocumentSection,
+} from '../types';
+import { createResumeDocument, ResumeDocumentOptions } from './resumeDocument';
+
+/**
+ * Plain-text resume renderer for applicant tracking systems and application
+ * forms. One field per line, one column, uppercase section headings and
+ * nothing but hyphens for bullets, so parsers do not trip over decoration.
+ */
+
+const renderEntry = (entry: ResumeDocumentEntry): string => {
+  const lines = [entry.title, entry.subtitle];
+  if (entry.date) {
+    lines.push(entry.date);
+  }
+  if (entry.summary) {
+    lines.push(entry.summary);
+  }
+  entry.bullets.forEach((bullet) => lines.push(`- ${bullet}`));
+  if (entry.technologies.length > 0) {
+    lines.push(`Technologies: ${entry.technologies.join(', ')}`);
+  }
+  entry.links.forEach((link) => lines.push(`${link.label}: ${link.url}`));
+  return lines.join('\n');
+};
+
+const renderSectionContent = (section: ResumeDocumentSection): string => {
+  switch (section.kind) {
+    case 'summary':
+      return section.text;
+    case 'entries':
+      return section.entries.map(renderEntry).join('\n\n');
+    case 'skills':
+      return section.groups
+        .map((group) => `${group.label}: ${group.skills.join(', ')}`)
+        .join('\n');
+  }
+};
+
+/**
+ * Renders a resume document as plain text
+ */
+export const renderResumeText = (resume: ResumeDocument): string => {
+  const { header } = resume;
+  const blocks = [
+    [
+      header.name.toUpperCase(),
+      header.title,
+      ...header.contacts.map((contact) => contact.label),
+    ].join('\n'),
+    ...resume.sections.map(
+      (section) =>
+        `${section.heading.toUpperCase()}\n${renderSectionContent(section)}`
+    ),
+  ];
+  return `${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * Creates the plain-text version of the portfolio's resume, optionally
+ * tailored to a resume variant
+ */
+export const createResumeText = (options: ResumeDocumentOptions = {}): string =>
+  renderResumeText(createResumeDocument(options));
@@ -0,0 +1,545 @@
+import { ResumeDate, Skill } from '../types';
+import { toMonthIndex } from './resumeDates';
+
+/**
+ * Runtime validation for resume data. TypeScript only checks the shape at
+ * compile time; this catches content problems (unknown categories, empty
+ * lists, duplicate ids, malformed dates) and reports each with a JSON path.
+ */
+
+export interface ResumeValidationIssue {
+  /** JSON path to the offending value, e.g. `experience[1].startDate` */
+  path: string;
+  message: string;
+}
+
+export class ResumeValidationError extends Error {
+  readonly issues: ResumeValidationIssue[];
+
+  constructor(issues: ResumeValidationIssue[]) {
+    super(
+      `Resume data is invalid:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join('\n')}`
+    );
+    this.name = 'ResumeValidationError';
+    this.issues = issues;
+  }
+}
+
+export const SKILL_CATEGORIES: Skill['category'][] = [
+  'frontend',
+  'backend',
+  'tools',
+  'methodologies',
+  'other',
+];
+
+export const PROFICIENCY_LEVELS: Skill['proficiency'][] = [
+  'beginner',
+  'intermediate',
+  'advanced',
+  'expert',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Issues = ResumeValidationIssue[];
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkRecord = (
+  value: unknown,
+  path: string,
+  issues: Issues
+): value is UnknownRecord => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return false;
+  }
+  return true;
+};
+
+const checkString = (
+  record: UnknownRecord,
+  key: string,
+  path: string,
+  issues: Issues,
+  { optional = false } = {}
+): string | undefined => {
+  const value = record[key];
+  const fieldPath = `${path}.${key}`;
+
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string') {
+    issues.push({ path: fieldPath, message: 'must be a string' });
+    return undefined;
+  }
+  if (!value.trim()) {
+    issues.push({ path: fieldPath, message: 'must not be empty' });
+    return undefined;
+  }
+  return value;
+};
+
+const checkOneOf = <T extends string>(
+  record: UnknownRecord,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  issues: Issues
+): void => {
+  const value = record[key];
+  if (!allowed.includes(value as T)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `must be one of ${allowed.map((v) => `'${v}'`).join(', ')} (got ${JSON.stringify(value)})`,
+    });
+  }
+};
+
+const checkStringArray = (
+  record: UnknownRecord,
+  key: string,
+  path: string,
+  issues: Issues,
+  { nonEmpty, optional = false }: { nonEmpty: boolean; optional?: boolean }
+): void => {
+  const value = record[key];
+  const fieldPath = `${path}.${key}`;
+
+  if (value === undefined && optional) return;
+  if (!Array.isArray(value)) {
+    issues.push({ path: fieldPath, message: 'must be an array' });
+    return;
+  }
+  if (nonEmpty && value.length === 0) {
+    issues.push({
+      path: fieldPath,
+      message: 'must contain at least one entry',
+    });
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || !item.trim()) {
+      issues.push({
+        path: `${fieldPath}[${index}]`,
+        message: 'must be a non-empty string',
+      });
+    }
+  });
+};
+
+const isValidResumeDate = (value: unknown): value is ResumeDate => {
+  if (!isRecord(value)) return false;
+
+  const { year, month } = value;
+  const validYear =
+    Number.isInteger(year) &&
+    (year as number) >= 1900 &&
+    (year as number) <= 2100;
+  const validMonth =
+    month === undefined ||
+    (Number.isInteger(month) &&
+      (month as number) >= 1 &&
+      (month as number) <= 12);
+
+  return validYear && validMonth;
+};
+
+/**
+ * Checks a structured { year, month } date, recording an issue when it is
+ * missing or malformed
+ */
+const checkDate = (
+  record: UnknownRecord,
+  key: string,
+  path: string,
+  issues: Issues,
+  { allowPresent = false, optional = false } = {}
+): ResumeDate | undefined => {
+  const value = record[key];
+  const fieldPath = `${path}.${key}`;
+
+  if (value === undefined && optional) return undefined;
+  if (value === 'present') {
+    if (!allowPresent) {
+      issues.push({
+        path: fieldPath,
+        message: `'present' is not allowed here`,
+      });
+    }
+    return undefined;
+  }
+  if (!isValidResumeDate(value)) {
+    issues.push({
+      path: fieldPath,
+      message: `must be a date like { year: 2022, month: 4 }${allowPresent ? ` or 'present'` : ''} (got ${JSON.stringify(value)})`,
+    });
+    return undefined;
+  }
+  return value;
+};
+
+const checkDateOrder = (
+  start: ResumeDate | undefined,
+  end: ResumeDate | undefined,
+  path: string,
+  issues: Issues
+): void => {
+  // A year-only end date covers its whole year: May 2020 – 2020 is in order
+  if (start && end && toMonthIndex(end, 'end') < toMonthIndex(start, 'start')) {
+    issues.push({ path, message: 'must not be earlier than the start date' });
+  }
+};
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks a calendar day written as YYYY-MM-DD, rejecting days that don't
+ * exist such as 2024-02-30
+ */
+const checkDay = (
+  data: UnknownRecord,
+  key: string,
+  issues: Issues
+): void => {
+  const value = data[key];
+  const match = typeof value === 'string' ? DAY_PATTERN.exec(value) : null;
+  const date = match ? new Date(`${value}T00:00:00Z`) : null;
+
+  if (
+    !match ||
+    !date ||
+    date.getUTCFullYear() !== Number(match[1]) ||
+    date.getUTCMonth() + 1 !== Number(match[2]) ||
+    date.getUTCDate() !== Number(match[3])
+  ) {
+    issues.push({
+      path: key,
+      message: `must be a day like '2024-05-31' (got ${JSON.stringify(value)})`,
+    });
+  }
+};
+
+const checkURL = (
+  record: UnknownRecord,
+  key: string,
+  path: string,
+  issues: Issues,
+  { optional = false } = {}
+): void => {
+  const url = checkString(record, key, path, issues, { optional });
+  if (url !== undefined && !/^https?:\/\//.test(url)) {
+    issues.push({
+      path: `${path}.${key}`,
+      message: `must be an absolute http(s) URL (got '${url}')`,
+    });
+  }
+};
+
+const checkLinks = (record: UnknownRecord, path: string, issues: Issues) => {
+  const links = record.links;
+  if (!Array.isArray(links)) {
+    issues.push({ path: `${path}.links`, message: 'must be an array' });
+    return;
+  }
+  links.forEach((link, index) => {
+    const linkPath = `${path}.links[${index}]`;
+    if (!checkRecord(link, linkPath, issues)) return;
+
+    checkString(link, 'label', linkPath, issues);
+    checkURL(link, 'url', linkPath, issues);
+  });
+};
+
+const checkImages = (record: UnknownRecord, path: string, issues: Issues) => {
+  const images = record.images;
+  if (!Array.isArray(images)) {
+    issues.push({ path: `${path}.images`, message: 'must be an array' });
+    return;
+  }
+  images.forEach((image, index) => {
+    const imagePath = `${path}.images[${index}]`;
+    if (!checkRecord(image, imagePath, issues)) return;
+
+    checkString(image, 'src', imagePath, issues);
+    // Alt text is required so project screenshots stay accessible
+    checkString(image, 'alt', imagePath, issues);
+  });
+};
+
+/**
+ * Checks an optional list of variant tags, remembering each tag seen so
+ * variants can be checked against the tags actually in use
+ */
+const checkTags = (
+  record: UnknownRecord,
+  path: string,
+  issues: Issues,
+  usedTags: Set<string>,
+  { optional = true } = {}
+): void => {
+  checkStringArray(record, 'tags', path, issues, {
+    nonEmpty: !optional,
+    optional,
+  });
+  if (Array.isArray(record.tags)) {
+    record.tags.forEach((tag) => {
+      if (typeof tag === 'string') usedTags.add(tag);
+    });
+  }
+};
+
+/**
+ * Responsibilities are plain strings or { text, tags } objects
+ */
+const checkResponsibilities = (
+  record: UnknownRecord,
+  path: string,
+  issues: Issues,
+  usedTags: Set<string>
+): void => {
+  const value = record.responsibilities;
+  const fieldPath = `${path}.responsibilities`;
+
+  if (!Array.isArray(value)) {
+    issues.push({ path: fieldPath, message: 'must be an array' });
+    return;
+  }
+  if (value.length === 0) {
+    issues.push({
+      path: fieldPath,
+      message: 'must contain at least one entry',
+    });
+  }
+  value.forEach((item, index) => {
+    const itemPath = `${fieldPath}[${index}]`;
+    if (typeof item === 'string') {
+      if (!item.trim()) {
+        issues.push({ path: itemPath, message: 'must be a non-empty string' });
+      }
+      return;
+    }
+    if (!isRecord(item)) {
+      issues.push({
+        path: itemPath,
+        message: 'must be a string or an object with text and tags',
+      });
+      return;
+    }
+    checkString(item, 'text', itemPath, issues);
+    checkTags(item, itemPath, issues, usedTags, { optional: false });
+  });
+};
+
+/**
+ * Validates a list of records, checking each entry and that ids are unique
+ */
+const checkCollection = (
+  data: UnknownRecord,
+  key: string,
+  issues: Issues,
+  checkEntry: (entry: UnknownRecord, path: string) => void,
+  { optional = false } = {}
+): void => {
+  const value = data[key];
+  if (value === undefined && optional) return;
+  if (!Array.isArray(value)) {
+    issues.push({ path: key, message: 'must be an array' });
+    return;
+  }
+
+  const seenIds = new Map<string, number>();
+  value.forEach((entry, index) => {
+    const path = `${key}[${index}]`;
+    if (!checkRecord(entry, path, issues)) return;
+
+    const id = checkString(entry, 'id', path, issues);
+    if (id !== undefined) {
+      const firstIndex = seenIds.get(id);
+      if (firstIndex !== undefined) {
+        issues.push({
+          path: `${path}.id`,
+          message: `duplicate id '${id}' (also used by ${key}[${firstIndex}])`,
+        });
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+
+    checkEntry(entry, path);
+  });
+};
+
+/**
+ * Validates resume data and returns every problem found. An empty array
+ * means the data is valid.
+ */
+export const validateResumeData = (data: unknown): ResumeValidationIssue[] => {
+  const issues: Issues = [];
+  const usedTags = new Set<string>();
+
+  if (!checkRecord(data, '$', issues)) {
+    return issues;
+  }
+
+  checkDay(data, 'updated', issues);
+
+  if (checkRecord(data.personalInfo, 'personalInfo', issues)) {
+    const info = data.personalInfo;
+    checkString(info, 'name', 'personalInfo', issues);
+    checkString(info, 'title', 'personalInfo', issues);
+    checkString(info, 'linkedin', 'personalInfo', issues);
+    checkString(info, 'summary', 'personalInfo', issues);
+
+    const email = checkString(info, 'email', 'personalInfo', issues);
+    if (email !== undefined && !EMAIL_PATTERN.test(email)) {
+      issues.push({
+        path: 'personalInfo.email',
+        message: `must be a valid email address (got '${email}')`,
+      });
+    }
+  }
+
+  checkCollection(data, 'experience', issues, (exp, path) => {
+    checkString(exp, 'company', path, issues);
+    checkString(exp, 'position', path, issues);
+    checkResponsibilities(exp, path, issues, usedTags);
+    checkTags(exp, path, issues, usedTags);
+    checkStringArray(exp, 'technologies', path, issues, { nonEmpty: false });
+
+    const start = checkDate(exp, 'startDate', path, issues);
+    const end = checkDate(exp, 'endDate', path, issues, {
+      allowPresent: true,
+    });
+    checkDateOrder(start, end, `${path}.endDate`, issues);
+  });
+
+  checkCollection(data, 'education', issues, (edu, path) => {
+    checkString(edu, 'institution', path, issues);
+    checkString(edu, 'degree', path, issues);
+    checkString(edu, 'field', path, issues);
+
+    const start = checkDate(edu, 'startDate', path, issues, {
+      optional: true,
+    });
+    const graduation = checkDate(edu, 'graduationDate', path, issues);
+    checkDateOrder(start, graduation, `${path}.graduationDate`, issues);
+  });
+
+  checkCollection(data, 'projects', issues, (project, path) => {
+    checkString(project, 'title', path, issues);
+    checkString(project, 'summary', path, issues);
+    checkString(project, 'role', path, issues);
+    checkStringArray(project, 'highlights', path, issues, { nonEmpty: false });
+    checkStringArray(project, 'technologies', path, issues, {
+      nonEmpty: true,
+    });
+    checkLinks(project, path, issues);
+    checkImages(project, path, issues);
+
+    const start = checkDate(project, 'startDate', path, issues, {
+      optional: true,
+    });
+    const end = checkDate(project, 'endDate', path, issues, {
+      optional: true,
+      allowPresent: true,
+    });
+    checkDateOrder(start, end, `${path}.endDate`, issues);
+  });
+
+  checkCollection(data, 'skills', issues, (skill, path) => {
+    checkString(skill, 'name', path, issues);
+    checkOneOf(skill, 'category', SKILL_CATEGORIES, path, issues);
+    checkOneOf(skill, 'proficiency', PROFICIENCY_LEVELS, path, issues);
+    checkStringArray(skill, 'aliases', path, issues, {
+      nonEmpty: false,
+      optional: true,
+    });
+    checkTags(skill, path, issues, usedTags);
+  });
+
+  checkCollection(
+    data,
+    'certifications',
+    issues,
+    (cert, path) => {
+      checkString(cert, 'name', path, issues);
+      checkString(cert, 'issuer', path, issues);
+      checkURL(cert, 'credentialUrl', path, issues, { optional: true });
+
+      const issued = checkDate(cert, 'date', path, issues);
+      const expires = checkDate(cert, 'expiryDate', path, issues, {
+        optional: true,
+      });
+      checkDateOrder(issued, expires, `${path}.expiryDate`, issues);
+    },
+    { optional: true }
+  );
+
+  checkCollection(
+    data,
+    'publications',
+    issues,
+    (publication, path) => {
+      checkString(publication, 'title', path, issues);
+      checkString(publication, 'publisher', path, issues);
+      checkDate(publication, 'date', path, issues);
+      checkURL(publication, 'url', path, issues, { optional: true });
+      checkString(publication, 'summary', path, issues, { optional: true });
+    },
+    { optional: true }
+  );
+
+  checkCollection(
+    data,
+    'awards',
+    issues,
+    (award, path) => {
+      checkString(award, 'title', path, issues);
+      checkString(award, 'awarder', path, issues);
+      checkDate(award, 'date', path, issues);
+      checkString(award, 'summary', path, issues, { optional: true });
+    },
+    { optional: true }
+  );
+
+  checkCollection(
+    data,
+    'variants',
+    issues,
+    (variant, path) => {
+      checkString(variant, 'label', path, issues);
+      checkStringArray(variant, 'tags', path, issues, { nonEmpty: true });
+      checkString(variant, 'title', path, issues, { optional: true });
+      checkString(variant, 'summary', path, issues, { optional: true });
+
+      // A tag no entry uses is almost always a typo
+      if (Array.isArray(variant.tags)) {
+        variant.tags.forEach((tag, index) => {
+          if (typeof tag === 'string' && tag.trim() && !usedTags.has(tag)) {
+            issues.push({
+              path: `${path}.tags[${index}]`,
+              message: `tag '${tag}' is not used by any experience, responsibility or skill`,
+            });
+          }
+        });
+      }
+    },
+    { optional: true }
+  );
+
+  return issues;
+};
+
+/**
+ * Throws a ResumeValidationError listing every problem if the data is invalid
+ */
+export const assertValidResumeData = (data: unknown): void => {
+  const issues = validateResumeData(data);
+  if (issues.length > 0) {
+    throw new ResumeValidationError(issues);
+  }
+};
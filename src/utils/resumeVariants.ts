@@ -0,0 +1,145 @@
+import { Responsibility, ResumeData, ResumeVariant } from '../types';
+
+/**
+ * Resume variants tailor one set of resume data to different kinds of roles.
+ * Experiences, responsibilities and skills can be tagged; a variant keeps
+ * the untagged entries plus those sharing one of its tags, listing the
+ * matching tagged entries first.
+ */
+
+export const RESUME_VARIANT_PARAM = 'variant';
+
+/**
+ * Text of a responsibility, whether plain or tagged
+ */
+export const getResponsibilityText = (
+  responsibility: Responsibility
+): string =>
+  typeof responsibility === 'string' ? responsibility : responsibility.text;
+
+const getResponsibilityTags = (responsibility: Responsibility): string[] =>
+  typeof responsibility === 'string' ? [] : responsibility.tags;
+
+const isTagged = (tags: string[] | undefined): tags is string[] =>
+  tags !== undefined && tags.length > 0;
+
+const matchesVariant = (
+  tags: string[] | undefined,
+  variant: ResumeVariant
+): boolean => !isTagged(tags) || tags.some((tag) => variant.tags.includes(tag));
+
+/**
+ * Keeps the entries that belong in the variant, moving the tagged matches
+ * ahead of untagged entries while preserving relative order
+ */
+const tailor = <T>(
+  items: T[],
+  getTags: (item: T) => string[] | undefined,
+  variant: ResumeVariant
+): T[] => {
+  const kept = items.filter((item) => matchesVariant(getTags(item), variant));
+  return [
+    ...kept.filter((item) => isTagged(getTags(item))),
+    ...kept.filter((item) => !isTagged(getTags(item))),
+  ];
+};
+
+/**
+ * Looks up a variant by id; unknown or missing ids resolve to undefined
+ */
+export const findResumeVariant = (
+  data: ResumeData,
+  variantId?: string | null
+): ResumeVariant | undefined =>
+  variantId
+    ? data.variants?.find((variant) => variant.id === variantId)
+    : undefined;
+
+/**
+ * Reads the requested variant id from a query string, e.g. ?variant=frontend
+ */
+export const getRequestedVariantId = (
+  search: string = typeof window !== 'undefined' ? window.location.search : ''
+): string | null => new URLSearchParams(search).get(RESUME_VARIANT_PARAM);
+
+// Prerendering has no address, so no variant is requested
+const NO_LOCATION = { search: '', pathname: '/' };
+
+/**
+ * The variant the visitor asked for: ?variant=<id>, or else the prerendered
+ * share page of a known variant they landed on (/<id>/). Unknown ids and any
+ * other path resolve to undefined.
+ */
+export const getRequestedVariant = (
+  data: ResumeData,
+  { search, pathname }: Pick<Location, 'search' | 'pathname'> = typeof window !== 'undefined'
+    ? window.location
+    : NO_LOCATION
+): ResumeVariant | undefined => {
+  const requestedId = getRequestedVariantId(search);
+  if (requestedId) {
+    return findResumeVariant(data, requestedId);
+  }
+  return data.variants?.find(
+    (variant) =>
+      pathname === `/${variant.id}/` || pathname === `/${variant.id}/index.html`
+  );
+};
+
+/**
+ * Link to the resume on the site, e.g. https://example.com/?variant=frontend
+ */
+export const getResumeURL = (
+  siteURL: string,
+  variantId?: string | null
+): string => {
+  const url = new URL(siteURL);
+  if (variantId) {
+    url.searchParams.set(RESUME_VARIANT_PARAM, variantId);
+  }
+  return url.toString();
+};
+
+/**
+ * Address of a variant's prerendered share page, e.g.
+ * https://example.com/frontend/, which carries the variant's canonical URL
+ * and Open Graph card; no variant gives the site itself
+ */
+export const getVariantPageURL = (
+  siteURL: string,
+  variantId?: string | null
+): string => (variantId ? new URL(`${variantId}/`, siteURL).href : siteURL);
+
+/**
+ * Returns the resume data as seen by a variant. Without a known variant the
+ * data is returned unchanged, so the default view is never filtered.
+ */
+export const applyResumeVariant = (
+  data: ResumeData,
+  variantId?: string | null
+): ResumeData => {
+  const variant = findResumeVariant(data, variantId);
+  if (!variant) {
+    return data;
+  }
+
+  return {
+    ...data,
+    personalInfo: {
+      ...data.personalInfo,
+      title: variant.title ?? data.personalInfo.title,
+      summary: variant.summary ?? data.personalInfo.summary,
+    },
+    experience: data.experience
+      .filter((exp) => matchesVariant(exp.tags, variant))
+      .map((exp) => ({
+        ...exp,
+        responsibilities: tailor(
+          exp.responsibilities,
+          getResponsibilityTags,
+          variant
+        ),
+      })),
+    skills: tailor(data.skills, (skill) => skill.tags, variant),
+  };
+};
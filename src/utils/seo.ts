@@ -2,6 +2,12 @@
  * SEO utility functions for managing meta tags and structured data
  */
 
+import { SITE_URL } from '../config/site';
+import { ResumeData } from '../types';
+import { getOGImageURL } from './ogImage';
+import { toISOPartialDate } from './resumeDates';
+import { getVariantPageURL } from './resumeVariants';
+
 export interface SEOConfig {
   title?: string;
   description?: string;
@@ -86,50 +92,78 @@ const updateLinkTag = (rel: string, href: string): void => {
   link.setAttribute('href', href);
 };
 
+const toProfileURL = (value: string): string =>
+  /^https?:\/\//i.test(value) ? value : `https://${value}`;
+
+export interface StructuredDataOptions {
+  // Address of the profile page; the Person is identified as <url>#person
+  url?: string;
+}
+
 /**
- * Generates structured data for a person/professional profile
+ * Generates schema.org JSON-LD for the portfolio: a ProfilePage whose main
+ * entity is the Person described by the resume. Every employer is listed as
+ * an OrganizationRole with its dates, schools as EducationalOrganizations,
+ * skills as knowsAbout and public profiles as sameAs.
  */
-export const generatePersonStructuredData = (data: {
-  name: string;
-  jobTitle: string;
-  description: string;
-  url: string;
-  email: string;
-  telephone: string;
-  sameAs: string[];
-  worksFor: string;
-  alumniOf: string;
-  knowsAbout: string[];
-  skills: string[];
-}): string => {
-  const structuredData = {
-    "@context": "https://schema.org",
+export const generatePersonStructuredData = (
+  data: ResumeData,
+  { url = SITE_URL }: StructuredDataOptions = {}
+): string => {
+  const { personalInfo } = data;
+  const certifications = data.certifications ?? [];
+  const awards = data.awards ?? [];
+
+  const person = {
     "@type": "Person",
-    name: data.name,
-    jobTitle: data.jobTitle,
-    description: data.description,
-    url: data.url,
-    email: data.email,
-    telephone: data.telephone,
-    sameAs: data.sameAs,
-    worksFor: {
-      "@type": "Organization",
-      name: data.worksFor
-    },
-    alumniOf: {
+    "@id": `${url}#person`,
+    name: personalInfo.name,
+    jobTitle: personalInfo.title,
+    description: personalInfo.summary,
+    url,
+    email: personalInfo.email,
+    sameAs: [toProfileURL(personalInfo.linkedin)],
+    worksFor: data.experience.map(exp => ({
+      "@type": "OrganizationRole",
+      roleName: exp.position,
+      startDate: toISOPartialDate(exp.startDate),
+      ...(exp.endDate !== 'present' && { endDate: toISOPartialDate(exp.endDate) }),
+      worksFor: {
+        "@type": "Organization",
+        name: exp.company
+      }
+    })),
+    alumniOf: data.education.map(edu => ({
       "@type": "EducationalOrganization",
-      name: data.alumniOf
-    },
-    knowsAbout: data.knowsAbout,
-    hasOccupation: {
-      "@type": "Occupation",
-      name: data.jobTitle,
-      occupationLocation: {
-        "@type": "Place",
-        name: "United States"
-      },
-      skills: data.skills
-    }
+      name: edu.institution
+    })),
+    knowsAbout: data.skills.map(skill => skill.name),
+    ...(certifications.length > 0 && {
+      hasCredential: certifications.map(cert => ({
+        "@type": "EducationalOccupationalCredential",
+        name: cert.name,
+        credentialCategory: "certification",
+        recognizedBy: {
+          "@type": "Organization",
+          name: cert.issuer
+        },
+        dateCreated: toISOPartialDate(cert.date),
+        ...(cert.expiryDate && { expires: toISOPartialDate(cert.expiryDate) }),
+        ...(cert.credentialUrl && { url: cert.credentialUrl })
+      }))
+    }),
+    ...(awards.length > 0 && {
+      award: awards.map(award => `${award.title}, ${award.awarder} (${award.date.year})`)
+    })
+  };
+
+  const structuredData = {
+    "@context": "https://schema.org",
+    "@type": "ProfilePage",
+    "@id": url,
+    url,
+    name: `${personalInfo.name} - ${personalInfo.title}`,
+    mainEntity: person
   };
 
   return JSON.stringify(structuredData, null, 2);
@@ -152,6 +186,96 @@ export const injectStructuredData = (structuredData: string): void => {
   document.head.appendChild(script);
 };
 
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const renderMetaTag = (name: string, content: string): string => {
+  // Same attribute choice as updateMetaTag, so the client updates these tags
+  // instead of adding duplicates
+  const isProperty = name.startsWith('og:') || name.startsWith('twitter:');
+  const attribute = isProperty ? 'property' : 'name';
+  return `<meta ${attribute}="${name}" content="${escapeAttribute(content)}" />`;
+};
+
+/**
+ * Renders the tags updateMetaTags and injectStructuredData manage as static
+ * HTML for the <head>, so the prerendered page carries them without
+ * JavaScript
+ */
+export const renderHeadTags = (config: SEOConfig, structuredData: string): string => {
+  const { title, description, keywords, image, url, type = 'website' } = config;
+  const tags: string[] = [];
+
+  if (title) {
+    tags.push(
+      `<title>${escapeAttribute(title)}</title>`,
+      renderMetaTag('og:title', title),
+      renderMetaTag('twitter:title', title)
+    );
+  }
+
+  if (description) {
+    tags.push(
+      renderMetaTag('description', description),
+      renderMetaTag('og:description', description),
+      renderMetaTag('twitter:description', description)
+    );
+  }
+
+  if (keywords) {
+    tags.push(renderMetaTag('keywords', keywords));
+  }
+
+  if (image) {
+    tags.push(renderMetaTag('og:image', image), renderMetaTag('twitter:image', image));
+  }
+
+  if (url) {
+    tags.push(
+      renderMetaTag('og:url', url),
+      renderMetaTag('twitter:url', url),
+      `<link rel="canonical" href="${escapeAttribute(url)}" />`
+    );
+  }
+
+  tags.push(renderMetaTag('og:type', type));
+
+  // "</script>" inside a string would end the script element early
+  tags.push(
+    `<script type="application/ld+json">${structuredData.replace(/</g, '\\u003c')}</script>`
+  );
+
+  return tags.join('\n');
+};
+
+/**
+ * Address and share card of a resume variant's page, e.g. <site>frontend/
+ * with og-image-frontend.jpg; no variant gives the portfolio's own
+ */
+export const getVariantSEOConfig = (
+  variantId?: string | null,
+  siteURL: string = SITE_URL
+): Partial<SEOConfig> => ({
+  url: getVariantPageURL(siteURL, variantId),
+  image: getOGImageURL(siteURL, variantId),
+});
+
+/**
+ * Title and address while a section is in view, e.g. "Projects | <title>"
+ * at <site>#projects
+ */
+export const getSectionSEOConfig = (
+  section: { id: string; label: string },
+  baseURL: string = SITE_URL
+): Partial<SEOConfig> => ({
+  title: `${section.label} | ${defaultSEOConfig.title}`,
+  url: `${baseURL}#${section.id}`,
+});
+
 /**
  * Default SEO configuration for the portfolio
  */
@@ -159,7 +283,7 @@ export const defaultSEOConfig: SEOConfig = {
   title: 'Robert Samalonis - Senior Software Engineer | React & TypeScript Expert',
   description: 'Experienced Senior Software Engineer specializing in React, TypeScript, and accessibility. Currently at eMoney Advisor, passionate about creating inclusive, performant web applications with exceptional user experiences.',
   keywords: 'Robert Samalonis, Senior Software Engineer, React Developer, TypeScript, Frontend Developer, Web Accessibility, WCAG, JavaScript, HTML5, CSS3, eMoney Advisor, Portfolio',
-  image: 'https://robertsamalonis.github.io/og-image.jpg',
-  url: 'https://robertsamalonis.github.io/',
+  image: getOGImageURL(SITE_URL),
+  url: SITE_URL,
   type: 'website'
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { getVariantPageURL } from './resumeVariants';
+
+/**
+ * Crawler files (sitemap.xml and robots.txt) written next to index.html at
+ * build time
+ */
+
+export interface SitemapEntry {
+  url: string;
+  lastModified: Date;
+}
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Lists the pages worth indexing on a host: the portfolio itself, each
+ * resume variant's page and, when it is deployed, the static HTML resume;
+ * all last changed when the resume data did
+ */
+export const getSitemapEntries = (
+  siteURL: string,
+  resumeFileName: string | undefined,
+  lastModified: Date,
+  variantIds: string[] = []
+): SitemapEntry[] => [
+  { url: siteURL, lastModified },
+  ...variantIds.map((variantId) => ({ url: getVariantPageURL(siteURL, variantId), lastModified })),
+  ...(resumeFileName ? [{ url: new URL(resumeFileName, siteURL).href, lastModified }] : []),
+];
+
+/**
+ * Renders a sitemaps.org XML sitemap; lastmod is a plain UTC date, which is
+ * all the precision crawlers use
+ */
+export const renderSitemap = (entries: SitemapEntry[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map(({ url, lastModified }) =>
+      [
+        '  <url>',
+        `    <loc>${escapeXML(url)}</loc>`,
+        `    <lastmod>${lastModified.toISOString().slice(0, 10)}</lastmod>`,
+        '  </url>',
+      ].join('\n')
+    ),
+    '</urlset>',
+    '',
+  ].join('\n');
+
+/**
+ * Renders robots.txt: everything may be crawled, and the sitemap is on the
+ * same host
+ */
+export const renderRobotsTxt = (siteURL: string): string =>
+  ['User-agent: *', 'Allow: /', '', `Sitemap: ${new URL('sitemap.xml', siteURL).href}`, ''].join('\n');
@@ -0,0 +1,129 @@
+import { Experience, ResumeData, ResumeDate, Skill } from '../types';
+import { compareResumeDates, getTotalExperienceMonths } from './resumeDates';
+
+/**
+ * Skill analytics derived from employment history. Technologies listed on
+ * each role are matched to skills so the resume can show how long, and how
+ * recently, each skill has been used instead of relying on hand-entered
+ * proficiency alone.
+ */
+
+export interface SkillUsage {
+  skillId: string;
+  // Months the skill was used, with overlapping roles merged
+  months: number;
+  years: number;
+  lastUsed: ResumeDate | 'present';
+  current: boolean;
+  experienceIds: string[];
+}
+
+export interface UnmatchedTechnology {
+  experienceId: string;
+  technology: string;
+  path: string;
+}
+
+export interface SkillAnalytics {
+  usage: Record<string, SkillUsage>;
+  unmatched: UnmatchedTechnology[];
+}
+
+/**
+ * Reduces a label to letters and digits so 'Node.js', 'nodejs' and 'NodeJS'
+ * compare equal
+ */
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Builds a lookup from every normalized id, name and alias to its skill
+ */
+const createSkillIndex = (skills: Skill[]): Map<string, Skill> => {
+  const index = new Map<string, Skill>();
+  skills.forEach((skill) => {
+    [skill.id, skill.name, ...(skill.aliases ?? [])].forEach((label) => {
+      const key = normalize(label);
+      if (key && !index.has(key)) {
+        index.set(key, skill);
+      }
+    });
+  });
+  return index;
+};
+
+/**
+ * Finds the skill a technology string refers to, e.g. 'Jest' → jest
+ */
+export const matchTechnologyToSkill = (
+  technology: string,
+  skills: Skill[]
+): Skill | undefined => createSkillIndex(skills).get(normalize(technology));
+
+const laterEndDate = (
+  a: ResumeDate | 'present',
+  b: ResumeDate | 'present'
+): ResumeDate | 'present' => {
+  if (a === 'present' || b === 'present') return 'present';
+  return compareResumeDates(a, b) >= 0 ? a : b;
+};
+
+/**
+ * Computes years used and most recent use for every skill mentioned in the
+ * employment history, and lists technologies that match no skill
+ */
+export const getSkillAnalytics = (
+  { experience, skills }: Pick<ResumeData, 'experience' | 'skills'>,
+  now: Date = new Date()
+): SkillAnalytics => {
+  const index = createSkillIndex(skills);
+  const rolesBySkill = new Map<string, Experience[]>();
+  const unmatched: UnmatchedTechnology[] = [];
+
+  experience.forEach((exp, expIndex) => {
+    exp.technologies.forEach((technology, techIndex) => {
+      const skill = index.get(normalize(technology));
+      if (!skill) {
+        unmatched.push({
+          experienceId: exp.id,
+          technology,
+          path: `experience[${expIndex}].technologies[${techIndex}]`,
+        });
+        return;
+      }
+
+      const roles = rolesBySkill.get(skill.id) ?? [];
+      if (!roles.includes(exp)) {
+        roles.push(exp);
+      }
+      rolesBySkill.set(skill.id, roles);
+    });
+  });
+
+  const usage: Record<string, SkillUsage> = {};
+  rolesBySkill.forEach((roles, skillId) => {
+    const months = getTotalExperienceMonths(roles, now);
+    const lastUsed = roles.map((role) => role.endDate).reduce(laterEndDate);
+
+    usage[skillId] = {
+      skillId,
+      months,
+      years: Math.floor(months / 12),
+      lastUsed,
+      current: lastUsed === 'present',
+      experienceIds: roles.map((role) => role.id),
+    };
+  });
+
+  return { usage, unmatched };
+};
+
+/**
+ * Formats a usage badge, e.g. "5+ yrs · current" or "1+ yr · 2019"
+ */
+export const formatSkillUsage = ({ years, lastUsed }: SkillUsage): string => {
+  const duration =
+    years === 0 ? '<1 yr' : `${years}+ ${years === 1 ? 'yr' : 'yrs'}`;
+  const recency = lastUsed === 'present' ? 'current' : String(lastUsed.year);
+  return `${duration} · ${recency}`;
+};
@@ -119,7 +119,8 @@ export class SmartScrolling {
 
     // Update browser history
     if (updateHistory && window.history.pushState) {
-      const newUrl = `${window.location.pathname}#${sectionId}`;
+      // Keep the query, e.g. ?variant=frontend
+      const newUrl = `${window.location.pathname}${window.location.search}#${sectionId}`;
       window.history.pushState({ section: sectionId }, '', newUrl);
     }
 
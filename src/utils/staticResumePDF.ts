@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { ResumeDocument } from '../types';
+import { PDFRenderOptions, renderResumePDF } from './pdfGenerator';
+import { PDFTemplate } from './pdfTemplates';
+
+/**
+ * Build-time resume PDF, drawn in Node by the same generator as the download
+ * button. Nothing in it comes from the clock or a random source, so the same
+ * resume always produces the same bytes and the committed PDF only changes
+ * when its content does.
+ */
+
+// Same fixed timestamp the ZIP writer gives DOCX entries
+export const STATIC_PDF_CREATION_DATE = new Date(Date.UTC(1980, 0, 1));
+
+export type StaticResumePDFOptions = Pick<
+  PDFRenderOptions,
+  'paper' | 'margin' | 'createdAt'
+>;
+
+/**
+ * File identifier derived from what is drawn, in place of jsPDF's random one
+ */
+export const getResumePDFFileId = (
+  resume: ResumeDocument,
+  template: PDFTemplate,
+  { paper, margin }: StaticResumePDFOptions = {}
+): string =>
+  createHash('md5')
+    .update(JSON.stringify({ resume, template, paper, margin }))
+    .digest('hex')
+    .toUpperCase();
+
+/**
+ * Renders the resume PDF reproducibly. The creation date is fixed unless a
+ * build date is given (e.g. from SOURCE_DATE_EPOCH), and no "Generated on"
+ * line is printed.
+ */
+export const renderStaticResumePDF = (
+  resume: ResumeDocument,
+  template: PDFTemplate,
+  options: StaticResumePDFOptions = {}
+): Uint8Array =>
+  new Uint8Array(
+    renderResumePDF(resume, template, {
+      ...options,
+      createdAt: options.createdAt ?? STATIC_PDF_CREATION_DATE,
+      fileId: getResumePDFFileId(resume, template, options),
+      showGeneratedDate: false,
+    }).output('arraybuffer')
+  );
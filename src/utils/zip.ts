@@ -0,0 +1,141 @@
+/**
+ * Minimal ZIP writer for packaging generated documents (e.g. DOCX) in the
+ * browser and in build scripts. Entries are stored uncompressed; resume
+ * packages are a few kilobytes, so deflate would save little.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: string | Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 checksum as used by ZIP and PNG
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  data.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Every entry gets the earliest DOS timestamp (1980-01-01 00:00) so the same
+// input always produces the same archive
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// General purpose flag marking file names as UTF-8
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+
+const concat = (chunks: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+/**
+ * Builds a little-endian binary record from [value, byteLength] fields
+ */
+const record = (fields: [number, 2 | 4][]): Uint8Array => {
+  const bytes = new Uint8Array(
+    fields.reduce((total, [, size]) => total + size, 0)
+  );
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  fields.forEach(([value, size]) => {
+    if (size === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += size;
+  });
+  return bytes;
+};
+
+/**
+ * Packs files into a ZIP archive, in the order given
+ */
+export const createZipArchive = (
+  entries: ZipEntry[]
+): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ path, data }) => {
+    const name = encoder.encode(path);
+    const content = typeof data === 'string' ? encoder.encode(data) : data;
+    const checksum = crc32(content);
+
+    const localHeader = record([
+      [0x04034b50, 4],
+      [VERSION, 2],
+      [UTF8_FLAG, 2],
+      [0, 2], // stored, no compression
+      [DOS_TIME, 2],
+      [DOS_DATE, 2],
+      [checksum, 4],
+      [content.length, 4],
+      [content.length, 4],
+      [name.length, 2],
+      [0, 2],
+    ]);
+
+    centralParts.push(
+      record([
+        [0x02014b50, 4],
+        [VERSION, 2],
+        [VERSION, 2],
+        [UTF8_FLAG, 2],
+        [0, 2],
+        [DOS_TIME, 2],
+        [DOS_DATE, 2],
+        [checksum, 4],
+        [content.length, 4],
+        [content.length, 4],
+        [name.length, 2],
+        [0, 2], // extra field length
+        [0, 2], // comment length
+        [0, 2], // disk number
+        [0, 2], // internal attributes
+        [0, 4], // external attributes
+        [offset, 4],
+      ]),
+      name
+    );
+
+    localParts.push(localHeader, name, content);
+    offset += localHeader.length + name.length + content.length;
+  });
+
+  const centralDirectory = concat(centralParts);
+  const endOfCentralDirectory = record([
+    [0x06054b50, 4],
+    [0, 2],
+    [0, 2],
+    [entries.length, 2],
+    [entries.length, 2],
+    [centralDirectory.length, 4],
+    [offset, 4],
+    [0, 2],
+  ]);
+
+  return concat([...localParts, centralDirectory, endOfCentralDirectory]);
+};
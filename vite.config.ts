@@ -1,20 +1,30 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { getSiteHost } from './src/config/site'
+import { sitePlugin } from './scripts/vite-plugin-site'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ ssrBuild }) => ({
+  // SITE_HOST picks the deploy target (see src/config/site.ts)
+  plugins: [react(), sitePlugin(getSiteHost(process.env.SITE_HOST))],
+  define: {
+    // Fixed "today" for the prerendered page (see src/config/build.ts)
+    __BUILD_DATE__: JSON.stringify(new Date().toISOString().slice(0, 10)),
+  },
   // For main GitHub Pages site (username.github.io), use root path
   // For project pages (username.github.io/project-name), use '/project-name/'
   base: process.env.NODE_ENV === 'production' ? '/' : '/',
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+    // The prerender bundle (scripts/prerender.ts) only needs the app code
+    copyPublicDir: !ssrBuild,
     // Performance optimizations
     rollupOptions: {
       output: {
-        // Manual chunk splitting for better caching
-        manualChunks: {
+        // Manual chunk splitting for better caching; the prerender bundle
+        // runs once at build time, so it has nothing to split
+        manualChunks: ssrBuild ? undefined : {
           // Vendor chunks
           'react-vendor': ['react', 'react-dom'],
           'mui-vendor': ['@mui/material', '@mui/icons-material', '@emotion/react', '@emotion/styled'],
@@ -24,6 +34,7 @@ export default defineConfig({
           'sections': [
             './src/components/sections/Hero.tsx',
             './src/components/sections/Resume.tsx', 
+            './src/components/sections/Projects.tsx',
             './src/components/sections/Contact.tsx'
           ],
           'common': [
@@ -32,14 +43,15 @@ export default defineConfig({
             './src/components/common/PageTransition.tsx'
           ]
         },
-        // Optimize chunk file names
+        // Optimize chunk file names; the prerender script imports the server
+        // entry by name, so it keeps a fixed one
         chunkFileNames: 'assets/js/[name]-[hash].js',
-        entryFileNames: 'assets/js/[name]-[hash].js',
+        entryFileNames: ssrBuild ? '[name].js' : 'assets/js/[name]-[hash].js',
         assetFileNames: 'assets/[ext]/[name]-[hash].[ext]'
       }
     },
     // Enable minification and compression
-    minify: 'terser',
+    minify: ssrBuild ? false : 'terser',
     terserOptions: {
       compress: {
         drop_console: true, // Remove console.log in production
@@ -53,6 +65,11 @@ export default defineConfig({
     // Asset optimization
     assetsInlineLimit: 4096, // Inline assets smaller than 4kb
   },
+  // MUI's ES modules use directory imports that Node cannot resolve, so the
+  // prerender bundle inlines them instead of leaving them external
+  ssr: {
+    noExternal: [/^@mui\//]
+  },
   // Development optimizations
   server: {
     hmr: {
@@ -69,4 +86,4 @@ export default defineConfig({
       'framer-motion'
     ]
   }
-})
\ No newline at end of file
+}))